@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+// GTP bridge - lets a local Go engine (GnuGo, KataGo, ...) play one colour of a classic game.
+//
+//   npm run gtp -- --game <gameId> --key <privateKey> --color black \
+//     [--url https://gobanweb.example] [--poll 2000] [--clear] -- gnugo --mode gtp
+//
+// The engine runs as a child process and is spoken to in Go Text Protocol over its
+// stdin/stdout. The bridge keeps it in step with the board:
+//   boardsize / komi / set_free_handicap  <- GET  /api/games/[gameId]
+//   play / clear_board                    <- GET  /api/games/[gameId]/history
+//   genmove                               -> POST /api/games/[gameId]/action
+//   clear_board (with --clear, once)      -> POST /api/games/[gameId]/clear
+// A cleared board, an undo or a stone picked up by hand all show up as a history the engine
+// hasn't seen, and the engine is rebuilt from scratch with clear_board and the moves so far.
+// Moves are sent with the move number they were chosen on, so one that lands after the
+// opponent's is refused and the engine catches up instead. Rate limits and server errors are
+// waited out; only the site's rules refusing a move (a 400) make the engine pass.
+// The private key can also come from GOBAN_PRIVATE_KEY so it stays out of the process list.
+
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+
+const COLUMNS = 'ABCDEFGHJKLMNOPQRSTUVWXYZ'; // GTP skips I
+const COLORS = { black: 0, white: 1 };
+
+// Rate limits and server trouble are retried with a growing pause, up to this many times
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504]);
+const RETRIES = 5;
+const MAX_RETRY_MS = 30000;
+
+function usage(message) {
+  if (message) console.error(`gtp-bridge: ${message}`);
+  console.error('Usage: node scripts/gtp-bridge.mjs --game <gameId> --key <privateKey> --color black|white');
+  console.error('         [--url <site>] [--poll <ms>] [--clear] -- <engine command...>');
+  process.exit(2);
+}
+
+function parseArgs(argv) {
+  const split = argv.indexOf('--');
+  const engine = split === -1 ? [] : argv.slice(split + 1);
+  const flags = split === -1 ? argv : argv.slice(0, split);
+  const options = {
+    url: 'http://localhost:3000',
+    key: process.env.GOBAN_PRIVATE_KEY,
+    poll: 2000,
+  };
+
+  for (let i = 0; i < flags.length; i++) {
+    const name = flags[i].replace(/^--/, '');
+    if (name === 'clear') { // The one switch without a value
+      options.clear = true;
+      continue;
+    }
+    const value = flags[++i];
+    if (value === undefined) usage(`missing value for --${name}`);
+    if (!['game', 'key', 'color', 'url', 'poll'].includes(name)) usage(`unknown option --${name}`);
+    options[name] = value;
+  }
+
+  if (!options.game) usage('--game is required');
+  if (!options.key) usage('--key (or GOBAN_PRIVATE_KEY) is required');
+  if (!(options.color in COLORS)) usage('--color must be black or white');
+  if (engine.length === 0) usage('no engine command after --');
+
+  const poll = Number(options.poll);
+  if (!Number.isInteger(poll) || poll < 250) usage('--poll must be at least 250 ms');
+
+  return {
+    base: `${options.url.replace(/\/$/, '')}/api/games/${encodeURIComponent(options.game)}`,
+    key: options.key,
+    color: COLORS[options.color],
+    poll,
+    clear: options.clear === true,
+    engine,
+  };
+}
+
+// Board coordinates run from the top-left; GTP counts rows up from the bottom
+function toVertex(x, y, size) {
+  return `${COLUMNS[x]}${size - y}`;
+}
+
+function fromVertex(vertex, size) {
+  const x = COLUMNS.indexOf(vertex[0].toUpperCase());
+  const y = size - Number(vertex.slice(1));
+  if (x < 0 || x >= size || !Number.isInteger(y) || y < 0 || y >= size) return null;
+  return { x, y };
+}
+
+function gtpColor(stoneColor) {
+  return stoneColor === 0 ? 'B' : 'W';
+}
+
+// A GTP engine on the other end of a child process, one command at a time
+class Engine {
+  constructor(command) {
+    this.process = spawn(command[0], command.slice(1), { stdio: ['pipe', 'pipe', 'inherit'] });
+    this.pending = [];
+    this.lines = [];
+    this.process.on('exit', (code) => {
+      console.error(`gtp-bridge: engine exited (${code ?? 'signal'})`);
+      process.exit(code ?? 1);
+    });
+    // The exit handler reports a dead engine; a write racing it has nothing to add
+    this.process.stdin.on('error', () => {});
+
+    // A response is one or more lines ending with a blank line, starting '=' or '?'
+    createInterface({ input: this.process.stdout }).on('line', (line) => {
+      if (line.trim() === '') {
+        if (this.lines.length === 0) return;
+        const text = this.lines.join('\n');
+        this.lines = [];
+        const waiting = this.pending.shift();
+        if (!waiting) return;
+        if (text.startsWith('=')) waiting.resolve(text.slice(1).trim());
+        else waiting.reject(new Error(text.slice(1).trim() || 'engine error'));
+      } else {
+        this.lines.push(line);
+      }
+    });
+  }
+
+  send(command) {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.process.stdin.write(`${command}\n`);
+    });
+  }
+}
+
+// A refusal from the site, with the HTTP status it came with
+class SiteError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+// Until the rate limit window resets when the site says when that is, otherwise 1s, 2s, 4s...
+function retryDelay(res, attempt) {
+  const reset = Number(res?.headers.get('X-RateLimit-Reset'));
+  const delay = res?.status === 429 && reset > 0 ? reset - Date.now() : 1000 * 2 ** attempt;
+  return Math.min(Math.max(delay, 250), MAX_RETRY_MS);
+}
+
+async function request(url, init) {
+  for (let attempt = 0; ; attempt++) {
+    let res;
+    try {
+      res = await fetch(url, init);
+    } catch (error) {
+      if (attempt >= RETRIES) throw error;
+      console.error(`gtp-bridge: ${error.message}, retrying`);
+      await sleep(retryDelay(null, attempt));
+      continue;
+    }
+
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) return data;
+    if (!RETRY_STATUSES.has(res.status) || attempt >= RETRIES) {
+      throw new SiteError(data.error || `${res.status} ${res.statusText}`, res.status);
+    }
+    console.error(`gtp-bridge: ${res.status} from the site, retrying`);
+    await sleep(retryDelay(res, attempt));
+  }
+}
+
+function post(config, path, body) {
+  return request(`${config.base}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ privateKey: config.key, ...body }),
+  });
+}
+
+// The commands that lead from clear_board to the board as the site has it: the handicap
+// stones, then place and pass actions in order. Once stones have been lifted or moved by
+// hand the history can't be told in GTP, so the current position is set up stone by stone.
+function movesFor(game, history) {
+  const size = game.boardSize;
+  const played = history.actions.filter(a => a.actionType === 'place' || a.actionType === 'pass');
+  const freeform = history.actions.some(a => a.actionType === 'remove' || a.actionType === 'move');
+
+  if (!freeform) {
+    const handicap = game.handicapStones.length > 0
+      ? [`set_free_handicap ${game.handicapStones.map(s => toVertex(s.x, s.y, size)).join(' ')}`]
+      : [];
+    return [...handicap, ...played.map(a => a.actionType === 'pass'
+      ? `play ${gtpColor(a.stoneColor)} pass`
+      : `play ${gtpColor(a.stoneColor)} ${toVertex(a.toX, a.toY, size)}`)];
+  }
+
+  const moves = [];
+  game.boardState.forEach((row, y) => row.forEach((stone, x) => {
+    if (stone !== null) moves.push(`play ${gtpColor(stone)} ${toVertex(x, y, size)}`);
+  }));
+  return moves;
+}
+
+// Classic boards don't enforce turns: the player to move is whoever didn't place or pass
+// last - White when a handicap game has no moves yet, otherwise Black (as the site's own bot)
+function colorToMove(game, history) {
+  const last = history.actions.filter(a => a.actionType === 'place' || a.actionType === 'pass').at(-1);
+  if (!last) return game.handicap > 0 ? 1 : 0;
+  return last.stoneColor === 0 ? 1 : 0;
+}
+
+async function main() {
+  const config = parseArgs(process.argv.slice(2));
+  const engine = new Engine(config.engine);
+  const name = await engine.send('name').catch(() => 'engine');
+  console.error(`gtp-bridge: ${name} plays ${config.color === 0 ? 'Black' : 'White'} on ${config.base}`);
+
+  let setup = null; // boardsize/komi the engine was last set up with
+  let sent = [];    // Commands the engine has seen since its last clear_board
+
+  const shutdown = async () => {
+    await engine.send('quit').catch(() => {});
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  // A fresh game on the site; the loop then sets the engine up from the empty board
+  if (config.clear) {
+    await post(config, '/clear', {});
+    console.error('gtp-bridge: board cleared');
+  }
+
+  for (;;) {
+    try {
+      const game = await request(config.base);
+      const history = await request(`${config.base}/history`);
+      const gameSetup = `${game.boardSize} ${game.komi}`;
+      const moves = movesFor(game, history);
+
+      // Anything but more moves on top of what the engine knows means starting over
+      const inStep = setup === gameSetup && sent.every((move, i) => moves[i] === move);
+      if (!inStep) {
+        if (setup !== gameSetup) {
+          await engine.send(`boardsize ${game.boardSize}`);
+          await engine.send(`komi ${game.komi}`);
+        }
+        await engine.send('clear_board');
+        setup = gameSetup;
+        sent = [];
+      }
+      for (const move of moves.slice(sent.length)) {
+        await engine.send(move);
+        sent.push(move);
+      }
+
+      if (game.status === 'playing' && colorToMove(game, history) === config.color) {
+        const reply = (await engine.send(`genmove ${gtpColor(config.color)}`)).toLowerCase();
+        const stoneColor = config.color;
+        const expectedMoveNumber = game.moveNumber;
+
+        let action;
+        if (reply === 'resign' || reply === 'pass') {
+          action = { actionType: reply };
+        } else {
+          const pos = fromVertex(reply, game.boardSize);
+          if (!pos) throw new Error(`engine replied with an unknown vertex: ${reply}`);
+          action = { actionType: 'place', toX: pos.x, toY: pos.y };
+        }
+
+        try {
+          await post(config, '/action', { ...action, stoneColor, expectedMoveNumber });
+        } catch (error) {
+          // genmove played the move in the engine too; take it back whatever happens next
+          await engine.send('undo').catch(() => { sent = ['out of step']; });
+
+          if (error.status === 400 && action.actionType === 'place') {
+            // The site's rules (superko, empty pots) are the last word - pass instead
+            console.error(`gtp-bridge: ${reply} was refused (${error.message}), passing`);
+            await post(config, '/action', { actionType: 'pass', stoneColor, expectedMoveNumber });
+            continue;
+          }
+          if (error.status === 409) {
+            console.error(`gtp-bridge: the game moved on before ${reply} landed, catching up`);
+            continue;
+          }
+          // Anything else is reported as a failed genmove and tried again on the next poll
+          console.error(`gtp-bridge: ? ${reply} could not be played: ${error.message}`);
+          await sleep(config.poll);
+          continue;
+        }
+
+        if (reply === 'resign') console.error('gtp-bridge: engine resigned');
+        else sent.push(reply === 'pass' ? `play ${gtpColor(stoneColor)} pass` : `play ${gtpColor(stoneColor)} ${reply.toUpperCase()}`);
+        continue; // Look again straight away; a bot seat or quick opponent may already have answered
+      }
+    } catch (error) {
+      console.error(`gtp-bridge: ${error.message}`);
+    }
+
+    await sleep(config.poll);
+  }
+}
+
+main();
@@ -18,6 +18,7 @@ export const ALL_ERRORS = {
     { id: 'normal_no_white_stones', message: 'No white stones in pot' },
     { id: 'normal_suicide_not_allowed', message: 'Cannot place stone with no liberties unless it captures' },
     { id: 'normal_ko_violation', message: 'Ko rule violation - cannot recapture immediately' },
+    { id: 'normal_superko_violation', message: 'Superko violation - this position has already occurred' },
     { id: 'normal_no_stone_at_position', message: 'No stone at position' },
     { id: 'normal_invalid_from_position', message: 'Invalid from position' },
     { id: 'normal_invalid_to_position', message: 'Invalid to position' },
@@ -29,6 +30,9 @@ export const ALL_ERRORS = {
     { id: 'normal_move_suicide', message: 'Cannot move stone to position with no liberties unless it captures' },
     { id: 'normal_invalid_action', message: 'Invalid action type' },
     { id: 'normal_no_moves_undo', message: 'No moves to undo' },
+    { id: 'normal_game_over', message: 'Game is over' },
+    { id: 'normal_scoring_in_progress', message: 'Game is being scored' },
+    { id: 'normal_not_scoring', message: 'Game is not being scored' },
   ],
   crazy: [
     { id: 'crazy_private_key_required', message: 'Private key is required' },
@@ -43,6 +47,7 @@ export const ALL_ERRORS = {
     { id: 'crazy_no_stones_in_pot', message: 'No stones of this color in pot' },
     { id: 'crazy_suicide_not_allowed', message: 'Suicide move not allowed' },
     { id: 'crazy_ko_violation', message: 'Ko rule violation' },
+    { id: 'crazy_superko_violation', message: 'Superko violation - this position has already occurred' },
     { id: 'crazy_no_stone_at_position', message: 'No stone at position' },
     { id: 'crazy_invalid_from_position', message: 'Invalid from position' },
     { id: 'crazy_invalid_to_position', message: 'Invalid to position' },
@@ -69,6 +74,7 @@ export const ALL_ERRORS = {
     { id: 'wilde_no_stones_in_pot', message: 'No stones of this color in pot' },
     { id: 'wilde_suicide_not_allowed', message: 'Suicide move not allowed' },
     { id: 'wilde_ko_violation', message: 'Ko rule violation' },
+    { id: 'wilde_superko_violation', message: 'Superko violation - this position has already occurred' },
     { id: 'wilde_no_stone_at_position', message: 'No stone at position' },
     { id: 'wilde_invalid_from_position', message: 'Invalid from position' },
     { id: 'wilde_invalid_to_position', message: 'Invalid to position' },
@@ -90,6 +96,9 @@ export const ALL_ERRORS = {
     { id: 'zen_position_out_of_bounds', message: 'Position out of bounds' },
     { id: 'zen_position_occupied', message: 'Position is occupied' },
     { id: 'zen_no_stones_in_pot', message: 'No stones in pot' },
+    { id: 'zen_suicide_not_allowed', message: 'Suicide move not allowed' },
+    { id: 'zen_ko_violation', message: 'Ko rule violation' },
+    { id: 'zen_superko_violation', message: 'Superko violation - this position has already occurred' },
     { id: 'zen_no_stone_at_position', message: 'No stone at position' },
     { id: 'zen_invalid_from_position', message: 'Invalid from position' },
     { id: 'zen_invalid_to_position', message: 'Invalid to position' },
@@ -98,6 +107,7 @@ export const ALL_ERRORS = {
     { id: 'zen_same_position', message: 'Cannot move to same position' },
     { id: 'zen_no_stone_from', message: 'No stone at from position' },
     { id: 'zen_to_occupied', message: 'To position is occupied' },
+    { id: 'zen_invalid_action', message: 'Invalid action type' },
     { id: 'zen_no_moves_undo', message: 'No moves to undo' },
   ],
   bang: [
@@ -111,6 +121,9 @@ export const ALL_ERRORS = {
     { id: 'bang_position_occupied', message: 'Position is occupied' },
     { id: 'bang_no_black_stones', message: 'No black stones in pot' },
     { id: 'bang_no_white_stones', message: 'No white stones in pot' },
+    { id: 'bang_suicide_not_allowed', message: 'Suicide move not allowed' },
+    { id: 'bang_ko_violation', message: 'Ko rule violation' },
+    { id: 'bang_superko_violation', message: 'Superko violation - this position has already occurred' },
     { id: 'bang_no_stone_at_position', message: 'No stone at position' },
     { id: 'bang_invalid_from_position', message: 'Invalid from position' },
     { id: 'bang_invalid_to_position', message: 'Invalid to position' },
@@ -120,6 +133,9 @@ export const ALL_ERRORS = {
     { id: 'bang_to_occupied', message: 'To position is occupied' },
     { id: 'bang_invalid_action', message: 'Invalid action type' },
     { id: 'bang_no_moves_undo', message: 'No moves to undo' },
+    { id: 'bang_game_over', message: 'Game is over' },
+    { id: 'bang_scoring_in_progress', message: 'Game is being scored' },
+    { id: 'bang_not_scoring', message: 'Game is not being scored' },
   ],
 };
 
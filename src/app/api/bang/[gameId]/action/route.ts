@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { bangGames, bangActions } from '@/lib/db/schema';
-import type { MinePosition, ExplosionInfo, CapturedStoneInfo, DroneStrikeInfo } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import type { MinePosition, ExplosionInfo, DroneStrikeInfo } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
-import type { Board, Stone } from '@/lib/game/logic';
-import { detectAndRemoveCaptures, wouldBeSuicide } from '@/lib/game/logic';
+import type { Board } from '@/lib/game/logic';
+import { errorResponse, resolveAction, ERROR_IDS } from '@/lib/errors';
 import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
+import { findEvent, removedStones } from '@/lib/game/engine';
+import { hashPosition } from '@/lib/game/zobrist';
+import { bangRules, bangState, bangColumns, mineDetonator } from '@/lib/game/variants';
+import { PASSES_TO_END, resignationResult, type GameStatus } from '@/lib/game/result';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // Drone strike chance (10% per move)
 const DRONE_STRIKE_CHANCE = 0.10;
@@ -40,40 +47,8 @@ function getDroneStartPosition(targetX: number, targetY: number, boardSize: numb
   }
 }
 
-// Check if a position has a mine
-function hasMine(mines: MinePosition[], x: number, y: number): boolean {
-  return mines.some(m => m.x === x && m.y === y);
-}
-
-// Get all stones in explosion radius (the placed stone + all adjacent stones)
-function getExplosionTargets(board: Board, x: number, y: number, boardSize: number): CapturedStoneInfo[] {
-  const targets: CapturedStoneInfo[] = [];
-  const directions = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],          [0, 1],
-    [1, -1],  [1, 0], [1, 1]
-  ];
-
-  // Include the trigger stone itself if it exists
-  if (board[y][x] !== null) {
-    targets.push({ x, y, color: board[y][x] as number });
-  }
-
-  // Include all adjacent stones
-  for (const [dx, dy] of directions) {
-    const nx = x + dx;
-    const ny = y + dy;
-    if (nx >= 0 && nx < boardSize && ny >= 0 && ny < boardSize) {
-      if (board[ny][nx] !== null) {
-        targets.push({ x: nx, y: ny, color: board[ny][nx] as number });
-      }
-    }
-  }
-
-  return targets;
-}
-
 // POST /api/bang/[gameId]/action - Perform an action with mine detection
+// pass and resign take the stoneColor of the player doing it; a pass uses up that player's turn
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
@@ -94,12 +69,15 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { privateKey, actionType, stoneColor, fromX, fromY, toX, toY } = body;
+    const { privateKey, actionType, fromX, fromY, toX, toY } = body;
 
     if (!privateKey) {
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     // Get the game
     const game = await db
       .select()
@@ -117,209 +95,125 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
-    const boardState = game[0].boardState as Board;
-    const boardSize = game[0].boardSize;
-    const minePositions = game[0].minePositions as MinePosition[];
-    let newMinePositions = [...minePositions]; // Mutable copy of mines
-    let newBoardState = boardState.map(row => [...row]);
-    let newBlackPotCount = game[0].blackPotCount;
-    let newWhitePotCount = game[0].whitePotCount;
-    let newBlackCaptured = game[0].blackCaptured;
-    let newWhiteCaptured = game[0].whiteCaptured;
-    let newBlackOnBoard = game[0].blackOnBoard;
-    let newWhiteOnBoard = game[0].whiteOnBoard;
-    let newBlackExploded = game[0].blackExploded;
-    let newWhiteExploded = game[0].whiteExploded;
-    let newLastMoveX: number | null = game[0].lastMoveX;
-    let newLastMoveY: number | null = game[0].lastMoveY;
-    let newLastExplosionX: number | null = null;
-    let newLastExplosionY: number | null = null;
-    let newKoPointX: number | null = null;
-    let newKoPointY: number | null = null;
-    let explosion: ExplosionInfo | null = null;
-    let newCurrentTurn = game[0].currentTurn;
-    const moveNumber = game[0].moveNumber + 1;
+    // A move made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
 
-    switch (actionType) {
-      case 'place': {
-        if (typeof stoneColor !== 'number' || ![0, 1].includes(stoneColor)) {
-          return NextResponse.json({ error: 'Invalid stone color' }, { status: 400 });
-        }
-        // Enforce turn order - must play your color
-        if (stoneColor !== game[0].currentTurn) {
-          return NextResponse.json({ error: `It's ${game[0].currentTurn === 0 ? 'Black' : 'White'}'s turn` }, { status: 400 });
-        }
-        if (typeof toX !== 'number' || typeof toY !== 'number') {
-          return NextResponse.json({ error: 'Invalid position' }, { status: 400 });
-        }
-        if (toX < 0 || toX >= boardSize || toY < 0 || toY >= boardSize) {
-          return NextResponse.json({ error: 'Position out of bounds' }, { status: 400 });
-        }
-        if (newBoardState[toY][toX] !== null) {
-          return NextResponse.json({ error: 'Position is occupied' }, { status: 400 });
-        }
+    if (game[0].status === 'finished') {
+      const err = await errorResponse(ERROR_IDS.BANG_GAME_OVER, 'Game is over', 400);
+      if (err) return err;
+      return NextResponse.json({ error: 'Game is over' }, { status: 400 });
+    }
 
-        // Check pot has stones
-        if (stoneColor === 0 && newBlackPotCount <= 0) {
-          return NextResponse.json({ error: 'No black stones in pot' }, { status: 400 });
-        }
-        if (stoneColor === 1 && newWhitePotCount <= 0) {
-          return NextResponse.json({ error: 'No white stones in pot' }, { status: 400 });
-        }
+    if (game[0].status === 'scoring' && actionType !== 'resign') {
+      const err = await errorResponse(ERROR_IDS.BANG_SCORING_IN_PROGRESS, 'Game is being scored', 400);
+      if (err) return err;
+      return NextResponse.json({ error: 'Game is being scored' }, { status: 400 });
+    }
 
-        // Place the stone first
-        newBoardState[toY][toX] = stoneColor as Stone;
-        if (stoneColor === 0) {
-          newBlackPotCount--;
-          newBlackOnBoard++;
-        } else {
-          newWhitePotCount--;
-          newWhiteOnBoard++;
-        }
-        newLastMoveX = toX;
-        newLastMoveY = toY;
-
-        // Check for MINE! BOOM!
-        if (hasMine(minePositions, toX, toY)) {
-          const targets = getExplosionTargets(newBoardState, toX, toY, boardSize);
-
-          explosion = {
-            triggerX: toX,
-            triggerY: toY,
-            triggerColor: stoneColor,
-            destroyedStones: targets,
-          };
-
-          // Remove all exploded stones
-          for (const target of targets) {
-            newBoardState[target.y][target.x] = null;
-            if (target.color === 0) {
-              newBlackOnBoard--;
-              newBlackExploded++;
-            } else {
-              newWhiteOnBoard--;
-              newWhiteExploded++;
-            }
-          }
-
-          // Remove the exploded mine from the list
-          newMinePositions = newMinePositions.filter(m => !(m.x === toX && m.y === toY));
-
-          newLastExplosionX = toX;
-          newLastExplosionY = toY;
-        }
-        // Switch turn after placing a stone
-        newCurrentTurn = newCurrentTurn === 0 ? 1 : 0;
-        break;
+    if (actionType === 'pass' || actionType === 'resign') {
+      const { stoneColor } = body;
+      if (stoneColor !== 0 && stoneColor !== 1) {
+        const err = await errorResponse(ERROR_IDS.BANG_INVALID_STONE_COLOR, 'Invalid stone color', 400);
+        if (err) return err;
+        return NextResponse.json({ error: 'Invalid stone color' }, { status: 400 });
       }
-
-      case 'remove': {
-        if (typeof fromX !== 'number' || typeof fromY !== 'number') {
-          return NextResponse.json({ error: 'Invalid position' }, { status: 400 });
-        }
-        if (fromX < 0 || fromX >= boardSize || fromY < 0 || fromY >= boardSize) {
-          return NextResponse.json({ error: 'Position out of bounds' }, { status: 400 });
-        }
-
-        const stone = newBoardState[fromY][fromX];
-        if (stone === null) {
-          return NextResponse.json({ error: 'No stone at position' }, { status: 400 });
-        }
-
-        newBoardState[fromY][fromX] = null;
-        if (stone === 0) {
-          newBlackPotCount++;
-          newBlackOnBoard--;
-        } else {
-          newWhitePotCount++;
-          newWhiteOnBoard--;
-        }
-        break;
+      if (actionType === 'pass' && stoneColor !== game[0].currentTurn) {
+        const err = await errorResponse(ERROR_IDS.BANG_NOT_YOUR_TURN, 'Not your turn', 400);
+        if (err) return err;
+        return NextResponse.json({ error: 'Not your turn' }, { status: 400 });
       }
 
-      case 'move': {
-        if (typeof fromX !== 'number' || typeof fromY !== 'number') {
-          return NextResponse.json({ error: 'Invalid from position' }, { status: 400 });
-        }
-        if (typeof toX !== 'number' || typeof toY !== 'number') {
-          return NextResponse.json({ error: 'Invalid to position' }, { status: 400 });
-        }
-        if (fromX < 0 || fromX >= boardSize || fromY < 0 || fromY >= boardSize) {
-          return NextResponse.json({ error: 'From position out of bounds' }, { status: 400 });
-        }
-        if (toX < 0 || toX >= boardSize || toY < 0 || toY >= boardSize) {
-          return NextResponse.json({ error: 'To position out of bounds' }, { status: 400 });
-        }
-
-        const stone = newBoardState[fromY][fromX];
-        if (stone === null) {
-          return NextResponse.json({ error: 'No stone at from position' }, { status: 400 });
-        }
-        if (newBoardState[toY][toX] !== null) {
-          return NextResponse.json({ error: 'To position is occupied' }, { status: 400 });
+      let status: GameStatus = game[0].status as GameStatus;
+      let result: string | null = null;
+      let consecutivePasses = game[0].consecutivePasses;
+      let currentTurn = game[0].currentTurn;
+      let koPointX = game[0].koPointX;
+      let koPointY = game[0].koPointY;
+
+      if (actionType === 'resign') {
+        status = 'finished';
+        result = resignationResult(stoneColor);
+      } else {
+        // A pass lifts the ko and hands over the turn; two in a row start scoring
+        consecutivePasses++;
+        currentTurn = 1 - currentTurn;
+        koPointX = null;
+        koPointY = null;
+        if (consecutivePasses >= PASSES_TO_END) {
+          status = 'scoring';
         }
-
-        // Move the stone
-        newBoardState[fromY][fromX] = null;
-        newBoardState[toY][toX] = stone;
-        newLastMoveX = toX;
-        newLastMoveY = toY;
-
-        // Check for MINE at destination!
-        if (hasMine(minePositions, toX, toY)) {
-          const targets = getExplosionTargets(newBoardState, toX, toY, boardSize);
-
-          explosion = {
-            triggerX: toX,
-            triggerY: toY,
-            triggerColor: stone as number,
-            destroyedStones: targets,
-          };
-
-          for (const target of targets) {
-            newBoardState[target.y][target.x] = null;
-            if (target.color === 0) {
-              newBlackOnBoard--;
-              newBlackExploded++;
-            } else {
-              newWhiteOnBoard--;
-              newWhiteExploded++;
-            }
-          }
-
-          // Remove the exploded mine from the list
-          newMinePositions = newMinePositions.filter(m => !(m.x === toX && m.y === toY));
-
-          newLastExplosionX = toX;
-          newLastExplosionY = toY;
-        }
-        break;
       }
 
-      default:
-        return NextResponse.json({ error: 'Invalid action type' }, { status: 400 });
+      const moveNumber = game[0].moveNumber + 1;
+      const updated = await db.update(bangGames).set({
+        status,
+        result,
+        consecutivePasses,
+        currentTurn,
+        koPointX,
+        koPointY,
+        deadStones: [],
+        scoreAcceptedBy: [],
+        moveNumber,
+        updatedAt: new Date(),
+      }).where(and(eq(bangGames.id, gameId), eq(bangGames.moveNumber, game[0].moveNumber)))
+        .returning({ id: bangGames.id });
+      if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
+
+      await db.insert(bangActions).values({
+        id: crypto.randomUUID(),
+        gameId,
+        actionType,
+        stoneColor,
+        moveNumber,
+      });
+
+      return jsonWithUpdate('bang', gameId, 'action', {
+        success: true,
+        status,
+        result,
+        consecutivePasses,
+        currentTurn,
+        koPointX,
+        koPointY,
+        moveNumber,
+      });
     }
 
-    // After place or move (if no explosion), check for normal captures
-    if ((actionType === 'place' || actionType === 'move') && !explosion) {
-      const placedX = toX as number;
-      const placedY = toY as number;
-      const captureResult = detectAndRemoveCaptures(newBoardState, placedX, placedY);
-      newBoardState = captureResult.newBoard;
+    const boardSize = game[0].boardSize;
+    const minePositions = game[0].minePositions as MinePosition[];
+    const moveNumber = game[0].moveNumber + 1;
 
-      if (captureResult.blackCaptured > 0) {
-        newWhiteCaptured += captureResult.blackCaptured;
-        newBlackOnBoard -= captureResult.blackCaptured;
-      }
-      if (captureResult.whiteCaptured > 0) {
-        newBlackCaptured += captureResult.whiteCaptured;
-        newWhiteOnBoard -= captureResult.whiteCaptured;
-      }
+    const resolved = await resolveAction('bang', bangState(game[0]), body, bangRules(mineDetonator(minePositions, boardSize)));
+    if (resolved.response) return resolved.response;
+    const { outcome } = resolved;
+    const { state } = outcome;
+    const newBoardState = state.board as Board;
+    let newMinePositions = minePositions;
+    let newBlackOnBoard = state.onBoard[0];
+    let newWhiteOnBoard = state.onBoard[1];
+    let newBlackExploded = game[0].blackExploded;
+    let newWhiteExploded = game[0].whiteExploded;
+    let newLastExplosionX: number | null = null;
+    let newLastExplosionY: number | null = null;
+    let explosion: ExplosionInfo | null = null;
 
-      if (captureResult.koPoint) {
-        newKoPointX = captureResult.koPoint.x;
-        newKoPointY = captureResult.koPoint.y;
+    // MINE! BOOM! The engine already cleared the blast, record it and spend the mine
+    const blast = findEvent(outcome.events, 'explosion');
+    if (blast) {
+      explosion = {
+        triggerX: blast.trigger.x,
+        triggerY: blast.trigger.y,
+        triggerColor: blast.trigger.color,
+        destroyedStones: blast.destroyedStones,
+      };
+      for (const target of blast.destroyedStones) {
+        if (target.color === 0) newBlackExploded++;
+        else newWhiteExploded++;
       }
+      newMinePositions = minePositions.filter(m => !(m.x === blast.trigger.x && m.y === blast.trigger.y));
+      newLastExplosionX = blast.trigger.x;
+      newLastExplosionY = blast.trigger.y;
     }
 
     // Drone strike logic - random chance after each move (only on place/move actions, not during explosions)
@@ -328,6 +222,7 @@ export async function POST(
     let newWhiteDroned = game[0].whiteDroned ?? 0;
     let newLastDroneTargetX: number | null = null;
     let newLastDroneTargetY: number | null = null;
+    let positionHashes = state.positionHashes;
 
     // Check if both players have stones on the board - drones can only strike when both armies are visible
     const blackStonesOnBoard = newBoardState.flat().filter(s => s === 0).length;
@@ -335,8 +230,8 @@ export async function POST(
     const bothPlayersHaveStones = blackStonesOnBoard > 0 && whiteStonesOnBoard > 0;
 
     // Drone targets the current player's stones (enemy drone attacks you when you play)
-    const currentPlayerColor = stoneColor ?? (actionType === 'move' ? (boardState[fromY!][fromX!] as number) : 0);
-    if ((actionType === 'place' || actionType === 'move') && !explosion && bothPlayersHaveStones && Math.random() < DRONE_STRIKE_CHANCE) {
+    const currentPlayerColor = outcome.color ?? 0;
+    if (outcome.actionType !== 'remove' && !explosion && bothPlayersHaveStones && Math.random() < DRONE_STRIKE_CHANCE) {
       const target = getRandomStonePosition(newBoardState, boardSize, currentPlayerColor);
       if (target) {
         const start = getDroneStartPosition(target.x, target.y, boardSize);
@@ -359,71 +254,69 @@ export async function POST(
         }
         newLastDroneTargetX = target.x;
         newLastDroneTargetY = target.y;
+        // Like a removal, a drone strike edits the board - superko history restarts here
+        positionHashes = [hashPosition(newBoardState)];
       }
     }
 
-    // Log the action
-    await db.insert(bangActions).values({
-      id: crypto.randomUUID(),
-      gameId,
-      actionType,
-      stoneColor: stoneColor ?? null,
-      fromX: fromX ?? null,
-      fromY: fromY ?? null,
-      toX: toX ?? null,
-      toY: toY ?? null,
-      moveNumber,
-      explosion,
-      droneStrike,
-    });
-
     // Update the game
-    await db.update(bangGames).set({
+    const columns = {
+      ...bangColumns(state),
       boardState: newBoardState,
-      minePositions: newMinePositions,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
       blackOnBoard: newBlackOnBoard,
       whiteOnBoard: newWhiteOnBoard,
+    };
+    const updated = await db.update(bangGames).set({
+      ...columns,
+      positionHashes,
+      consecutivePasses: 0,
+      minePositions: newMinePositions,
       blackExploded: newBlackExploded,
       whiteExploded: newWhiteExploded,
       blackDroned: newBlackDroned,
       whiteDroned: newWhiteDroned,
-      lastMoveX: newLastMoveX,
-      lastMoveY: newLastMoveY,
       lastExplosionX: newLastExplosionX,
       lastExplosionY: newLastExplosionY,
       lastDroneTargetX: newLastDroneTargetX,
       lastDroneTargetY: newLastDroneTargetY,
-      koPointX: newKoPointX,
-      koPointY: newKoPointY,
-      currentTurn: newCurrentTurn,
       moveNumber,
       updatedAt: new Date(),
-    }).where(eq(bangGames.id, gameId));
+    }).where(and(eq(bangGames.id, gameId), eq(bangGames.moveNumber, game[0].moveNumber)))
+      .returning({ id: bangGames.id });
+    // Nothing is logged unless the board was written over the position it was computed from
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
 
-    return NextResponse.json({
+    // Log the action
+    await db.insert(bangActions).values({
+      id: crypto.randomUUID(),
+      gameId,
+      actionType,
+      stoneColor: outcome.color,
+      fromX: fromX ?? null,
+      fromY: fromY ?? null,
+      toX: toX ?? null,
+      toY: toY ?? null,
+      moveNumber,
+      capturedStones: removedStones(outcome.events.filter(e => e.type === 'capture')),
+      koPointX: state.koPoint?.x ?? null,
+      koPointY: state.koPoint?.y ?? null,
+      explosion,
+      droneStrike,
+    });
+
+    return jsonWithUpdate('bang', gameId, 'action', {
       success: true,
-      boardState: newBoardState,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      blackOnBoard: newBlackOnBoard,
-      whiteOnBoard: newWhiteOnBoard,
+      ...columns,
+      consecutivePasses: 0,
+      moveNumber,
       blackExploded: newBlackExploded,
       whiteExploded: newWhiteExploded,
       blackDroned: newBlackDroned,
       whiteDroned: newWhiteDroned,
-      lastMoveX: newLastMoveX,
-      lastMoveY: newLastMoveY,
       lastExplosionX: newLastExplosionX,
       lastExplosionY: newLastExplosionY,
       lastDroneTargetX: newLastDroneTargetX,
       lastDroneTargetY: newLastDroneTargetY,
-      currentTurn: newCurrentTurn,
       explosion: explosion ? true : false,
       droneStrike: droneStrike,
     });
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { gameArchiveRoute } from '@/lib/archives';
+
+// GET /api/bang/[gameId]/archive - Download the Go Bang game and its full action log as a JSON archive
+// Query: key (required - the archive includes the mines)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return gameArchiveRoute('bang', request, gameId);
+}
@@ -2,16 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { bangGames, bangActions } from '@/lib/db/schema';
 import type { MinePosition } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
 import { createEmptyBoard } from '@/lib/game/logic';
-
-// Standard stone counts based on board size
-function getStoneCount(boardSize: number): { black: number; white: number } {
-  if (boardSize === 9) return { black: 41, white: 40 };
-  if (boardSize === 13) return { black: 85, white: 84 };
-  return { black: 181, white: 180 };
-}
+import { getClassicStoneCount } from '@/lib/game/variants';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // Generate new random mines
 function generateMines(boardSize: number): MinePosition[] {
@@ -48,6 +45,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(bangGames)
@@ -63,16 +63,17 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
+    // A clear made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
+
     const boardSize = game[0].boardSize;
     const emptyBoard = createEmptyBoard(boardSize);
-    const stoneCounts = getStoneCount(boardSize);
+    const stoneCounts = getClassicStoneCount(boardSize);
     const newMines = generateMines(boardSize);
-
-    // Delete all action history
-    await db.delete(bangActions).where(eq(bangActions.gameId, gameId));
+    const moveNumber = game[0].moveNumber + 1;
 
     // Reset the game with new mines
-    await db.update(bangGames).set({
+    const updated = await db.update(bangGames).set({
       boardState: emptyBoard,
       minePositions: newMines,
       blackPotCount: stoneCounts.black,
@@ -93,12 +94,23 @@ export async function POST(
       lastDroneTargetY: null,
       koPointX: null,
       koPointY: null,
+      positionHashes: [],
       currentTurn: 0,
-      moveNumber: 0,
+      moveNumber,
+      status: 'playing',
+      result: null,
+      consecutivePasses: 0,
+      deadStones: [],
+      scoreAcceptedBy: [],
       updatedAt: new Date(),
-    }).where(eq(bangGames.id, gameId));
+    }).where(and(eq(bangGames.id, gameId), eq(bangGames.moveNumber, game[0].moveNumber)))
+      .returning({ id: bangGames.id });
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
+
+    // Delete all action history
+    await db.delete(bangActions).where(eq(bangActions.gameId, gameId));
 
-    return NextResponse.json({
+    return jsonWithUpdate('bang', gameId, 'clear', {
       success: true,
       boardState: emptyBoard,
       blackPotCount: stoneCounts.black,
@@ -120,6 +132,10 @@ export async function POST(
       koPointX: null,
       koPointY: null,
       currentTurn: 0,
+      status: 'playing',
+      result: null,
+      consecutivePasses: 0,
+      moveNumber,
     });
   } catch (error) {
     console.error('Error clearing bang game:', error);
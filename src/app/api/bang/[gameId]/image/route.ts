@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { boardImageRoute } from '@/lib/boardImages';
+
+// GET /api/bang/[gameId]/image - Render the Go Bang game at a move as PNG or SVG
+// Query: move (default: current), format (png|svg), size, coordinates, lastMove
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return boardImageRoute('bang', request, gameId);
+}
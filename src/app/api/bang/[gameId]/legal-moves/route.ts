@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { bangGames } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { waivedRules } from '@/lib/errors';
+import { legalPlacements, toBitmap } from '@/lib/game/engine';
+import { bangState, CLASSIC_RULES } from '@/lib/game/variants';
+
+// GET /api/bang/[gameId]/legal-moves?color=N - Bitmap of the points where colour N may place
+// Each row is a string of '0'/'1', so bitmap[y][x] === '1' marks a legal point
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+    const colorParam = request.nextUrl.searchParams.get('color') ?? '';
+    const color = /^\d+$/.test(colorParam) ? Number(colorParam) : NaN;
+
+    if (!Number.isInteger(color) || color < 0 || color >= CLASSIC_RULES.colorCount) {
+      return NextResponse.json({ error: 'Invalid stone color' }, { status: 400 });
+    }
+
+    const game = await db
+      .select()
+      .from(bangGames)
+      .where(eq(bangGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const state = bangState(game[0]);
+    const waived = await waivedRules('bang', ['suicide_not_allowed', 'ko_violation'], color);
+
+    return NextResponse.json({
+      color,
+      width: state.width,
+      height: state.height,
+      bitmap: toBitmap(legalPlacements(state, color, waived)),
+    });
+  } catch (error) {
+    console.error('Error computing legal moves:', error);
+    return NextResponse.json({ error: 'Failed to compute legal moves' }, { status: 500 });
+  }
+}
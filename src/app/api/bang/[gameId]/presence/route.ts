@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { presenceRoute } from '@/lib/presence';
+
+// POST /api/bang/[gameId]/presence - Heartbeat from a tab with the Go Bang game open
+// Body: { clientId, privateKey?, color?, leave? } - the key makes the tab a player, color is the one it plays
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return presenceRoute('bang', request, gameId);
+}
@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { bangGames } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { conditionalGameGet, withGameETag } from '@/lib/gameVersions';
+import { connectedUsers } from '@/lib/presence';
 
 // GET /api/bang/[gameId] - Get game state (mines are hidden!)
+// Query: waitFor=<moveNumber>&timeout=<seconds> holds the request until the game changes
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
@@ -11,18 +14,16 @@ export async function GET(
   try {
     const { gameId } = await params;
 
-    const game = await db
+    const read = await conditionalGameGet('bang', request, gameId, () => db
       .select()
       .from(bangGames)
       .where(eq(bangGames.id, gameId))
-      .limit(1);
-
-    if (game.length === 0) {
-      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
-    }
+      .limit(1));
+    if (read instanceof NextResponse) return read;
+    const { game, presence } = read;
 
     // Return board state (DON'T include minePositions - they're secret!)
-    return NextResponse.json({
+    return withGameETag(NextResponse.json({
       id: game[0].id,
       boardSize: game[0].boardSize,
       boardState: game[0].boardState,
@@ -44,12 +45,21 @@ export async function GET(
       lastDroneTargetY: game[0].lastDroneTargetY,
       koPointX: game[0].koPointX,
       koPointY: game[0].koPointY,
+      superko: game[0].superko,
+      ruleset: game[0].ruleset,
+      komi: game[0].komi,
       currentTurn: game[0].currentTurn,
       moveNumber: game[0].moveNumber,
-      connectedUsers: game[0].connectedUsers,
+      status: game[0].status,
+      result: game[0].result,
+      consecutivePasses: game[0].consecutivePasses,
+      deadStones: game[0].deadStones,
+      scoreAcceptedBy: game[0].scoreAcceptedBy,
+      connectedUsers: connectedUsers(presence),
+      presence,
       publicKey: game[0].publicKey,
       updatedAt: game[0].updatedAt,
-    });
+    }), game[0], presence);
   } catch (error) {
     console.error('Error fetching bang game:', error);
     return NextResponse.json(
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { bangGames } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { verifyKeyPair } from '@/lib/crypto/keys';
+import { classicScore } from '@/lib/game/result';
+import { applyScoringAction } from '@/lib/game/scoring';
+import { rulesetFrom } from '@/lib/game/rulesets';
+import { errorResponse, ERROR_IDS } from '@/lib/errors';
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
+import type { BangGame } from '@/lib/db/schema';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
+
+function scoreOf(game: BangGame) {
+  return classicScore(
+    game.boardState,
+    game.deadStones,
+    [game.blackCaptured, game.whiteCaptured],
+    rulesetFrom(game.ruleset),
+    game.komi
+  );
+}
+
+// GET /api/bang/[gameId]/score - Score breakdown (territory, prisoners, stones, komi) under the game's ruleset,
+// with the dead stones marked so far
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(bangGames)
+      .where(eq(bangGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      status: game[0].status,
+      result: game[0].result,
+      deadStones: game[0].deadStones,
+      scoreAcceptedBy: game[0].scoreAcceptedBy,
+      score: scoreOf(game[0]),
+    });
+  } catch (error) {
+    console.error('Error scoring game:', error);
+    return NextResponse.json(
+      { error: 'Failed to score game' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/bang/[gameId]/score - Scoring phase actions
+// Actions: toggle_dead (x, y), accept (stoneColor of the accepting player), resume (back to play)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    // Rate limiting
+    const clientIP = getClientIP(request);
+    const rateLimitKey = `bang:score:${gameId}:${clientIP}`;
+    const rateLimitResult = checkRateLimit(rateLimitKey, RATE_LIMITS.gameAction);
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please slow down.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': String(rateLimitResult.resetTime),
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { privateKey } = body;
+
+    if (!privateKey) {
+      const err = await errorResponse(ERROR_IDS.BANG_PRIVATE_KEY_REQUIRED, 'Private key is required', 400);
+      if (err) return err;
+      return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
+    }
+
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
+    const game = await db
+      .select()
+      .from(bangGames)
+      .where(eq(bangGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      const err = await errorResponse(ERROR_IDS.BANG_GAME_NOT_FOUND, 'Game not found', 404);
+      if (err) return err;
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const isValid = await verifyKeyPair(game[0].publicKey, privateKey);
+    if (!isValid) {
+      const err = await errorResponse(ERROR_IDS.BANG_INVALID_PRIVATE_KEY, 'Invalid private key', 401);
+      if (err) return err;
+      return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
+    }
+
+    // A marking made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
+
+    if (game[0].status !== 'scoring') {
+      const err = await errorResponse(ERROR_IDS.BANG_NOT_SCORING, 'Game is not being scored', 400);
+      if (err) return err;
+      return NextResponse.json({ error: 'Game is not being scored' }, { status: 400 });
+    }
+
+    const outcome = applyScoringAction(
+      game[0].boardState,
+      { deadStones: game[0].deadStones, acceptedBy: game[0].scoreAcceptedBy },
+      body,
+      2
+    );
+    if (!outcome.ok) {
+      return NextResponse.json({ error: outcome.error }, { status: 400 });
+    }
+
+    const updated = { ...game[0], deadStones: outcome.phase.deadStones };
+    const score = scoreOf(updated);
+    const { status } = outcome;
+    const result = status === 'finished' ? score.result : null;
+
+    const moveNumber = game[0].moveNumber + 1;
+    const written = await db.update(bangGames).set({
+      status,
+      result,
+      deadStones: outcome.phase.deadStones,
+      scoreAcceptedBy: outcome.phase.acceptedBy,
+      // Resuming needs two fresh passes to get back here
+      ...(status === 'playing' ? { consecutivePasses: 0 } : {}),
+      moveNumber,
+      updatedAt: new Date(),
+    }).where(and(eq(bangGames.id, gameId), eq(bangGames.moveNumber, game[0].moveNumber)))
+      .returning({ id: bangGames.id });
+    if (written.length === 0) return moveConflict(await getGame(request, { params }), body);
+
+    return jsonWithUpdate('bang', gameId, 'score', {
+      success: true,
+      status,
+      result,
+      deadStones: outcome.phase.deadStones,
+      scoreAcceptedBy: outcome.phase.acceptedBy,
+      score,
+      moveNumber,
+    });
+  } catch (error) {
+    console.error('Error updating score:', error);
+    return NextResponse.json(
+      { error: 'Failed to update score' },
+      { status: 500 }
+    );
+  }
+}
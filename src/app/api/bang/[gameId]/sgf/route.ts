@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { bangGames, bangActions } from '@/lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { rulesetFrom } from '@/lib/game/rulesets';
+import { bangSgf } from '@/lib/game/sgf';
+
+// GET /api/bang/[gameId]/sgf - Download the game record as an FF[4] SGF file
+// Mines only show up once they have gone off, so the file never gives away the minefield
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(bangGames)
+      .where(eq(bangGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const gameActions = await db
+      .select()
+      .from(bangActions)
+      .where(eq(bangActions.gameId, gameId))
+      .orderBy(asc(bangActions.moveNumber));
+
+    const sgf = bangSgf({
+      boardSize: game[0].boardSize,
+      komi: game[0].komi,
+      ruleset: rulesetFrom(game[0].ruleset),
+      result: game[0].result,
+      createdAt: game[0].createdAt,
+    }, gameActions);
+
+    return new NextResponse(sgf, {
+      headers: {
+        'Content-Type': 'application/x-go-sgf; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${gameId}.sgf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting Go Bang SGF:', error);
+    return NextResponse.json(
+      { error: 'Failed to export game' },
+      { status: 500 }
+    );
+  }
+}
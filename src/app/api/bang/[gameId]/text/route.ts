@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { textActionRoute, textBoardRoute } from '@/lib/textBoards';
+import { POST as postAction } from '../action/route';
+
+// GET /api/bang/[gameId]/text - The Go Bang game as a plain-text board with coordinates, last move, ko and pots
+// Query: symbols (ascii|unicode)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return textBoardRoute('bang', request, gameId);
+}
+
+// POST /api/bang/[gameId]/text - Play a typed command and get the board back as text
+// Commands: [colour] D4, move D4 E5, remove D4, [colour] pass, [colour] resign
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return textActionRoute('bang', request, gameId, action => postAction(action, { params: Promise.resolve({ gameId }) }));
+}
@@ -2,10 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { bangGames, bangActions } from '@/lib/db/schema';
 import type { MinePosition, ExplosionInfo, DroneStrikeInfo } from '@/lib/db/schema';
-import { eq, asc } from 'drizzle-orm';
+import { and, eq, asc } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
-import type { Board, Stone } from '@/lib/game/logic';
-import { detectAndRemoveCaptures } from '@/lib/game/logic';
+import { replayAction } from '@/lib/game/engine';
+import { hashPosition } from '@/lib/game/zobrist';
+import { bangRules, initialBangState, bangColumns } from '@/lib/game/variants';
+import { PASSES_TO_END, type GameStatus } from '@/lib/game/result';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/bang/[gameId]/undo - Undo the last move
 export async function POST(
@@ -21,6 +26,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(bangGames)
@@ -36,6 +44,9 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
+    // An undo made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
+
     // Get all actions for this game
     const allActions = await db
       .select()
@@ -51,249 +62,112 @@ export async function POST(
     const lastAction = allActions[allActions.length - 1];
     const actionsWithoutLast = allActions.slice(0, -1);
 
-    // Replay all actions except the last one to reconstruct the board
-    const boardSize = game[0].boardSize;
-    const initialMines = game[0].minePositions as MinePosition[];
-
-    // Create empty board
-    let newBoardState: Board = Array(boardSize).fill(null).map(() => Array(boardSize).fill(null));
-
-    // Get initial stone counts
-    const getInitialStones = (size: number) => {
-      if (size === 9) return { black: 41, white: 40 };
-      if (size === 13) return { black: 85, white: 84 };
-      return { black: 181, white: 180 };
-    };
-    const initialStones = getInitialStones(boardSize);
+    // Undoing a blast puts its mine back in the ground
+    const lastExplosion = lastAction.explosion as ExplosionInfo | null;
+    const minePositions = [...(game[0].minePositions as MinePosition[])];
+    if (lastExplosion) {
+      minePositions.push({ x: lastExplosion.triggerX, y: lastExplosion.triggerY });
+    }
 
-    let newBlackPotCount = initialStones.black;
-    let newWhitePotCount = initialStones.white;
-    let newBlackCaptured = 0;
-    let newWhiteCaptured = 0;
-    let newBlackOnBoard = 0;
-    let newWhiteOnBoard = 0;
+    // Replay all actions except the last one, feeding back the recorded explosions
+    // and drone strikes so the random parts of the game come out the same
+    let state = initialBangState(game[0]);
     let newBlackExploded = 0;
     let newWhiteExploded = 0;
     let newBlackDroned = 0;
     let newWhiteDroned = 0;
-    let lastMoveX: number | null = null;
-    let lastMoveY: number | null = null;
     let lastExplosionX: number | null = null;
     let lastExplosionY: number | null = null;
     let lastDroneTargetX: number | null = null;
     let lastDroneTargetY: number | null = null;
-    let koPointX: number | null = null;
-    let koPointY: number | null = null;
-    let currentTurn = 0; // Black starts
-    let minePositions = [...initialMines];
+    let consecutivePasses = 0;
 
-    // Replay each action
+    // As in classic games, undo always reopens a finished game and restarts any dead-stone marking
     for (const action of actionsWithoutLast) {
-      koPointX = null;
-      koPointY = null;
+      if (action.actionType === 'pass') {
+        state = { ...state, koPoint: null, currentTurn: 1 - state.currentTurn };
+        consecutivePasses++;
+        continue;
+      }
+      const explosion = action.explosion as ExplosionInfo | null;
+      const rules = bangRules(() => explosion?.destroyedStones ?? null);
+      const replayed = replayAction(state, action, rules);
+      if (!replayed) continue;
+      state = replayed.state;
+      consecutivePasses = 0;
+
       lastExplosionX = null;
       lastExplosionY = null;
       lastDroneTargetX = null;
       lastDroneTargetY = null;
 
-      switch (action.actionType) {
-        case 'place': {
-          const x = action.toX;
-          const y = action.toY;
-          const stoneColor = action.stoneColor;
-
-          if (x === null || y === null || stoneColor === null) continue;
-
-          newBoardState[y][x] = stoneColor as Stone;
-          if (stoneColor === 0) {
-            newBlackPotCount--;
-            newBlackOnBoard++;
-          } else {
-            newWhitePotCount--;
-            newWhiteOnBoard++;
-          }
-          lastMoveX = x;
-          lastMoveY = y;
-
-          // Check for explosion
-          const explosion = action.explosion as ExplosionInfo | null;
-          if (explosion) {
-            for (const target of explosion.destroyedStones) {
-              newBoardState[target.y][target.x] = null;
-              if (target.color === 0) {
-                newBlackOnBoard--;
-                newBlackExploded++;
-              } else {
-                newWhiteOnBoard--;
-                newWhiteExploded++;
-              }
-            }
-            // Remove exploded mine
-            minePositions = minePositions.filter(m => !(m.x === x && m.y === y));
-            lastExplosionX = x;
-            lastExplosionY = y;
-          } else {
-            // Normal captures
-            const captureResult = detectAndRemoveCaptures(newBoardState, x, y);
-            newBoardState = captureResult.newBoard;
-
-            if (captureResult.blackCaptured > 0) {
-              newWhiteCaptured += captureResult.blackCaptured;
-              newBlackOnBoard -= captureResult.blackCaptured;
-            }
-            if (captureResult.whiteCaptured > 0) {
-              newBlackCaptured += captureResult.whiteCaptured;
-              newWhiteOnBoard -= captureResult.whiteCaptured;
-            }
-            if (captureResult.koPoint) {
-              koPointX = captureResult.koPoint.x;
-              koPointY = captureResult.koPoint.y;
-            }
-          }
-
-          // Drone strike
-          const droneStrike = action.droneStrike as DroneStrikeInfo | null;
-          if (droneStrike) {
-            newBoardState[droneStrike.targetY][droneStrike.targetX] = null;
-            if (droneStrike.targetColor === 0) {
-              newBlackOnBoard--;
-              newBlackDroned++;
-            } else {
-              newWhiteOnBoard--;
-              newWhiteDroned++;
-            }
-            lastDroneTargetX = droneStrike.targetX;
-            lastDroneTargetY = droneStrike.targetY;
-          }
-
-          // Switch turn
-          currentTurn = currentTurn === 0 ? 1 : 0;
-          break;
+      if (explosion) {
+        for (const target of explosion.destroyedStones) {
+          if (target.color === 0) newBlackExploded++;
+          else newWhiteExploded++;
         }
+        lastExplosionX = explosion.triggerX;
+        lastExplosionY = explosion.triggerY;
+      }
 
-        case 'remove': {
-          const x = action.fromX;
-          const y = action.fromY;
-
-          if (x === null || y === null) continue;
-
-          const stone = newBoardState[y][x];
-          newBoardState[y][x] = null;
-
-          if (stone === 0) {
-            newBlackPotCount++;
-            newBlackOnBoard--;
-          } else if (stone === 1) {
-            newWhitePotCount++;
-            newWhiteOnBoard--;
-          }
-          break;
-        }
-
-        case 'move': {
-          const fromX = action.fromX;
-          const fromY = action.fromY;
-          const toX = action.toX;
-          const toY = action.toY;
-
-          if (fromX === null || fromY === null || toX === null || toY === null) continue;
-
-          const stone = newBoardState[fromY][fromX];
-          newBoardState[fromY][fromX] = null;
-          newBoardState[toY][toX] = stone;
-          lastMoveX = toX;
-          lastMoveY = toY;
-
-          // Check for explosion
-          const explosion = action.explosion as ExplosionInfo | null;
-          if (explosion) {
-            for (const target of explosion.destroyedStones) {
-              newBoardState[target.y][target.x] = null;
-              if (target.color === 0) {
-                newBlackOnBoard--;
-                newBlackExploded++;
-              } else {
-                newWhiteOnBoard--;
-                newWhiteExploded++;
-              }
-            }
-            minePositions = minePositions.filter(m => !(m.x === toX && m.y === toY));
-            lastExplosionX = toX;
-            lastExplosionY = toY;
-          } else {
-            const captureResult = detectAndRemoveCaptures(newBoardState, toX, toY);
-            newBoardState = captureResult.newBoard;
-
-            if (captureResult.blackCaptured > 0) {
-              newWhiteCaptured += captureResult.blackCaptured;
-              newBlackOnBoard -= captureResult.blackCaptured;
-            }
-            if (captureResult.whiteCaptured > 0) {
-              newBlackCaptured += captureResult.whiteCaptured;
-              newWhiteOnBoard -= captureResult.whiteCaptured;
-            }
-            if (captureResult.koPoint) {
-              koPointX = captureResult.koPoint.x;
-              koPointY = captureResult.koPoint.y;
-            }
-          }
-          break;
-        }
+      const droneStrike = action.droneStrike as DroneStrikeInfo | null;
+      if (droneStrike && state.board[droneStrike.targetY]?.[droneStrike.targetX] !== null) {
+        state.board[droneStrike.targetY][droneStrike.targetX] = null;
+        state.onBoard[droneStrike.targetColor]--;
+        if (droneStrike.targetColor === 0) newBlackDroned++;
+        else newWhiteDroned++;
+        lastDroneTargetX = droneStrike.targetX;
+        lastDroneTargetY = droneStrike.targetY;
+        state.positionHashes = [hashPosition(state.board)];
       }
     }
 
-    // Delete the last action
-    await db.delete(bangActions).where(eq(bangActions.id, lastAction.id));
+    const columns = bangColumns(state);
+    const status: GameStatus = consecutivePasses >= PASSES_TO_END ? 'scoring' : 'playing';
+    const moveNumber = game[0].moveNumber + 1;
 
     // Update the game
-    await db.update(bangGames).set({
-      boardState: newBoardState,
-      minePositions: minePositions,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      blackOnBoard: newBlackOnBoard,
-      whiteOnBoard: newWhiteOnBoard,
+    const updated = await db.update(bangGames).set({
+      ...columns,
+      positionHashes: state.positionHashes,
+      minePositions,
       blackExploded: newBlackExploded,
       whiteExploded: newWhiteExploded,
       blackDroned: newBlackDroned,
       whiteDroned: newWhiteDroned,
-      lastMoveX,
-      lastMoveY,
       lastExplosionX,
       lastExplosionY,
       lastDroneTargetX,
       lastDroneTargetY,
-      koPointX,
-      koPointY,
-      currentTurn,
-      moveNumber: actionsWithoutLast.length,
+      status,
+      result: null,
+      consecutivePasses,
+      deadStones: [],
+      scoreAcceptedBy: [],
+      moveNumber,
       updatedAt: new Date(),
-    }).where(eq(bangGames.id, gameId));
+    }).where(and(eq(bangGames.id, gameId), eq(bangGames.moveNumber, game[0].moveNumber)))
+      .returning({ id: bangGames.id });
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
+
+    // Delete the last action
+    await db.delete(bangActions).where(eq(bangActions.id, lastAction.id));
 
-    return NextResponse.json({
+    return jsonWithUpdate('bang', gameId, 'undo', {
       success: true,
-      boardState: newBoardState,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      blackOnBoard: newBlackOnBoard,
-      whiteOnBoard: newWhiteOnBoard,
+      ...columns,
       blackExploded: newBlackExploded,
       whiteExploded: newWhiteExploded,
       blackDroned: newBlackDroned,
       whiteDroned: newWhiteDroned,
-      lastMoveX,
-      lastMoveY,
       lastExplosionX,
       lastExplosionY,
       lastDroneTargetX,
       lastDroneTargetY,
-      koPointX,
-      koPointY,
-      currentTurn,
+      status,
+      result: null,
+      consecutivePasses,
+      moveNumber,
     });
   } catch (error) {
     console.error('Error undoing action:', error);
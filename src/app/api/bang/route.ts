@@ -3,14 +3,12 @@ import { db } from '@/lib/db';
 import { bangGames } from '@/lib/db/schema';
 import { generateKeyPair, generateGameId } from '@/lib/crypto/keys';
 import { createEmptyBoard } from '@/lib/game/logic';
+import { getClassicStoneCount } from '@/lib/game/variants';
 import { lt } from 'drizzle-orm';
 import type { MinePosition } from '@/lib/db/schema';
-
-// Stone counts: each player gets ALL intersections, Black (starter) gets +1
-function getStoneCount(boardSize: number): { black: number; white: number } {
-  const totalIntersections = boardSize * boardSize;
-  return { black: totalIntersections + 1, white: totalIntersections };
-}
+import { isSuperkoRule } from '@/lib/game/zobrist';
+import { defaultKomi, isRuleset, isValidKomi } from '@/lib/game/rulesets';
+import { pruneStalePresence } from '@/lib/presence';
 
 // Generate random mine positions (10% of intersections)
 function generateMines(boardSize: number): MinePosition[] {
@@ -42,9 +40,14 @@ export async function POST(request: NextRequest) {
     db.delete(bangGames).where(lt(bangGames.createdAt, oneYearAgo)).catch((error) => {
       console.error('Background cleanup failed for bang games:', error);
     });
+    pruneStalePresence().catch((error) => {
+      console.error('Background cleanup failed for presence:', error);
+    });
 
     const body = await request.json();
     const boardSize = body.boardSize ?? 19;
+    const superko = body.superko ?? 'positional';
+    const ruleset = body.ruleset ?? 'japanese';
 
     if (typeof boardSize !== 'number' || !Number.isInteger(boardSize)) {
       return NextResponse.json(
@@ -60,13 +63,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate superko rule
+    if (!isSuperkoRule(superko)) {
+      return NextResponse.json(
+        { error: 'Invalid superko rule. Must be positional or situational.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate ruleset and komi (komi defaults to the ruleset's usual value)
+    if (!isRuleset(ruleset)) {
+      return NextResponse.json(
+        { error: 'Invalid ruleset. Must be japanese, chinese, or aga.' },
+        { status: 400 }
+      );
+    }
+
+    const komi = body.komi ?? defaultKomi(ruleset);
+    if (!isValidKomi(komi)) {
+      return NextResponse.json(
+        { error: 'Invalid komi. Must be a whole or half number between -100 and 100.' },
+        { status: 400 }
+      );
+    }
+
     // Generate key pair for authentication
     const keyPair = await generateKeyPair();
     const gameId = await generateGameId(keyPair.publicKey);
 
     // Create empty board and generate mines
     const emptyBoard = createEmptyBoard(boardSize);
-    const stoneCounts = getStoneCount(boardSize);
+    const stoneCounts = getClassicStoneCount(boardSize);
     const minePositions = generateMines(boardSize);
 
     // Insert game into database
@@ -78,6 +105,9 @@ export async function POST(request: NextRequest) {
       minePositions,
       blackPotCount: stoneCounts.black,
       whitePotCount: stoneCounts.white,
+      superko,
+      ruleset,
+      komi,
       connectedUsers: 0,
     });
 
@@ -87,6 +117,9 @@ export async function POST(request: NextRequest) {
       privateKey: keyPair.privateKey,
       boardSize,
       mineCount: minePositions.length,
+      superko,
+      ruleset,
+      komi,
     });
   } catch (error) {
     console.error('Error creating bang game:', error);
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { crazyGames } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { verifyKeyPair } from '@/lib/crypto/keys';
+import { errorResponse, ERROR_IDS } from '@/lib/errors';
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
+import { playBotSeats, validBotSeats } from '@/lib/seatActions';
+import { jsonWithUpdate } from '@/lib/realtime';
+
+// POST /api/crazy/[gameId]/bots - Hand seats to the computer (or take them back) mid-game
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    // Rate limiting
+    const clientIP = getClientIP(request);
+    const rateLimitKey = `crazy:bots:${gameId}:${clientIP}`;
+    const rateLimitResult = checkRateLimit(rateLimitKey, RATE_LIMITS.gameAction);
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please slow down.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': String(rateLimitResult.resetTime),
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { privateKey } = body;
+
+    if (!privateKey) {
+      const err = await errorResponse(ERROR_IDS.CRAZY_PRIVATE_KEY_REQUIRED, 'Private key is required', 400);
+      if (err) return err;
+      return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
+    }
+
+    const game = await db
+      .select()
+      .from(crazyGames)
+      .where(eq(crazyGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      const err = await errorResponse(ERROR_IDS.CRAZY_GAME_NOT_FOUND, 'Game not found', 404);
+      if (err) return err;
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const isValid = await verifyKeyPair(game[0].publicKey, privateKey);
+    if (!isValid) {
+      const err = await errorResponse(ERROR_IDS.CRAZY_INVALID_PRIVATE_KEY, 'Invalid private key', 401);
+      if (err) return err;
+      return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
+    }
+
+    const botSeats = validBotSeats(body.botSeats, 4);
+    if (!botSeats) {
+      return NextResponse.json(
+        { error: 'Invalid bot seats. Must be distinct colours 0-3.' },
+        { status: 400 }
+      );
+    }
+
+    await db.update(crazyGames).set({
+      botSeats,
+      updatedAt: new Date(),
+    }).where(eq(crazyGames.id, gameId));
+
+    // A seat handed over on its own turn plays at once
+    const botMoves = await playBotSeats('crazy', gameId);
+
+    return jsonWithUpdate('crazy', gameId, 'action', { success: true, botSeats, botMoves });
+  } catch (error) {
+    console.error('Error updating bot seats:', error);
+    return NextResponse.json({ error: 'Failed to update bot seats' }, { status: 500 });
+  }
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { crazyGames, crazyActions } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
+import { getCrazyStoneCount } from '@/lib/game/variants';
+import { playBotSeats } from '@/lib/seatActions';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/crazy/[gameId]/clear - Clear the board
 export async function POST(
@@ -18,6 +23,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(crazyGames)
@@ -33,23 +41,18 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
+    // A clear made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
+
     const boardSize = game[0].boardSize;
     const emptyBoard = Array(boardSize).fill(null).map(() => Array(boardSize).fill(null));
 
-    // Calculate initial pot counts based on board size (total intersections)
-    // Black (Player 1) gets the extra stone
-    const getCrazyStones = (size: number) => {
-      if (size === 9) return { black: 21, white: 20, brown: 20, grey: 20 };   // 81 total
-      if (size === 13) return { black: 43, white: 42, brown: 42, grey: 42 }; // 169 total
-      return { black: 91, white: 90, brown: 90, grey: 90 }; // 361 total
-    };
-    const stones = getCrazyStones(boardSize);
-
-    // Delete all actions for this game
-    await db.delete(crazyActions).where(eq(crazyActions.gameId, gameId));
+    // Same pots as a new game: every player gets all intersections, Black +1
+    const stones = getCrazyStoneCount(boardSize);
+    const moveNumber = game[0].moveNumber + 1;
 
     // Reset the board
-    await db.update(crazyGames).set({
+    const updated = await db.update(crazyGames).set({
       boardState: emptyBoard,
       blackPotCount: stones.black,
       whitePotCount: stones.white,
@@ -63,12 +66,21 @@ export async function POST(
       lastMoveY: null,
       koPointX: null,
       koPointY: null,
+      positionHashes: [],
       currentTurn: 0,
-      moveNumber: 0,
+      moveNumber,
       updatedAt: new Date(),
-    }).where(eq(crazyGames.id, gameId));
+    }).where(and(eq(crazyGames.id, gameId), eq(crazyGames.moveNumber, game[0].moveNumber)))
+      .returning({ id: crazyGames.id });
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
+
+    // Delete all actions for this game
+    await db.delete(crazyActions).where(eq(crazyActions.gameId, gameId));
+
+    // A bot in the first seat opens the fresh board
+    const botMoves = await playBotSeats('crazy', gameId);
 
-    return NextResponse.json({
+    return jsonWithUpdate('crazy', gameId, 'clear', {
       success: true,
       boardState: emptyBoard,
       blackPotCount: stones.black,
@@ -84,7 +96,8 @@ export async function POST(
       koPointX: null,
       koPointY: null,
       currentTurn: 0,
-      moveNumber: 0,
+      moveNumber,
+      botMoves,
     });
   } catch (error) {
     console.error('Error clearing board:', error);
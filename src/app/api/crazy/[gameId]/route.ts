@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { crazyGames } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { conditionalGameGet, withGameETag } from '@/lib/gameVersions';
+import { connectedUsers } from '@/lib/presence';
 
 // GET /api/crazy/[gameId] - Get crazy board state
+// Query: waitFor=<moveNumber>&timeout=<seconds> holds the request until the game changes
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
@@ -11,18 +14,16 @@ export async function GET(
   try {
     const { gameId } = await params;
 
-    const game = await db
+    const read = await conditionalGameGet('crazy', request, gameId, () => db
       .select()
       .from(crazyGames)
       .where(eq(crazyGames.id, gameId))
-      .limit(1);
-
-    if (game.length === 0) {
-      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
-    }
+      .limit(1));
+    if (read instanceof NextResponse) return read;
+    const { game, presence } = read;
 
     // Return board state with all 4 colors
-    return NextResponse.json({
+    return withGameETag(NextResponse.json({
       id: game[0].id,
       boardSize: game[0].boardSize,
       boardState: game[0].boardState,
@@ -38,12 +39,16 @@ export async function GET(
       lastMoveY: game[0].lastMoveY,
       koPointX: game[0].koPointX,
       koPointY: game[0].koPointY,
+      superko: game[0].superko,
+      ruleset: game[0].ruleset,
       currentTurn: game[0].currentTurn,
       moveNumber: game[0].moveNumber,
-      connectedUsers: game[0].connectedUsers,
+      botSeats: game[0].botSeats,
+      connectedUsers: connectedUsers(presence),
+      presence,
       publicKey: game[0].publicKey,
       updatedAt: game[0].updatedAt,
-    });
+    }), game[0], presence);
   } catch (error) {
     console.error('Error fetching crazy game:', error);
     return NextResponse.json(
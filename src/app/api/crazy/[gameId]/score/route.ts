@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { crazyGames } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { colorLeaderboard } from '@/lib/game/leaderboard';
+import { rulesetFrom } from '@/lib/game/rulesets';
+
+// GET /api/crazy/[gameId]/score - Standings of the 4 colours under the game's ruleset
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(crazyGames)
+      .where(eq(crazyGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const ruleset = rulesetFrom(game[0].ruleset);
+    const captured = [game[0].blackCaptured, game[0].whiteCaptured, game[0].brownCaptured, game[0].greyCaptured];
+
+    return NextResponse.json({
+      ruleset,
+      leaderboard: colorLeaderboard(game[0].boardState, captured, ruleset),
+    });
+  } catch (error) {
+    console.error('Error scoring crazy game:', error);
+    return NextResponse.json({ error: 'Failed to score game' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { crazyGames, crazyActions } from '@/lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { rulesetFrom } from '@/lib/game/rulesets';
+import { multiColorSgf } from '@/lib/game/sgfDialect';
+import { getCrazyStoneCount } from '@/lib/game/variants';
+import { superkoFrom } from '@/lib/game/zobrist';
+
+// GET /api/crazy/[gameId]/sgf - Download the game record in the multi-colour SGF dialect
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(crazyGames)
+      .where(eq(crazyGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const gameActions = await db
+      .select()
+      .from(crazyActions)
+      .where(eq(crazyActions.gameId, gameId))
+      .orderBy(asc(crazyActions.moveNumber));
+
+    const { boardSize } = game[0];
+    const pots = getCrazyStoneCount(boardSize);
+    const sgf = multiColorSgf({
+      variant: 'crazy',
+      width: boardSize,
+      height: boardSize,
+      playerCount: 4,
+      startingPots: [pots.black, pots.white, pots.brown, pots.grey],
+      superko: superkoFrom(game[0].superko),
+      ruleset: rulesetFrom(game[0].ruleset),
+      createdAt: game[0].createdAt,
+    }, gameActions);
+
+    return new NextResponse(sgf, {
+      headers: {
+        'Content-Type': 'application/x-go-sgf; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${gameId}.sgf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting SGF:', error);
+    return NextResponse.json(
+      { error: 'Failed to export game' },
+      { status: 500 }
+    );
+  }
+}
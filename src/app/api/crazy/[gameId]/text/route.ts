@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+import { textActionRoute, textBoardRoute } from '@/lib/textBoards';
+import { POST as postAction } from '../action/route';
+
+// GET /api/crazy/[gameId]/text - The Crazy Go game as a plain-text board with coordinates, last move, ko and pots
+// Query: symbols (ascii|unicode)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return textBoardRoute('crazy', request, gameId);
+}
+
+// POST /api/crazy/[gameId]/text - Play a typed command and get the board back as text
+// Commands: D4, move D4 E5, remove D4
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return textActionRoute('crazy', request, gameId, action => postAction(action, { params: Promise.resolve({ gameId }) }));
+}
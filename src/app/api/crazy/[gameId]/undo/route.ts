@@ -3,15 +3,13 @@ import { db } from '@/lib/db';
 import { crazyGames, crazyActions } from '@/lib/db/schema';
 import { eq, asc, and } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
-import {
-  createEmptySquareBoard,
-  detectAndRemoveCaptures,
-  type GenericBoard,
-} from '@/lib/game/shared';
+import { replayAction } from '@/lib/game/engine';
+import { CRAZY_RULES, initialCrazyState, crazyColumns } from '@/lib/game/variants';
 import { errorResponse, ERROR_IDS } from '@/lib/errors';
-
-type CrazyStone = 0 | 1 | 2 | 3 | null;
-type CrazyBoard = CrazyStone[][];
+import { jsonWithUpdate } from '@/lib/realtime';
+import { playBotSeats } from '@/lib/seatActions';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/crazy/[gameId]/undo - Undo the last move
 export async function POST(
@@ -29,6 +27,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(crazyGames)
@@ -48,6 +49,9 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
+    // An undo made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
+
     // Get all actions for this game
     const allActions = await db
       .select()
@@ -66,142 +70,23 @@ export async function POST(
     const actionsWithoutLast = allActions.slice(0, -1);
 
     // Replay all actions except the last one to reconstruct the board
-    const boardSize = game[0].boardSize;
-    let newBoardState: GenericBoard = createEmptySquareBoard(boardSize);
-
-    // Calculate initial pot counts based on board size
-    const getCrazyStones = (size: number) => {
-      if (size === 9) return { black: 21, white: 20, brown: 20, grey: 20 };
-      if (size === 13) return { black: 43, white: 42, brown: 42, grey: 42 };
-      return { black: 91, white: 90, brown: 90, grey: 90 };
-    };
-    const stones = getCrazyStones(boardSize);
-
-    let newBlackPotCount = stones.black;
-    let newWhitePotCount = stones.white;
-    let newBrownPotCount = stones.brown;
-    let newGreyPotCount = stones.grey;
-    let newBlackCaptured = 0;
-    let newWhiteCaptured = 0;
-    let newBrownCaptured = 0;
-    let newGreyCaptured = 0;
-    let lastMoveX: number | null = null;
-    let lastMoveY: number | null = null;
-    let koPointX: number | null = null;
-    let koPointY: number | null = null;
-    let currentTurn = 0;
-    let moveNumber = 0;
-
-    // Replay each action
+    let state = initialCrazyState(game[0]);
     for (const action of actionsWithoutLast) {
-      // Reset Ko point before each action
-      koPointX = null;
-      koPointY = null;
-
-      switch (action.actionType) {
-        case 'place': {
-          const x = action.toX;
-          const y = action.toY;
-          const stoneColor = action.stoneColor;
-
-          // Type safety: validate values exist
-          if (x === null || y === null || stoneColor === null) {
-            continue;
-          }
-
-          newBoardState[y][x] = stoneColor;
-          if (stoneColor === 0) newBlackPotCount--;
-          else if (stoneColor === 1) newWhitePotCount--;
-          else if (stoneColor === 2) newBrownPotCount--;
-          else if (stoneColor === 3) newGreyPotCount--;
-
-          lastMoveX = x;
-          lastMoveY = y;
-          currentTurn = (currentTurn + 1) % 4;
-
-          // Apply captures - Japanese scoring: capturing player gets credit
-          const captureResult = detectAndRemoveCaptures(newBoardState, boardSize, boardSize, x, y);
-          newBoardState = captureResult.newBoard;
-
-          // Sum up total captured and credit to placing player
-          let totalCaptured = 0;
-          captureResult.capturedByColor.forEach((count) => {
-            totalCaptured += count;
-          });
-
-          if (totalCaptured > 0) {
-            if (stoneColor === 0) newBlackCaptured += totalCaptured;
-            else if (stoneColor === 1) newWhiteCaptured += totalCaptured;
-            else if (stoneColor === 2) newBrownCaptured += totalCaptured;
-            else if (stoneColor === 3) newGreyCaptured += totalCaptured;
-          }
-
-          // Track Ko point from this action
-          if (captureResult.koPoint) {
-            koPointX = captureResult.koPoint.x;
-            koPointY = captureResult.koPoint.y;
-          }
-          break;
-        }
-
-        case 'remove': {
-          const x = action.fromX;
-          const y = action.fromY;
-
-          if (x === null || y === null) {
-            continue;
-          }
-
-          const stone = newBoardState[y][x];
-          newBoardState[y][x] = null;
-
-          if (stone === 0) newBlackPotCount++;
-          else if (stone === 1) newWhitePotCount++;
-          else if (stone === 2) newBrownPotCount++;
-          else if (stone === 3) newGreyPotCount++;
-          break;
-        }
-
-        case 'move': {
-          const fromX = action.fromX;
-          const fromY = action.fromY;
-          const toX = action.toX;
-          const toY = action.toY;
-
-          if (fromX === null || fromY === null || toX === null || toY === null) {
-            continue;
-          }
-
-          const stone = newBoardState[fromY][fromX];
-          newBoardState[fromY][fromX] = null;
-          newBoardState[toY][toX] = stone;
-
-          // Apply captures after move
-          const captureResult = detectAndRemoveCaptures(newBoardState, boardSize, boardSize, toX, toY);
-          newBoardState = captureResult.newBoard;
-
-          let totalCaptured = 0;
-          captureResult.capturedByColor.forEach((count) => {
-            totalCaptured += count;
-          });
-
-          if (totalCaptured > 0 && stone !== null) {
-            if (stone === 0) newBlackCaptured += totalCaptured;
-            else if (stone === 1) newWhiteCaptured += totalCaptured;
-            else if (stone === 2) newBrownCaptured += totalCaptured;
-            else if (stone === 3) newGreyCaptured += totalCaptured;
-          }
-
-          // Track Ko point from this action
-          if (captureResult.koPoint) {
-            koPointX = captureResult.koPoint.x;
-            koPointY = captureResult.koPoint.y;
-          }
-          break;
-        }
-      }
-      moveNumber++;
+      const replayed = replayAction(state, action, CRAZY_RULES);
+      if (replayed) state = replayed.state;
     }
+    const columns = crazyColumns(state);
+    const moveNumber = game[0].moveNumber + 1;
+
+    // Update the game with properly restored Ko point
+    const updated = await db.update(crazyGames).set({
+      ...columns,
+      positionHashes: state.positionHashes,
+      moveNumber,
+      updatedAt: new Date(),
+    }).where(and(eq(crazyGames.id, gameId), eq(crazyGames.moveNumber, game[0].moveNumber)))
+      .returning({ id: crazyGames.id });
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
 
     // Delete the last action
     await db.delete(crazyActions).where(
@@ -211,43 +96,14 @@ export async function POST(
       )
     );
 
-    // Update the game with properly restored Ko point
-    await db.update(crazyGames).set({
-      boardState: newBoardState as CrazyBoard,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      brownPotCount: newBrownPotCount,
-      greyPotCount: newGreyPotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      brownCaptured: newBrownCaptured,
-      greyCaptured: newGreyCaptured,
-      lastMoveX: lastMoveX,
-      lastMoveY: lastMoveY,
-      koPointX: koPointX, // Now properly restored!
-      koPointY: koPointY,
-      currentTurn: currentTurn,
-      moveNumber: moveNumber,
-      updatedAt: new Date(),
-    }).where(eq(crazyGames.id, gameId));
+    // Taking a move back can hand the turn to a bot seat, which would otherwise never move
+    const botMoves = await playBotSeats('crazy', gameId);
 
-    return NextResponse.json({
+    return jsonWithUpdate('crazy', gameId, 'undo', {
       success: true,
-      boardState: newBoardState,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      brownPotCount: newBrownPotCount,
-      greyPotCount: newGreyPotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      brownCaptured: newBrownCaptured,
-      greyCaptured: newGreyCaptured,
-      lastMoveX: lastMoveX,
-      lastMoveY: lastMoveY,
-      koPointX: koPointX,
-      koPointY: koPointY,
-      currentTurn: currentTurn,
-      moveNumber: moveNumber,
+      ...columns,
+      moveNumber,
+      botMoves,
     });
   } catch (error) {
     console.error('Error undoing action:', error);
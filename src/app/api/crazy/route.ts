@@ -3,18 +3,12 @@ import { db } from '@/lib/db';
 import { crazyGames } from '@/lib/db/schema';
 import { generateKeyPair, generateGameId } from '@/lib/crypto/keys';
 import { createEmptyBoard } from '@/lib/game/logic';
+import { getCrazyStoneCount } from '@/lib/game/variants';
 import { lt } from 'drizzle-orm';
-
-// Stone counts for 4 players: each gets ALL intersections, Black (starter) gets +1
-function getCrazyStoneCount(boardSize: number): { black: number; white: number; brown: number; grey: number } {
-  const totalIntersections = boardSize * boardSize;
-  return {
-    black: totalIntersections + 1,  // Black starts, gets +1
-    white: totalIntersections,
-    brown: totalIntersections,
-    grey: totalIntersections
-  };
-}
+import { isSuperkoRule } from '@/lib/game/zobrist';
+import { isRuleset } from '@/lib/game/rulesets';
+import { playBotSeats, validBotSeats } from '@/lib/seatActions';
+import { pruneStalePresence } from '@/lib/presence';
 
 // POST /api/crazy - Create a new 4-player crazy board
 export async function POST(request: NextRequest) {
@@ -25,9 +19,15 @@ export async function POST(request: NextRequest) {
     db.delete(crazyGames).where(lt(crazyGames.createdAt, oneYearAgo)).catch((error) => {
       console.error('Background cleanup failed for crazy games:', error);
     });
+    pruneStalePresence().catch((error) => {
+      console.error('Background cleanup failed for presence:', error);
+    });
 
     const body = await request.json();
     const boardSize = body.boardSize ?? 19;
+    const superko = body.superko ?? 'positional';
+    const ruleset = body.ruleset ?? 'japanese';
+    const botSeats = validBotSeats(body.botSeats ?? [], 4);
 
     // Validate board size type and value
     if (typeof boardSize !== 'number' || !Number.isInteger(boardSize)) {
@@ -44,6 +44,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate superko rule
+    if (!isSuperkoRule(superko)) {
+      return NextResponse.json(
+        { error: 'Invalid superko rule. Must be positional or situational.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate ruleset
+    if (!isRuleset(ruleset)) {
+      return NextResponse.json(
+        { error: 'Invalid ruleset. Must be japanese, chinese, or aga.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate bot seats (colours the computer plays)
+    if (!botSeats) {
+      return NextResponse.json(
+        { error: 'Invalid bot seats. Must be distinct colours 0-3.' },
+        { status: 400 }
+      );
+    }
+
     // Generate key pair for authentication
     const keyPair = await generateKeyPair();
     const gameId = await generateGameId(keyPair.publicKey);
@@ -62,15 +86,24 @@ export async function POST(request: NextRequest) {
       whitePotCount: stoneCounts.white,
       brownPotCount: stoneCounts.brown,
       greyPotCount: stoneCounts.grey,
+      superko,
+      ruleset,
+      botSeats,
       connectedUsers: 0,
     });
 
+    // A bot in the first seat opens straight away
+    await playBotSeats('crazy', gameId);
+
     // Return game info with private key (only shown once!)
     return NextResponse.json({
       gameId,
       publicKey: keyPair.publicKey,
       privateKey: keyPair.privateKey,
       boardSize,
+      superko,
+      ruleset,
+      botSeats,
     });
   } catch (error) {
     console.error('Error creating crazy game:', error);
@@ -1,14 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, games, actions } from '@/lib/db';
+import { db, games } from '@/lib/db';
 import { eq } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
-import type { Board, Stone } from '@/lib/game/logic';
-import { detectAndRemoveCaptures, wouldBeSuicide } from '@/lib/game/logic';
-import { errorResponse, ERROR_IDS } from '@/lib/errors';
+import { CLASSIC_RULES, classicState } from '@/lib/game/variants';
+import { playBotTurn, recordBoardAction, recordPassOrResign } from '@/lib/classicActions';
+import { errorResponse, resolveAction, ERROR_IDS } from '@/lib/errors';
 import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/games/[gameId]/action - Perform an action on the board
-// Actions: place (from pot to board), remove (from board to pot), move (on board)
+// Actions: place (from pot to board), remove (from board to pot), move (on board),
+// pass and resign (both need the stoneColor of the player doing it).
+// In a game with a bot seat, the bot answers a place or pass before this returns (botMove).
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
@@ -35,7 +40,7 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { privateKey, actionType, stoneColor, fromX, fromY, toX, toY } = body;
+    const { privateKey, actionType } = body;
 
     if (!privateKey) {
       const err = await errorResponse(ERROR_IDS.NORMAL_PRIVATE_KEY_REQUIRED, 'Private key is required', 400);
@@ -46,6 +51,9 @@ export async function POST(
       );
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     // Get the game
     const game = await db
       .select()
@@ -67,237 +75,62 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
-    const boardState = game[0].boardState as Board;
-    const boardSize = game[0].boardSize;
-    let newBoardState = boardState.map(row => [...row]);
-    let newBlackPotCount = game[0].blackPotCount;
-    let newWhitePotCount = game[0].whitePotCount;
-    let newBlackCaptured = game[0].blackCaptured;
-    let newWhiteCaptured = game[0].whiteCaptured;
-    let newBlackOnBoard = game[0].blackOnBoard;
-    let newWhiteOnBoard = game[0].whiteOnBoard;
-    let newLastMoveX: number | null = game[0].lastMoveX;
-    let newLastMoveY: number | null = game[0].lastMoveY;
-    let newKoPointX: number | null = null;
-    let newKoPointY: number | null = null;
-    const currentKoPointX = game[0].koPointX;
-    const currentKoPointY = game[0].koPointY;
-
-    switch (actionType) {
-      case 'place': {
-        // Place a stone from pot to board
-        if (typeof stoneColor !== 'number' || ![0, 1].includes(stoneColor)) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_INVALID_STONE_COLOR, 'Invalid stone color', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid stone color' }, { status: 400 });
-        }
-        if (typeof toX !== 'number' || typeof toY !== 'number') {
-          const err = await errorResponse(ERROR_IDS.NORMAL_INVALID_POSITION, 'Invalid position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid position' }, { status: 400 });
-        }
-        if (toX < 0 || toX >= boardSize || toY < 0 || toY >= boardSize) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_POSITION_OUT_OF_BOUNDS, 'Position out of bounds', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Position out of bounds' }, { status: 400 });
-        }
-        if (newBoardState[toY][toX] !== null) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_POSITION_OCCUPIED, 'Position is occupied', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Position is occupied' }, { status: 400 });
-        }
-
-        // Check if this would be suicide (no liberties and doesn't capture)
-        if (wouldBeSuicide(newBoardState, toX, toY, stoneColor as 0 | 1)) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_SUICIDE_NOT_ALLOWED, 'Cannot place stone with no liberties unless it captures', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Cannot place stone with no liberties unless it captures' }, { status: 400 });
-        }
-
-        // Check Ko rule - cannot play on Ko point
-        if (currentKoPointX !== null && currentKoPointY !== null && toX === currentKoPointX && toY === currentKoPointY) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_KO_VIOLATION, 'Ko rule violation - cannot recapture immediately', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Ko rule violation - cannot recapture immediately' }, { status: 400 });
-        }
-
-        // Place the stone - decrement pot, increment onBoard
-        newBoardState[toY][toX] = stoneColor as Stone;
-        if (stoneColor === 0) {
-          newBlackPotCount--;
-          newBlackOnBoard++;
-        } else {
-          newWhitePotCount--;
-          newWhiteOnBoard++;
-        }
-        // Track this as the last move
-        newLastMoveX = toX;
-        newLastMoveY = toY;
-        break;
-      }
-
-      case 'remove': {
-        // Remove a stone from board to returned pile
-        if (typeof fromX !== 'number' || typeof fromY !== 'number') {
-          const err = await errorResponse(ERROR_IDS.NORMAL_INVALID_FROM_POSITION, 'Invalid position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid position' }, { status: 400 });
-        }
-        if (fromX < 0 || fromX >= boardSize || fromY < 0 || fromY >= boardSize) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_FROM_OUT_OF_BOUNDS, 'Position out of bounds', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Position out of bounds' }, { status: 400 });
-        }
-
-        const stone = newBoardState[fromY][fromX];
-        if (stone === null) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_NO_STONE_AT_POSITION, 'No stone at position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'No stone at position' }, { status: 400 });
-        }
-
-        // Remove the stone - increment pot, decrement onBoard
-        newBoardState[fromY][fromX] = null;
-        if (stone === 0) {
-          newBlackPotCount++;
-          newBlackOnBoard--;
-        } else {
-          newWhitePotCount++;
-          newWhiteOnBoard--;
-        }
-        break;
-      }
+    // A move made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
 
-      case 'move': {
-        // Move a stone on the board
-        if (typeof fromX !== 'number' || typeof fromY !== 'number') {
-          const err = await errorResponse(ERROR_IDS.NORMAL_INVALID_FROM_POSITION, 'Invalid from position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid from position' }, { status: 400 });
-        }
-        if (typeof toX !== 'number' || typeof toY !== 'number') {
-          const err = await errorResponse(ERROR_IDS.NORMAL_INVALID_TO_POSITION, 'Invalid to position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid to position' }, { status: 400 });
-        }
-        if (fromX < 0 || fromX >= boardSize || fromY < 0 || fromY >= boardSize) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_FROM_OUT_OF_BOUNDS, 'From position out of bounds', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'From position out of bounds' }, { status: 400 });
-        }
-        if (toX < 0 || toX >= boardSize || toY < 0 || toY >= boardSize) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_TO_OUT_OF_BOUNDS, 'To position out of bounds', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'To position out of bounds' }, { status: 400 });
-        }
-        if (fromX === toX && fromY === toY) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_SAME_POSITION, 'Cannot move to same position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Cannot move to same position' }, { status: 400 });
-        }
-
-        const stone = newBoardState[fromY][fromX];
-        if (stone === null) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_NO_STONE_FROM, 'No stone at from position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'No stone at from position' }, { status: 400 });
-        }
-        if (newBoardState[toY][toX] !== null) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_TO_OCCUPIED, 'To position is occupied', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'To position is occupied' }, { status: 400 });
-        }
-
-        // Check if moving to the new position would be suicide
-        // First simulate removing the stone from its current position
-        const testBoard = newBoardState.map(row => [...row]);
-        testBoard[fromY][fromX] = null;
-        if (wouldBeSuicide(testBoard, toX, toY, stone as 0 | 1)) {
-          const err = await errorResponse(ERROR_IDS.NORMAL_MOVE_SUICIDE, 'Cannot move stone to position with no liberties unless it captures', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Cannot move stone to position with no liberties unless it captures' }, { status: 400 });
-        }
+    // Finished games are locked until an undo or clear
+    if (game[0].status === 'finished') {
+      const err = await errorResponse(ERROR_IDS.NORMAL_GAME_OVER, 'Game is over', 400);
+      if (err) return err;
+      return NextResponse.json({ error: 'Game is over' }, { status: 400 });
+    }
 
-        // Move the stone
-        newBoardState[fromY][fromX] = null;
-        newBoardState[toY][toX] = stone;
-        break;
-      }
+    // While dead stones are being marked only resigning is allowed; play continues via the score route's resume
+    if (game[0].status === 'scoring' && actionType !== 'resign') {
+      const err = await errorResponse(ERROR_IDS.NORMAL_SCORING_IN_PROGRESS, 'Game is being scored', 400);
+      if (err) return err;
+      return NextResponse.json({ error: 'Game is being scored' }, { status: 400 });
+    }
 
-      default: {
-        const err = await errorResponse(ERROR_IDS.NORMAL_INVALID_ACTION, 'Invalid action type', 400);
+    if (actionType === 'pass' || actionType === 'resign') {
+      const { stoneColor } = body;
+      if (stoneColor !== 0 && stoneColor !== 1) {
+        const err = await errorResponse(ERROR_IDS.NORMAL_INVALID_STONE_COLOR, 'Invalid stone color', 400);
         if (err) return err;
-        return NextResponse.json({ error: 'Invalid action type' }, { status: 400 });
+        return NextResponse.json({ error: 'Invalid stone color' }, { status: 400 });
       }
-    }
 
-    // After place or move, check for captures
-    if (actionType === 'place' || actionType === 'move') {
-      const placedX = toX as number;
-      const placedY = toY as number;
-      const captureResult = detectAndRemoveCaptures(newBoardState, placedX, placedY);
-      newBoardState = captureResult.newBoard;
+      const turn = await recordPassOrResign(game[0], actionType, stoneColor);
+      if (!turn) return moveConflict(await getGame(request, { params }), body);
 
-      // Update captured counts and onBoard counts
-      // blackCaptured = number of BLACK stones captured → goes to WHITE's captured count
-      // whiteCaptured = number of WHITE stones captured → goes to BLACK's captured count
-      if (captureResult.blackCaptured > 0) {
-        newWhiteCaptured += captureResult.blackCaptured;  // White captured black stones
-        newBlackOnBoard -= captureResult.blackCaptured;   // Black has fewer on board
-      }
-      if (captureResult.whiteCaptured > 0) {
-        newBlackCaptured += captureResult.whiteCaptured;  // Black captured white stones
-        newWhiteOnBoard -= captureResult.whiteCaptured;   // White has fewer on board
-      }
+      // Passing hands the turn to the bot seat, if there is one, whose reply is the latest position
+      const bot = actionType === 'pass' ? await playBotTurn(gameId) : null;
 
-      // Update Ko point if a Ko situation was created
-      if (captureResult.koPoint) {
-        newKoPointX = captureResult.koPoint.x;
-        newKoPointY = captureResult.koPoint.y;
-      }
+      return jsonWithUpdate('games', gameId, 'action', {
+        success: true,
+        ...turn,
+        botMove: null,
+        ...bot,
+      });
     }
 
-    // Log the action
-    await db.insert(actions).values({
-      id: crypto.randomUUID(),
-      gameId,
-      actionType,
-      stoneColor: stoneColor ?? null,
-      fromX: fromX ?? null,
-      fromY: fromY ?? null,
-      toX: toX ?? null,
-      toY: toY ?? null,
-    });
+    const resolved = await resolveAction('normal', classicState(game[0]), body, CLASSIC_RULES);
+    if (resolved.response) return resolved.response;
+    const { outcome } = resolved;
+    const recorded = await recordBoardAction(gameId, body, outcome, game[0].moveNumber);
+    if (!recorded) return moveConflict(await getGame(request, { params }), body);
+    const { columns, moveNumber } = recorded;
 
-    // Update the board
-    await db.update(games).set({
-      boardState: newBoardState,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      blackOnBoard: newBlackOnBoard,
-      whiteOnBoard: newWhiteOnBoard,
-      lastMoveX: newLastMoveX,
-      lastMoveY: newLastMoveY,
-      koPointX: newKoPointX,
-      koPointY: newKoPointY,
-      updatedAt: new Date(),
-    }).where(eq(games.id, gameId));
+    // A placed stone ends the turn; rearranging stones doesn't
+    const bot = actionType === 'place' ? await playBotTurn(gameId) : null;
 
-    return NextResponse.json({
+    return jsonWithUpdate('games', gameId, 'action', {
       success: true,
-      boardState: newBoardState,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      blackOnBoard: newBlackOnBoard,
-      whiteOnBoard: newWhiteOnBoard,
-      lastMoveX: newLastMoveX,
-      lastMoveY: newLastMoveY,
-      koPointX: newKoPointX,
-      koPointY: newKoPointY,
+      ...columns,
+      consecutivePasses: 0,
+      moveNumber,
+      botMove: null,
+      ...bot,
     });
   } catch (error) {
     console.error('Error performing action:', error);
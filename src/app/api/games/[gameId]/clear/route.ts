@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { games, actions } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
+import { initialClassicState, classicColumns } from '@/lib/game/variants';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/games/[gameId]/clear - Clear the board
 export async function POST(
@@ -18,6 +22,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(games)
@@ -33,46 +40,40 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
-    const boardSize = game[0].boardSize;
-    const emptyBoard = Array(boardSize).fill(null).map(() => Array(boardSize).fill(null));
-
-    // Calculate initial pot counts: each player gets ALL intersections, Black +1 for starting
-    const totalIntersections = boardSize * boardSize;
-    const blackStones = totalIntersections + 1;
-    const whiteStones = totalIntersections;
+    // A clear made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
 
-    // Delete all actions for this game
-    await db.delete(actions).where(eq(actions.gameId, gameId));
+    // Back to the starting position - an empty board, or the handicap stones
+    const columns = classicColumns(initialClassicState(game[0]));
+    const moveNumber = game[0].moveNumber + 1;
 
     // Reset the board
-    await db.update(games).set({
-      boardState: emptyBoard,
-      blackPotCount: blackStones,
-      whitePotCount: whiteStones,
-      blackCaptured: 0,
-      whiteCaptured: 0,
-      blackOnBoard: 0,
-      whiteOnBoard: 0,
-      lastMoveX: null,
-      lastMoveY: null,
-      koPointX: null,
-      koPointY: null,
+    const updated = await db.update(games).set({
+      ...columns,
+      positionHashes: [],
+      status: 'playing',
+      result: null,
+      consecutivePasses: 0,
+      deadStones: [],
+      scoreAcceptedBy: [],
+      moveNumber,
       updatedAt: new Date(),
-    }).where(eq(games.id, gameId));
+    }).where(and(eq(games.id, gameId), eq(games.moveNumber, game[0].moveNumber)))
+      .returning({ id: games.id });
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
+
+    // Delete all actions for this game
+    await db.delete(actions).where(eq(actions.gameId, gameId));
 
-    return NextResponse.json({
+    return jsonWithUpdate('games', gameId, 'clear', {
       success: true,
-      boardState: emptyBoard,
-      blackPotCount: blackStones,
-      whitePotCount: whiteStones,
-      blackCaptured: 0,
-      whiteCaptured: 0,
-      blackOnBoard: 0,
-      whiteOnBoard: 0,
-      lastMoveX: null,
-      lastMoveY: null,
-      koPointX: null,
-      koPointY: null,
+      ...columns,
+      status: 'playing',
+      result: null,
+      consecutivePasses: 0,
+      deadStones: [],
+      scoreAcceptedBy: [],
+      moveNumber,
     });
   } catch (error) {
     console.error('Error clearing board:', error);
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { gameEventsRoute } from '@/lib/realtime';
+
+// GET /api/games/[gameId]/events - Server-Sent Events stream of live updates to the game
+// Only served when Pusher isn't configured; otherwise the pages subscribe through Pusher
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return gameEventsRoute('games', request, gameId);
+}
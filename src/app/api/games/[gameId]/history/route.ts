@@ -28,8 +28,10 @@ export async function GET(
       .where(eq(actions.gameId, gameId))
       .orderBy(asc(actions.createdAt));
 
+    // Replays start from the handicap stones, which are not actions
     return NextResponse.json({
       boardSize: game[0].boardSize,
+      handicapStones: game[0].handicapStones,
       actions: gameActions,
     });
   } catch (error) {
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { boardImageRoute } from '@/lib/boardImages';
+
+// GET /api/games/[gameId]/image - Render the game at a move as PNG or SVG
+// Query: move (default: current), format (png|svg), size, coordinates, lastMove, theme (classic|dom)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return boardImageRoute('games', request, gameId);
+}
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db, games } from '@/lib/db';
 import { eq } from 'drizzle-orm';
+import { conditionalGameGet, withGameETag } from '@/lib/gameVersions';
+import { connectedUsers } from '@/lib/presence';
 
 // GET /api/games/[gameId] - Get board state
+// Query: waitFor=<moveNumber>&timeout=<seconds> holds the request until the game changes
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
@@ -10,18 +13,16 @@ export async function GET(
   try {
     const { gameId } = await params;
 
-    const game = await db
+    const read = await conditionalGameGet('games', request, gameId, () => db
       .select()
       .from(games)
       .where(eq(games.id, gameId))
-      .limit(1);
-
-    if (game.length === 0) {
-      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
-    }
+      .limit(1));
+    if (read instanceof NextResponse) return read;
+    const { game, presence } = read;
 
     // Return board state
-    return NextResponse.json({
+    return withGameETag(NextResponse.json({
       id: game[0].id,
       boardSize: game[0].boardSize,
       boardState: game[0].boardState,
@@ -35,10 +36,24 @@ export async function GET(
       lastMoveY: game[0].lastMoveY,
       koPointX: game[0].koPointX,
       koPointY: game[0].koPointY,
-      connectedUsers: game[0].connectedUsers,
+      superko: game[0].superko,
+      ruleset: game[0].ruleset,
+      komi: game[0].komi,
+      handicap: game[0].handicap,
+      handicapStones: game[0].handicapStones,
+      status: game[0].status,
+      result: game[0].result,
+      consecutivePasses: game[0].consecutivePasses,
+      moveNumber: game[0].moveNumber,
+      deadStones: game[0].deadStones,
+      scoreAcceptedBy: game[0].scoreAcceptedBy,
+      botColor: game[0].botColor,
+      botPlayouts: game[0].botPlayouts,
+      connectedUsers: connectedUsers(presence),
+      presence,
       publicKey: game[0].publicKey,
       updatedAt: game[0].updatedAt,
-    });
+    }), game[0], presence);
   } catch (error) {
     console.error('Error fetching game:', error);
     return NextResponse.json(
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, games, actions } from '@/lib/db';
+import { eq, asc } from 'drizzle-orm';
+import { rulesetFrom } from '@/lib/game/rulesets';
+import { classicSgf } from '@/lib/game/sgf';
+
+// GET /api/games/[gameId]/sgf - Download the game record as an FF[4] SGF file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(games)
+      .where(eq(games.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const gameActions = await db
+      .select()
+      .from(actions)
+      .where(eq(actions.gameId, gameId))
+      .orderBy(asc(actions.createdAt));
+
+    const sgf = classicSgf({
+      boardSize: game[0].boardSize,
+      komi: game[0].komi,
+      ruleset: rulesetFrom(game[0].ruleset),
+      handicapStones: game[0].handicapStones,
+      result: game[0].result,
+      createdAt: game[0].createdAt,
+    }, gameActions);
+
+    return new NextResponse(sgf, {
+      headers: {
+        'Content-Type': 'application/x-go-sgf; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${gameId}.sgf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting SGF:', error);
+    return NextResponse.json(
+      { error: 'Failed to export game' },
+      { status: 500 }
+    );
+  }
+}
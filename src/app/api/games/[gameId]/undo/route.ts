@@ -1,16 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { games, actions, CapturedStoneInfo } from '@/lib/db/schema';
+import { games, actions } from '@/lib/db/schema';
 import { eq, and, asc } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
-import type { Board, Stone } from '@/lib/game/logic';
-import {
-  createEmptySquareBoard,
-  detectAndRemoveCaptures,
-  type GenericBoard,
-  type Position,
-} from '@/lib/game/shared';
+import { replayAction } from '@/lib/game/engine';
+import { CLASSIC_RULES, initialClassicState, classicColumns } from '@/lib/game/variants';
+import { PASSES_TO_END, passesAfter, type GameStatus } from '@/lib/game/result';
 import { errorResponse, ERROR_IDS } from '@/lib/errors';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/games/[gameId]/undo - Undo the last move
 export async function POST(
@@ -28,6 +27,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(games)
@@ -47,6 +49,9 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
+    // An undo made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
+
     // Get all actions for this game
     const allActions = await db
       .select()
@@ -64,142 +69,45 @@ export async function POST(
     const lastAction = allActions[allActions.length - 1];
     const actionsWithoutLast = allActions.slice(0, -1);
 
-    // Replay all actions except the last one to reconstruct the board
-    const boardSize = game[0].boardSize;
-    let newBoardState: GenericBoard = createEmptySquareBoard(boardSize);
-
-    // Get initial stone counts
-    const getInitialStones = (size: number) => {
-      if (size === 9) return { black: 41, white: 40 };
-      if (size === 13) return { black: 85, white: 84 };
-      return { black: 181, white: 180 };
-    };
-    const initialStones = getInitialStones(boardSize);
-
-    let newBlackPotCount = initialStones.black;
-    let newWhitePotCount = initialStones.white;
-    let newBlackCaptured = 0;
-    let newWhiteCaptured = 0;
-    let newBlackOnBoard = 0;
-    let newWhiteOnBoard = 0;
-    let lastMoveX: number | null = null;
-    let lastMoveY: number | null = null;
-    let koPointX: number | null = null;
-    let koPointY: number | null = null;
-
-    // Replay each action
+    // Replay all actions except the last one to reconstruct the board.
+    // A finished game can't have moves after its final pass or resignation, so
+    // undoing always reopens it; passes only lift the ko and count towards the end.
+    // Dead-stone marking isn't logged, so it starts over if the undo lands in scoring.
+    let state = initialClassicState(game[0]);
+    let consecutivePasses = 0;
+    let lastPasser: number | null = null;
     for (const action of actionsWithoutLast) {
-      // Reset Ko point before each action (it only persists from the previous move)
-      koPointX = null;
-      koPointY = null;
-
-      switch (action.actionType) {
-        case 'place': {
-          const x = action.toX;
-          const y = action.toY;
-          const stoneColor = action.stoneColor;
-
-          // Type safety: validate values exist
-          if (x === null || y === null || stoneColor === null) {
-            continue;
-          }
-
-          newBoardState[y][x] = stoneColor;
-          if (stoneColor === 0) {
-            newBlackPotCount--;
-            newBlackOnBoard++;
-          } else if (stoneColor === 1) {
-            newWhitePotCount--;
-            newWhiteOnBoard++;
-          }
-          lastMoveX = x;
-          lastMoveY = y;
-
-          // Apply captures
-          const captureResult = detectAndRemoveCaptures(newBoardState, boardSize, boardSize, x, y);
-          newBoardState = captureResult.newBoard;
-
-          // Update captures - capturedByColor contains count of each player's stones captured
-          const blackCaptured = captureResult.capturedByColor.get(0) || 0;
-          const whiteCaptured = captureResult.capturedByColor.get(1) || 0;
-
-          if (blackCaptured > 0) {
-            newWhiteCaptured += blackCaptured; // White captured black stones
-            newBlackOnBoard -= blackCaptured;
-          }
-          if (whiteCaptured > 0) {
-            newBlackCaptured += whiteCaptured; // Black captured white stones
-            newWhiteOnBoard -= whiteCaptured;
-          }
-
-          // Track Ko point from this action
-          if (captureResult.koPoint) {
-            koPointX = captureResult.koPoint.x;
-            koPointY = captureResult.koPoint.y;
-          }
-          break;
-        }
-
-        case 'remove': {
-          const x = action.fromX;
-          const y = action.fromY;
-
-          if (x === null || y === null) {
-            continue;
-          }
-
-          const stone = newBoardState[y][x];
-          newBoardState[y][x] = null;
-
-          if (stone === 0) {
-            newBlackPotCount++;
-            newBlackOnBoard--;
-          } else if (stone === 1) {
-            newWhitePotCount++;
-            newWhiteOnBoard--;
-          }
-          break;
-        }
-
-        case 'move': {
-          const fromX = action.fromX;
-          const fromY = action.fromY;
-          const toX = action.toX;
-          const toY = action.toY;
-
-          if (fromX === null || fromY === null || toX === null || toY === null) {
-            continue;
-          }
-
-          const stone = newBoardState[fromY][fromX];
-          newBoardState[fromY][fromX] = null;
-          newBoardState[toY][toX] = stone;
-
-          // Apply captures after move
-          const captureResult = detectAndRemoveCaptures(newBoardState, boardSize, boardSize, toX, toY);
-          newBoardState = captureResult.newBoard;
-
-          const blackCaptured = captureResult.capturedByColor.get(0) || 0;
-          const whiteCaptured = captureResult.capturedByColor.get(1) || 0;
-
-          if (blackCaptured > 0) {
-            newWhiteCaptured += blackCaptured;
-            newBlackOnBoard -= blackCaptured;
-          }
-          if (whiteCaptured > 0) {
-            newBlackCaptured += whiteCaptured;
-            newWhiteOnBoard -= whiteCaptured;
-          }
-
-          // Track Ko point from this action
-          if (captureResult.koPoint) {
-            koPointX = captureResult.koPoint.x;
-            koPointY = captureResult.koPoint.y;
-          }
-          break;
-        }
+      if (action.actionType === 'pass') {
+        state = { ...state, koPoint: null };
+        consecutivePasses = passesAfter(consecutivePasses, lastPasser, action.stoneColor);
+        lastPasser = action.stoneColor;
+        continue;
+      }
+      const replayed = replayAction(state, action, CLASSIC_RULES);
+      if (replayed) {
+        state = replayed.state;
+        consecutivePasses = 0;
+        lastPasser = null;
       }
     }
+    const columns = classicColumns(state);
+    const status: GameStatus = consecutivePasses >= PASSES_TO_END ? 'scoring' : 'playing';
+    const moveNumber = game[0].moveNumber + 1;
+
+    // Update the game with properly restored Ko point
+    const updated = await db.update(games).set({
+      ...columns,
+      positionHashes: state.positionHashes,
+      status,
+      result: null,
+      consecutivePasses,
+      deadStones: [],
+      scoreAcceptedBy: [],
+      moveNumber,
+      updatedAt: new Date(),
+    }).where(and(eq(games.id, gameId), eq(games.moveNumber, game[0].moveNumber)))
+      .returning({ id: games.id });
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
 
     // Delete the last action
     await db.delete(actions).where(
@@ -209,35 +117,15 @@ export async function POST(
       )
     );
 
-    // Update the game with properly restored Ko point
-    await db.update(games).set({
-      boardState: newBoardState as Board,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      blackOnBoard: newBlackOnBoard,
-      whiteOnBoard: newWhiteOnBoard,
-      lastMoveX: lastMoveX,
-      lastMoveY: lastMoveY,
-      koPointX: koPointX, // Now properly restored!
-      koPointY: koPointY,
-      updatedAt: new Date(),
-    }).where(eq(games.id, gameId));
-
-    return NextResponse.json({
+    return jsonWithUpdate('games', gameId, 'undo', {
       success: true,
-      boardState: newBoardState,
-      blackPotCount: newBlackPotCount,
-      whitePotCount: newWhitePotCount,
-      blackCaptured: newBlackCaptured,
-      whiteCaptured: newWhiteCaptured,
-      blackOnBoard: newBlackOnBoard,
-      whiteOnBoard: newWhiteOnBoard,
-      lastMoveX: lastMoveX,
-      lastMoveY: lastMoveY,
-      koPointX: koPointX,
-      koPointY: koPointY,
+      ...columns,
+      status,
+      result: null,
+      consecutivePasses,
+      deadStones: [],
+      scoreAcceptedBy: [],
+      moveNumber,
     });
   } catch (error) {
     console.error('Error undoing action:', error);
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, games, actions } from '@/lib/db';
+import { generateKeyPair, generateGameId } from '@/lib/crypto/keys';
+import { classicColumns } from '@/lib/game/variants';
+import { isSuperkoRule } from '@/lib/game/zobrist';
+import { classicFromSgf } from '@/lib/game/sgf';
+import { getRuleError } from '@/lib/errors';
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
+
+// Records are plain text; anything this large is not a single game
+const MAX_SGF_LENGTH = 1_000_000;
+
+// POST /api/games/import - Create a shared board from an SGF record
+// Body: the SGF text itself, or JSON { sgf, superko? }. Only the main line is imported.
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting - every import replays a whole record and creates a game
+    const clientIP = getClientIP(request);
+    const rateLimitKey = `games:import:${clientIP}`;
+    const rateLimitResult = checkRateLimit(rateLimitKey, RATE_LIMITS.createGame);
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please slow down.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': String(rateLimitResult.resetTime),
+          },
+        }
+      );
+    }
+
+    let sgf: unknown;
+    let superko: unknown = 'positional';
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json();
+      sgf = body.sgf;
+      superko = body.superko ?? 'positional';
+    } else {
+      sgf = await request.text();
+    }
+
+    if (typeof sgf !== 'string' || sgf.trim() === '') {
+      return NextResponse.json({ error: 'SGF text is required' }, { status: 400 });
+    }
+
+    if (sgf.length > MAX_SGF_LENGTH) {
+      return NextResponse.json({ error: 'SGF record is too large' }, { status: 413 });
+    }
+
+    // Validate superko rule
+    if (!isSuperkoRule(superko)) {
+      return NextResponse.json(
+        { error: 'Invalid superko rule. Must be positional or situational.' },
+        { status: 400 }
+      );
+    }
+
+    const imported = classicFromSgf(sgf, superko);
+    if (!imported.ok) {
+      const message = imported.error
+        ?? `Illegal move at node ${imported.node}: ${getRuleError('normal', imported.violation, imported.color).message}`;
+      return NextResponse.json({ error: `Invalid SGF: ${message}` }, { status: 400 });
+    }
+    const { game } = imported;
+
+    // Generate key pair for authentication
+    const keyPair = await generateKeyPair();
+    const gameId = await generateGameId(keyPair.publicKey);
+
+    await db.insert(games).values({
+      id: gameId,
+      publicKey: keyPair.publicKey,
+      boardSize: game.boardSize,
+      ...classicColumns(game.state),
+      positionHashes: game.state.positionHashes,
+      superko,
+      ruleset: game.ruleset,
+      komi: game.komi,
+      handicap: game.handicapStones.length,
+      handicapStones: game.handicapStones,
+      status: game.status,
+      result: game.result,
+      consecutivePasses: game.consecutivePasses,
+      moveNumber: game.actions.length,
+      connectedUsers: 0,
+    });
+
+    // History is read back in createdAt order, so give each action its own timestamp
+    if (game.actions.length > 0) {
+      const start = Date.now() - game.actions.length;
+      await db.insert(actions).values(game.actions.map((action, i) => ({
+        id: crypto.randomUUID(),
+        gameId,
+        ...action,
+        createdAt: new Date(start + i),
+      })));
+    }
+
+    // Return game info with private key (only shown once!)
+    return NextResponse.json({
+      gameId,
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey,
+      boardSize: game.boardSize,
+      superko,
+      ruleset: game.ruleset,
+      komi: game.komi,
+      handicap: game.handicapStones.length,
+      handicapStones: game.handicapStones,
+      status: game.status,
+      result: game.result,
+      moveCount: game.actions.length,
+    });
+  } catch (error) {
+    console.error('Error importing game:', error);
+    return NextResponse.json(
+      { error: 'Failed to import game' },
+      { status: 500 }
+    );
+  }
+}
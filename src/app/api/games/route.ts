@@ -1,16 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db, games } from '@/lib/db';
 import { generateKeyPair, generateGameId } from '@/lib/crypto/keys';
-import { createEmptyBoard } from '@/lib/game/logic';
+import type { Position } from '@/lib/game/logic';
+import { classicStartingBoard, getClassicStoneCount } from '@/lib/game/variants';
 import { lt } from 'drizzle-orm';
-
-// Stone counts: each player gets ALL intersections, Black (starter) gets +1
-function getStoneCount(boardSize: number): { black: number; white: number } {
-  const totalIntersections = boardSize * boardSize;
-  return { black: totalIntersections + 1, white: totalIntersections };
-}
+import { isSuperkoRule } from '@/lib/game/zobrist';
+import { defaultKomi, isRuleset, isValidKomi } from '@/lib/game/rulesets';
+import {
+  HANDICAP_KOMI,
+  MAX_HANDICAP,
+  MIN_HANDICAP,
+  fixedHandicapStones,
+  isHandicapPlacement,
+  validFreeHandicapStones,
+} from '@/lib/game/handicap';
+import { DEFAULT_BOT_PLAYOUTS, MAX_BOT_PLAYOUTS, MIN_BOT_PLAYOUTS, isValidBotPlayouts } from '@/lib/game/bot';
+import { playBotTurn } from '@/lib/classicActions';
+import { pruneStalePresence } from '@/lib/presence';
 
 // POST /api/games - Create a new shared board
+// Optional: superko, ruleset, komi, handicap (2-9) with handicapPlacement 'fixed' or 'free' (+ handicapStones),
+// botColor (0 or 1) to have the computer play that colour, with botPlayouts setting its strength
 export async function POST(request: NextRequest) {
   try {
     // Clean up games older than 1 year (runs in background, don't await)
@@ -19,9 +29,18 @@ export async function POST(request: NextRequest) {
     db.delete(games).where(lt(games.createdAt, oneYearAgo)).catch((error) => {
       console.error('Background cleanup failed for games:', error);
     });
+    pruneStalePresence().catch((error) => {
+      console.error('Background cleanup failed for presence:', error);
+    });
 
     const body = await request.json();
     const boardSize = body.boardSize ?? 19;
+    const superko = body.superko ?? 'positional';
+    const ruleset = body.ruleset ?? 'japanese';
+    const handicap = body.handicap ?? 0;
+    const handicapPlacement = body.handicapPlacement ?? 'fixed';
+    const botColor = body.botColor ?? null;
+    const botPlayouts = body.botPlayouts ?? DEFAULT_BOT_PLAYOUTS;
 
     // Validate board size type and value
     if (typeof boardSize !== 'number' || !Number.isInteger(boardSize)) {
@@ -38,31 +57,121 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate superko rule
+    if (!isSuperkoRule(superko)) {
+      return NextResponse.json(
+        { error: 'Invalid superko rule. Must be positional or situational.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate ruleset and komi (komi defaults to the ruleset's usual value)
+    if (!isRuleset(ruleset)) {
+      return NextResponse.json(
+        { error: 'Invalid ruleset. Must be japanese, chinese, or aga.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate handicap: none, or 2-9 stones on the star points or wherever Black chooses
+    if (typeof handicap !== 'number' || !Number.isInteger(handicap) ||
+        (handicap !== 0 && (handicap < MIN_HANDICAP || handicap > MAX_HANDICAP))) {
+      return NextResponse.json(
+        { error: `Invalid handicap. Must be 0 or ${MIN_HANDICAP}-${MAX_HANDICAP}.` },
+        { status: 400 }
+      );
+    }
+
+    if (!isHandicapPlacement(handicapPlacement)) {
+      return NextResponse.json(
+        { error: 'Invalid handicap placement. Must be fixed or free.' },
+        { status: 400 }
+      );
+    }
+
+    let handicapStones: Position[] = [];
+    if (handicap > 0) {
+      if (handicapPlacement === 'fixed') {
+        handicapStones = fixedHandicapStones(boardSize, handicap);
+      } else {
+        const chosen = validFreeHandicapStones(body.handicapStones, boardSize, handicap);
+        if (!chosen) {
+          return NextResponse.json(
+            { error: `Invalid handicap stones. Must be ${handicap} distinct positions on the board.` },
+            { status: 400 }
+          );
+        }
+        handicapStones = chosen;
+      }
+    }
+
+    // Handicap games are normally played with a half point of komi
+    const komi = body.komi ?? (handicap > 0 ? HANDICAP_KOMI : defaultKomi(ruleset));
+    if (!isValidKomi(komi)) {
+      return NextResponse.json(
+        { error: 'Invalid komi. Must be a whole or half number between -100 and 100.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate the bot seat
+    if (botColor !== null && botColor !== 0 && botColor !== 1) {
+      return NextResponse.json(
+        { error: 'Invalid bot color. Must be 0 (black) or 1 (white).' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidBotPlayouts(botPlayouts)) {
+      return NextResponse.json(
+        { error: `Invalid bot strength. Must be ${MIN_BOT_PLAYOUTS}-${MAX_BOT_PLAYOUTS} playouts.` },
+        { status: 400 }
+      );
+    }
+
     // Generate key pair for authentication
     const keyPair = await generateKeyPair();
     const gameId = await generateGameId(keyPair.publicKey);
 
-    // Create empty board
-    const emptyBoard = createEmptyBoard(boardSize);
-    const stoneCounts = getStoneCount(boardSize);
+    // Create the board, with Black's handicap stones already out of the pot
+    const startingBoard = classicStartingBoard(boardSize, handicapStones);
+    const stoneCounts = getClassicStoneCount(boardSize, handicap);
 
     // Insert game into database
     await db.insert(games).values({
       id: gameId,
       publicKey: keyPair.publicKey,
       boardSize,
-      boardState: emptyBoard,
+      boardState: startingBoard,
       blackPotCount: stoneCounts.black,
       whitePotCount: stoneCounts.white,
+      blackOnBoard: handicap,
+      superko,
+      ruleset,
+      komi,
+      handicap,
+      handicapStones,
+      botColor,
+      botPlayouts,
       connectedUsers: 0,
     });
 
+    // A bot with the first move plays it straight away
+    await playBotTurn(gameId);
+
     // Return game info with private key (only shown once!)
     return NextResponse.json({
       gameId,
       publicKey: keyPair.publicKey,
       privateKey: keyPair.privateKey,
       boardSize,
+      superko,
+      ruleset,
+      komi,
+      handicap,
+      handicapStones,
+      botColor,
+      botPlayouts,
     });
   } catch (error) {
     console.error('Error creating game:', error);
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_ARCHIVE_LENGTH, parseArchive, restoreArchive } from '@/lib/archives';
+
+// POST /api/import - Restore a game of any variant from a JSON archive under a new id and key pair
+// Body: the archive as written by GET /api/{variant}/[gameId]/archive
+export async function POST(request: NextRequest) {
+  try {
+    const text = await request.text();
+    if (text.length > MAX_ARCHIVE_LENGTH) {
+      return NextResponse.json({ error: 'Archive is too large' }, { status: 413 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ error: 'Archive must be JSON' }, { status: 400 });
+    }
+
+    const parsed = parseArchive(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: `Invalid archive: ${parsed.error}` }, { status: 400 });
+    }
+    const { archive } = parsed;
+
+    const { gameId, keyPair } = await restoreArchive(archive);
+
+    // Return game info with private key (only shown once!)
+    return NextResponse.json({
+      gameId,
+      variant: archive.variant,
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey,
+      moveCount: archive.actions.length,
+    });
+  } catch (error) {
+    console.error('Error importing game archive:', error);
+    return NextResponse.json(
+      { error: 'Failed to import game' },
+      { status: 500 }
+    );
+  }
+}
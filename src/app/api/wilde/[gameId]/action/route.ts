@@ -1,20 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { wildeGames, wildeActions, StonePot } from '@/lib/db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { wildeGames } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
-import { randomUUID } from 'crypto';
-import { errorResponse, ERROR_IDS } from '@/lib/errors';
+import { errorResponse, resolveAction, ERROR_IDS } from '@/lib/errors';
 import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
-import {
-  wouldBeSuicide,
-  detectAndRemoveCaptures,
-  isValidPosition,
-  type GenericBoard,
-} from '@/lib/game/shared';
-
-type WildeStone = number | null;
-type WildeBoard = WildeStone[][];
+import { wildeRules, wildeState, wildeColumns } from '@/lib/game/variants';
+import { playBotSeats, recordWildeAction } from '@/lib/seatActions';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/wilde/[gameId]/action
 export async function POST(
@@ -43,7 +38,7 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { privateKey, actionType, stoneColor, fromX, fromY, toX, toY } = body;
+    const { privateKey, actionType, fromX, fromY } = body;
 
     if (!privateKey) {
       const err = await errorResponse(ERROR_IDS.WILDE_PRIVATE_KEY_REQUIRED, 'Private key is required', 400);
@@ -51,6 +46,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(wildeGames)
@@ -70,403 +68,48 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
-    const boardState = game[0].boardState as WildeBoard;
-    const width = game[0].boardWidth;
-    const height = game[0].boardHeight;
-    const playerCount = game[0].playerCount;
-    let newBoardState = boardState.map(row => [...row]) as GenericBoard;
-    let newStonePots = [...(game[0].stonePots as StonePot[])];
-    let newLastMoveX: number | null = game[0].lastMoveX;
-    let newLastMoveY: number | null = game[0].lastMoveY;
-    let newKoPointX: number | null = null;
-    let newKoPointY: number | null = null;
-    const currentKoPointX = game[0].koPointX;
-    const currentKoPointY = game[0].koPointY;
-    let currentTurn = game[0].currentTurn;
-
-    switch (actionType) {
-      case 'place': {
-        if (typeof stoneColor !== 'number' || stoneColor < 0 || stoneColor >= playerCount) {
-          const err = await errorResponse(ERROR_IDS.WILDE_INVALID_STONE_COLOR, 'Invalid stone color', 400);
-          if (err) return err;
-          return NextResponse.json({}, { status: 400 });
-        }
-        // Enforce turn order
-        if (stoneColor !== currentTurn) {
-          const err = await errorResponse(ERROR_IDS.WILDE_INVALID_MOVE, 'Invalid move', 400);
-          if (err) return err;
-          return NextResponse.json({}, { status: 400 });
-        }
-        if (typeof toX !== 'number' || typeof toY !== 'number') {
-          const err = await errorResponse(ERROR_IDS.WILDE_INVALID_POSITION, 'Invalid position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid position' }, { status: 400 });
-        }
-        if (!isValidPosition(toX, toY, width, height)) {
-          const err = await errorResponse(ERROR_IDS.WILDE_POSITION_OUT_OF_BOUNDS, 'Position out of bounds', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Position out of bounds' }, { status: 400 });
-        }
-        if (newBoardState[toY][toX] !== null) {
-          const err = await errorResponse(ERROR_IDS.WILDE_POSITION_OCCUPIED, 'Position is occupied', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Position is occupied' }, { status: 400 });
-        }
-
-        // Check suicide
-        if (wouldBeSuicide(newBoardState, toX, toY, stoneColor, width, height)) {
-          const err = await errorResponse(ERROR_IDS.WILDE_SUICIDE_NOT_ALLOWED, 'Suicide move not allowed', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Suicide move not allowed' }, { status: 400 });
-        }
-
-        // Check Ko
-        if (currentKoPointX !== null && currentKoPointY !== null && toX === currentKoPointX && toY === currentKoPointY) {
-          const err = await errorResponse(ERROR_IDS.WILDE_KO_VIOLATION, 'Ko rule violation', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Ko rule violation' }, { status: 400 });
-        }
-
-        // Place stone
-        newBoardState[toY][toX] = stoneColor;
-        newStonePots[stoneColor] = {
-          ...newStonePots[stoneColor],
-          potCount: newStonePots[stoneColor].potCount - 1,
-          onBoard: newStonePots[stoneColor].onBoard + 1
-        };
-        newLastMoveX = toX;
-        newLastMoveY = toY;
-        currentTurn = (currentTurn + 1) % playerCount;
-        break;
-      }
-
-      case 'remove': {
-        if (typeof fromX !== 'number' || typeof fromY !== 'number') {
-          const err = await errorResponse(ERROR_IDS.WILDE_INVALID_POSITION, 'Invalid position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid position' }, { status: 400 });
-        }
-        if (!isValidPosition(fromX, fromY, width, height)) {
-          const err = await errorResponse(ERROR_IDS.WILDE_POSITION_OUT_OF_BOUNDS, 'Position out of bounds', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Position out of bounds' }, { status: 400 });
-        }
-
-        const removedStone = newBoardState[fromY][fromX];
-        if (removedStone === null) {
-          const err = await errorResponse(ERROR_IDS.WILDE_NO_STONE_AT_POSITION, 'No stone at position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'No stone at position' }, { status: 400 });
-        }
-
-        newBoardState[fromY][fromX] = null;
-        newStonePots[removedStone] = {
-          ...newStonePots[removedStone],
-          potCount: newStonePots[removedStone].potCount + 1,
-          onBoard: newStonePots[removedStone].onBoard - 1
-        };
+    // A move made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
 
-        // Use SQL increment for atomic moveNumber
-        const updateResult = await db.update(wildeGames).set({
-          boardState: newBoardState as WildeBoard,
-          stonePots: newStonePots,
-          moveNumber: sql`${wildeGames.moveNumber} + 1`,
-          updatedAt: new Date(),
-        }).where(eq(wildeGames.id, gameId)).returning({ moveNumber: wildeGames.moveNumber });
+    const state = wildeState(game[0]);
+    const rules = wildeRules(game[0].playerCount);
 
-        const newMoveNumber = updateResult[0]?.moveNumber ?? game[0].moveNumber + 1;
-
-        await db.insert(wildeActions).values({
-          id: randomUUID(),
-          gameId,
-          actionType: 'remove',
-          stoneColor: removedStone,
-          fromX,
-          fromY,
-          toX: null,
-          toY: null,
-          moveNumber: newMoveNumber,
-        });
-
-        return NextResponse.json({
-          success: true,
-          boardState: newBoardState,
-          stonePots: newStonePots,
-          lastMoveX: newLastMoveX,
-          lastMoveY: newLastMoveY,
-          koPointX: newKoPointX,
-          koPointY: newKoPointY,
-          currentTurn: currentTurn,
-          moveNumber: newMoveNumber,
-        });
+    // Pakita eats a stone - returns it to owner's pot (no turn restrictions)
+    const isPakitaEat = actionType === 'pakita_eat';
+    if (isPakitaEat) {
+      // Server-side validation: check pakita mode is enabled
+      if (!game[0].pakitaMode) {
+        return NextResponse.json({ error: 'Pakita mode is not enabled' }, { status: 400 });
       }
-
-      case 'pakita_eat': {
-        // Pakita eats a stone - returns it to owner's pot (no turn restrictions)
-        // Server-side validation: check pakita mode is enabled
-        if (!game[0].pakitaMode) {
-          return NextResponse.json({ error: 'Pakita mode is not enabled' }, { status: 400 });
-        }
-
-        if (typeof fromX !== 'number' || typeof fromY !== 'number') {
-          return NextResponse.json({ error: 'Invalid position' }, { status: 400 });
-        }
-        if (!isValidPosition(fromX, fromY, width, height)) {
-          return NextResponse.json({ error: 'Position out of bounds' }, { status: 400 });
-        }
-
-        const eatenStone = newBoardState[fromY][fromX];
-        if (eatenStone === null) {
-          // Stone already eaten, just return success
-          return NextResponse.json({
-            success: true,
-            boardState: newBoardState,
-            stonePots: newStonePots,
-            lastMoveX: newLastMoveX,
-            lastMoveY: newLastMoveY,
-            koPointX: newKoPointX,
-            koPointY: newKoPointY,
-            currentTurn: currentTurn,
-            moveNumber: game[0].moveNumber,
-          });
-        }
-
-        newBoardState[fromY][fromX] = null;
-        newStonePots[eatenStone] = {
-          ...newStonePots[eatenStone],
-          potCount: newStonePots[eatenStone].potCount + 1,
-          onBoard: newStonePots[eatenStone].onBoard - 1
-        };
-
-        // Use SQL increment for atomic moveNumber
-        const updateResult = await db.update(wildeGames).set({
-          boardState: newBoardState as WildeBoard,
-          stonePots: newStonePots,
-          moveNumber: sql`${wildeGames.moveNumber} + 1`,
-          updatedAt: new Date(),
-        }).where(eq(wildeGames.id, gameId)).returning({ moveNumber: wildeGames.moveNumber });
-
-        const newMoveNumber = updateResult[0]?.moveNumber ?? game[0].moveNumber + 1;
-
-        await db.insert(wildeActions).values({
-          id: randomUUID(),
-          gameId,
-          actionType: 'pakita_eat',
-          stoneColor: eatenStone,
-          fromX,
-          fromY,
-          toX: null,
-          toY: null,
-          moveNumber: newMoveNumber,
-        });
-
+      if (typeof fromX === 'number' && typeof fromY === 'number' &&
+          fromX >= 0 && fromX < state.width && fromY >= 0 && fromY < state.height &&
+          state.board[fromY][fromX] === null) {
+        // Stone already eaten, just return success
         return NextResponse.json({
           success: true,
-          boardState: newBoardState,
-          stonePots: newStonePots,
-          lastMoveX: newLastMoveX,
-          lastMoveY: newLastMoveY,
-          koPointX: newKoPointX,
-          koPointY: newKoPointY,
-          currentTurn: currentTurn,
-          moveNumber: newMoveNumber,
+          ...wildeColumns(state),
+          moveNumber: game[0].moveNumber,
         });
       }
-
-      case 'move': {
-        if (typeof fromX !== 'number' || typeof fromY !== 'number') {
-          const err = await errorResponse(ERROR_IDS.WILDE_INVALID_FROM_POSITION, 'Invalid from position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid from position' }, { status: 400 });
-        }
-        if (typeof toX !== 'number' || typeof toY !== 'number') {
-          const err = await errorResponse(ERROR_IDS.WILDE_INVALID_TO_POSITION, 'Invalid to position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Invalid to position' }, { status: 400 });
-        }
-        if (!isValidPosition(fromX, fromY, width, height)) {
-          const err = await errorResponse(ERROR_IDS.WILDE_FROM_OUT_OF_BOUNDS, 'From position out of bounds', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'From position out of bounds' }, { status: 400 });
-        }
-        if (!isValidPosition(toX, toY, width, height)) {
-          const err = await errorResponse(ERROR_IDS.WILDE_TO_OUT_OF_BOUNDS, 'To position out of bounds', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'To position out of bounds' }, { status: 400 });
-        }
-        if (fromX === toX && fromY === toY) {
-          const err = await errorResponse(ERROR_IDS.WILDE_SAME_POSITION, 'Cannot move to same position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Cannot move to same position' }, { status: 400 });
-        }
-
-        const movedStone = newBoardState[fromY][fromX];
-        if (movedStone === null) {
-          const err = await errorResponse(ERROR_IDS.WILDE_NO_STONE_FROM, 'No stone at from position', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'No stone at from position' }, { status: 400 });
-        }
-        if (newBoardState[toY][toX] !== null) {
-          const err = await errorResponse(ERROR_IDS.WILDE_TO_OCCUPIED, 'To position is occupied', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'To position is occupied' }, { status: 400 });
-        }
-
-        const testBoard = newBoardState.map(row => [...row]) as GenericBoard;
-        testBoard[fromY][fromX] = null;
-        if (wouldBeSuicide(testBoard, toX, toY, movedStone, width, height)) {
-          const err = await errorResponse(ERROR_IDS.WILDE_SUICIDE_NOT_ALLOWED, 'Suicide move not allowed', 400);
-          if (err) return err;
-          return NextResponse.json({ error: 'Suicide move not allowed' }, { status: 400 });
-        }
-
-        newBoardState[fromY][fromX] = null;
-        newBoardState[toY][toX] = movedStone;
-
-        // Check for captures
-        const captureResult = detectAndRemoveCaptures(newBoardState, width, height, toX, toY);
-        newBoardState = captureResult.newBoard;
-
-        let totalCaptured = 0;
-        captureResult.capturedByColor.forEach((count, capturedColor) => {
-          if (count > 0) {
-            totalCaptured += count;
-            newStonePots[capturedColor] = {
-              ...newStonePots[capturedColor],
-              onBoard: newStonePots[capturedColor].onBoard - count
-            };
-          }
-        });
-
-        if (totalCaptured > 0) {
-          newStonePots[movedStone] = {
-            ...newStonePots[movedStone],
-            captured: newStonePots[movedStone].captured + totalCaptured
-          };
-        }
-
-        if (captureResult.koPoint) {
-          newKoPointX = captureResult.koPoint.x;
-          newKoPointY = captureResult.koPoint.y;
-        }
-        newLastMoveX = toX;
-        newLastMoveY = toY;
-
-        // Use SQL increment for atomic moveNumber
-        const updateResult = await db.update(wildeGames).set({
-          boardState: newBoardState as WildeBoard,
-          stonePots: newStonePots,
-          lastMoveX: newLastMoveX,
-          lastMoveY: newLastMoveY,
-          koPointX: newKoPointX,
-          koPointY: newKoPointY,
-          moveNumber: sql`${wildeGames.moveNumber} + 1`,
-          updatedAt: new Date(),
-        }).where(eq(wildeGames.id, gameId)).returning({ moveNumber: wildeGames.moveNumber });
-
-        const newMoveNumber = updateResult[0]?.moveNumber ?? game[0].moveNumber + 1;
-
-        await db.insert(wildeActions).values({
-          id: randomUUID(),
-          gameId,
-          actionType: 'move',
-          stoneColor: movedStone,
-          fromX,
-          fromY,
-          toX,
-          toY,
-          moveNumber: newMoveNumber,
-        });
-
-        return NextResponse.json({
-          success: true,
-          boardState: newBoardState,
-          stonePots: newStonePots,
-          lastMoveX: newLastMoveX,
-          lastMoveY: newLastMoveY,
-          koPointX: newKoPointX,
-          koPointY: newKoPointY,
-          currentTurn: currentTurn,
-          moveNumber: newMoveNumber,
-        });
-      }
-
-      default: {
-        const err = await errorResponse(ERROR_IDS.WILDE_INVALID_ACTION, 'Invalid action type', 400);
-        if (err) return err;
-        return NextResponse.json({ error: 'Invalid action type' }, { status: 400 });
-      }
     }
 
-    // Check for captures after place
-    if (actionType === 'place') {
-      const placedX = toX as number;
-      const placedY = toY as number;
-      const placedStone = newBoardState[placedY][placedX];
-      const captureResult = detectAndRemoveCaptures(newBoardState, width, height, placedX, placedY);
-      newBoardState = captureResult.newBoard;
+    const input = isPakitaEat ? { ...body, actionType: 'remove' } : body;
+    const resolved = await resolveAction('wilde', state, input, rules);
+    if (resolved.response) return resolved.response;
+    const { outcome } = resolved;
+    // Logged under the requested type, so a Pakita eat stays 'pakita_eat' in the history
+    const recorded = await recordWildeAction(gameId, body, outcome, game[0].moveNumber);
+    if (!recorded) return moveConflict(await getGame(request, { params }), body);
+    const { columns, moveNumber } = recorded;
 
-      let totalCaptured = 0;
-      captureResult.capturedByColor.forEach((count, capturedColor) => {
-        if (count > 0) {
-          totalCaptured += count;
-          newStonePots[capturedColor] = {
-            ...newStonePots[capturedColor],
-            onBoard: newStonePots[capturedColor].onBoard - count
-          };
-        }
-      });
-
-      if (totalCaptured > 0 && placedStone !== null) {
-        newStonePots[placedStone] = {
-          ...newStonePots[placedStone],
-          captured: newStonePots[placedStone].captured + totalCaptured
-        };
-      }
-
-      if (captureResult.koPoint) {
-        newKoPointX = captureResult.koPoint.x;
-        newKoPointY = captureResult.koPoint.y;
-      }
-    }
-
-    // Use SQL increment for atomic moveNumber
-    const updateResult = await db.update(wildeGames).set({
-      boardState: newBoardState as WildeBoard,
-      stonePots: newStonePots,
-      lastMoveX: newLastMoveX,
-      lastMoveY: newLastMoveY,
-      koPointX: newKoPointX,
-      koPointY: newKoPointY,
-      currentTurn: currentTurn,
-      moveNumber: sql`${wildeGames.moveNumber} + 1`,
-      updatedAt: new Date(),
-    }).where(eq(wildeGames.id, gameId)).returning({ moveNumber: wildeGames.moveNumber });
-
-    const newMoveNumber = updateResult[0]?.moveNumber ?? game[0].moveNumber + 1;
-
-    await db.insert(wildeActions).values({
-      id: randomUUID(),
-      gameId,
-      actionType,
-      stoneColor: stoneColor ?? null,
-      fromX: fromX ?? null,
-      fromY: fromY ?? null,
-      toX: toX ?? null,
-      toY: toY ?? null,
-      moveNumber: newMoveNumber,
-    });
+    // Placing passes the turn on, possibly to bot seats that answer straight away
+    const botMoves = actionType === 'place' ? await playBotSeats('wilde', gameId) : [];
 
-    return NextResponse.json({
+    return jsonWithUpdate('wilde', gameId, 'action', {
       success: true,
-      boardState: newBoardState,
-      stonePots: newStonePots,
-      lastMoveX: newLastMoveX,
-      lastMoveY: newLastMoveY,
-      koPointX: newKoPointX,
-      koPointY: newKoPointY,
-      currentTurn: currentTurn,
-      moveNumber: newMoveNumber,
+      ...columns,
+      moveNumber,
+      botMoves,
     });
   } catch (error) {
     console.error('Error performing action:', error);
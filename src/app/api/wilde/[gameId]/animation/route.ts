@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { boardAnimationRoute } from '@/lib/boardAnimations';
+
+// GET /api/wilde/[gameId]/animation - Play back the Wilde Go game as an animated GIF or WebP
+// Query: from, to (default: whole game), delay (ms per frame), format (gif|webp), size, coordinates, lastMove
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return boardAnimationRoute('wilde', request, gameId);
+}
@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server';
+import { gameArchiveRoute } from '@/lib/archives';
+
+// GET /api/wilde/[gameId]/archive - Download the Wilde Go game and its full action log as a JSON archive
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  return gameArchiveRoute('wilde', request, gameId);
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { wildeGames } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { verifyKeyPair } from '@/lib/crypto/keys';
+import { errorResponse, ERROR_IDS } from '@/lib/errors';
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
+import { playBotSeats, validBotSeats } from '@/lib/seatActions';
+import { jsonWithUpdate } from '@/lib/realtime';
+
+// POST /api/wilde/[gameId]/bots - Hand seats to the computer (or take them back) mid-game
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    // Rate limiting
+    const clientIP = getClientIP(request);
+    const rateLimitKey = `wilde:bots:${gameId}:${clientIP}`;
+    const rateLimitResult = checkRateLimit(rateLimitKey, RATE_LIMITS.gameAction);
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please slow down.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': String(rateLimitResult.resetTime),
+          },
+        }
+      );
+    }
+
+    const body = await request.json();
+    const { privateKey } = body;
+
+    if (!privateKey) {
+      const err = await errorResponse(ERROR_IDS.WILDE_PRIVATE_KEY_REQUIRED, 'Private key is required', 400);
+      if (err) return err;
+      return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
+    }
+
+    const game = await db
+      .select()
+      .from(wildeGames)
+      .where(eq(wildeGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      const err = await errorResponse(ERROR_IDS.WILDE_GAME_NOT_FOUND, 'Game not found', 404);
+      if (err) return err;
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const isValid = await verifyKeyPair(game[0].publicKey, privateKey);
+    if (!isValid) {
+      const err = await errorResponse(ERROR_IDS.WILDE_INVALID_PRIVATE_KEY, 'Invalid private key', 401);
+      if (err) return err;
+      return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
+    }
+
+    const botSeats = validBotSeats(body.botSeats, game[0].playerCount);
+    if (!botSeats) {
+      return NextResponse.json(
+        { error: `Invalid bot seats. Must be distinct colours 0-${game[0].playerCount - 1}.` },
+        { status: 400 }
+      );
+    }
+
+    await db.update(wildeGames).set({
+      botSeats,
+      updatedAt: new Date(),
+    }).where(eq(wildeGames.id, gameId));
+
+    // A seat handed over on its own turn plays at once
+    const botMoves = await playBotSeats('wilde', gameId);
+
+    return jsonWithUpdate('wilde', gameId, 'action', { success: true, botSeats, botMoves });
+  } catch (error) {
+    console.error('Error updating bot seats:', error);
+    return NextResponse.json({ error: 'Failed to update bot seats' }, { status: 500 });
+  }
+}
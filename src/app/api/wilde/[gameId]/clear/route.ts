@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { wildeGames, wildeActions } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
 import { createEmptyBoard, initializeStonePots } from '@/lib/wilde/colors';
+import { playBotSeats } from '@/lib/seatActions';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/wilde/[gameId]/clear - Clear board and reset
 export async function POST(
@@ -19,6 +23,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(wildeGames)
@@ -34,6 +41,9 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
+    // A clear made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
+
     const width = game[0].boardWidth;
     const height = game[0].boardHeight;
     const playerCount = game[0].playerCount;
@@ -41,24 +51,31 @@ export async function POST(
     // Create fresh board and pots
     const emptyBoard = createEmptyBoard(width, height);
     const freshPots = initializeStonePots(width, height, playerCount);
-
-    // Delete all actions
-    await db.delete(wildeActions).where(eq(wildeActions.gameId, gameId));
+    const moveNumber = game[0].moveNumber + 1;
 
     // Reset the game
-    await db.update(wildeGames).set({
+    const updated = await db.update(wildeGames).set({
       boardState: emptyBoard,
       stonePots: freshPots,
       lastMoveX: null,
       lastMoveY: null,
       koPointX: null,
       koPointY: null,
+      positionHashes: [],
       currentTurn: 0,
-      moveNumber: 0,
+      moveNumber,
       updatedAt: new Date(),
-    }).where(eq(wildeGames.id, gameId));
+    }).where(and(eq(wildeGames.id, gameId), eq(wildeGames.moveNumber, game[0].moveNumber)))
+      .returning({ id: wildeGames.id });
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
+
+    // Delete all actions
+    await db.delete(wildeActions).where(eq(wildeActions.gameId, gameId));
+
+    // A bot in the first seat opens the fresh board
+    const botMoves = await playBotSeats('wilde', gameId);
 
-    return NextResponse.json({
+    return jsonWithUpdate('wilde', gameId, 'clear', {
       success: true,
       boardState: emptyBoard,
       stonePots: freshPots,
@@ -67,7 +84,8 @@ export async function POST(
       koPointX: null,
       koPointY: null,
       currentTurn: 0,
-      moveNumber: 0,
+      moveNumber,
+      botMoves,
     });
   } catch (error) {
     console.error('Error clearing board:', error);
@@ -30,6 +30,7 @@ export async function GET(
     return NextResponse.json({
       boardWidth: game[0].boardWidth,
       boardHeight: game[0].boardHeight,
+      topology: game[0].topology,
       playerCount: game[0].playerCount,
       actions: actions.map(a => ({
         actionType: a.actionType,
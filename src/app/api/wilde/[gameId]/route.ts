@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { wildeGames } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { conditionalGameGet, withGameETag } from '@/lib/gameVersions';
+import { connectedUsers } from '@/lib/presence';
 
 // GET /api/wilde/[gameId] - Get Wilde game state
+// Query: waitFor=<moveNumber>&timeout=<seconds> holds the request until the game changes
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
@@ -11,20 +14,19 @@ export async function GET(
   try {
     const { gameId } = await params;
 
-    const game = await db
+    const read = await conditionalGameGet('wilde', request, gameId, () => db
       .select()
       .from(wildeGames)
       .where(eq(wildeGames.id, gameId))
-      .limit(1);
+      .limit(1));
+    if (read instanceof NextResponse) return read;
+    const { game, presence } = read;
 
-    if (game.length === 0) {
-      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
-    }
-
-    return NextResponse.json({
+    return withGameETag(NextResponse.json({
       id: game[0].id,
       boardWidth: game[0].boardWidth,
       boardHeight: game[0].boardHeight,
+      topology: game[0].topology,
       playerCount: game[0].playerCount,
       boardState: game[0].boardState,
       stonePots: game[0].stonePots,
@@ -32,14 +34,18 @@ export async function GET(
       lastMoveY: game[0].lastMoveY,
       koPointX: game[0].koPointX,
       koPointY: game[0].koPointY,
+      superko: game[0].superko,
+      ruleset: game[0].ruleset,
       currentTurn: game[0].currentTurn,
       moveNumber: game[0].moveNumber,
       pakitaMode: game[0].pakitaMode,
       customHues: game[0].customHues,
-      connectedUsers: game[0].connectedUsers,
+      botSeats: game[0].botSeats,
+      connectedUsers: connectedUsers(presence),
+      presence,
       publicKey: game[0].publicKey,
       updatedAt: game[0].updatedAt,
-    });
+    }), game[0], presence);
   } catch (error) {
     console.error('Error fetching Wilde game:', error);
     return NextResponse.json(
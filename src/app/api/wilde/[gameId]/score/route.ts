@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { wildeGames } from '@/lib/db/schema';
+import type { StonePot } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { colorLeaderboard } from '@/lib/game/leaderboard';
+import { rulesetFrom } from '@/lib/game/rulesets';
+import { topologyFrom } from '@/lib/game/shared';
+
+// GET /api/wilde/[gameId]/score - Standings of every player under the game's ruleset
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(wildeGames)
+      .where(eq(wildeGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const ruleset = rulesetFrom(game[0].ruleset);
+    const stonePots = game[0].stonePots as StonePot[];
+    const captured = stonePots.slice(0, game[0].playerCount).map(pot => pot.captured);
+
+    return NextResponse.json({
+      ruleset,
+      leaderboard: colorLeaderboard(game[0].boardState, captured, ruleset, topologyFrom(game[0].topology)),
+    });
+  } catch (error) {
+    console.error('Error scoring wilde game:', error);
+    return NextResponse.json({ error: 'Failed to score game' }, { status: 500 });
+  }
+}
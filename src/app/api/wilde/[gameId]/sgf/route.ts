@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { wildeGames, wildeActions } from '@/lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { rulesetFrom } from '@/lib/game/rulesets';
+import { topologyFrom } from '@/lib/game/shared';
+import { multiColorSgf } from '@/lib/game/sgfDialect';
+import { initialWildeState } from '@/lib/game/variants';
+import { superkoFrom } from '@/lib/game/zobrist';
+
+// GET /api/wilde/[gameId]/sgf - Download the game record in the multi-colour SGF dialect
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(wildeGames)
+      .where(eq(wildeGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const gameActions = await db
+      .select()
+      .from(wildeActions)
+      .where(eq(wildeActions.gameId, gameId))
+      .orderBy(asc(wildeActions.moveNumber));
+
+    const sgf = multiColorSgf({
+      variant: 'wilde',
+      width: game[0].boardWidth,
+      height: game[0].boardHeight,
+      playerCount: game[0].playerCount,
+      startingPots: initialWildeState(game[0], gameActions).potCounts,
+      superko: superkoFrom(game[0].superko),
+      ruleset: rulesetFrom(game[0].ruleset),
+      topology: topologyFrom(game[0].topology),
+      pakitaMode: game[0].pakitaMode,
+      customHues: game[0].customHues,
+      createdAt: game[0].createdAt,
+    }, gameActions);
+
+    return new NextResponse(sgf, {
+      headers: {
+        'Content-Type': 'application/x-go-sgf; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${gameId}.sgf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting SGF:', error);
+    return NextResponse.json(
+      { error: 'Failed to export game' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { wildeGames, wildeActions } from '@/lib/db/schema';
+import { generateKeyPair, generateGameId } from '@/lib/crypto/keys';
+import { wildeColumns } from '@/lib/game/variants';
+import { multiColorFromSgf } from '@/lib/game/sgfDialect';
+import { getRuleError } from '@/lib/errors';
+
+// Records are plain text; anything this large is not a single game
+const MAX_SGF_LENGTH = 1_000_000;
+
+// POST /api/wilde/import - Create a Wilde Go game from a multi-colour SGF record
+// Body: the SGF text itself, or JSON { sgf }. Only the main line is imported.
+export async function POST(request: NextRequest) {
+  try {
+    let sgf: unknown;
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json();
+      sgf = body.sgf;
+    } else {
+      sgf = await request.text();
+    }
+
+    if (typeof sgf !== 'string' || sgf.trim() === '') {
+      return NextResponse.json({ error: 'SGF text is required' }, { status: 400 });
+    }
+
+    if (sgf.length > MAX_SGF_LENGTH) {
+      return NextResponse.json({ error: 'SGF record is too large' }, { status: 413 });
+    }
+
+    const imported = multiColorFromSgf(sgf, 'wilde');
+    if (!imported.ok) {
+      const message = imported.error
+        ?? `Illegal move at node ${imported.node}: ${getRuleError('wilde', imported.violation, imported.color).message}`;
+      return NextResponse.json({ error: `Invalid SGF: ${message}` }, { status: 400 });
+    }
+    const { game } = imported;
+
+    // Generate key pair for authentication
+    const keyPair = await generateKeyPair();
+    const gameId = await generateGameId(keyPair.publicKey);
+
+    await db.insert(wildeGames).values({
+      id: gameId,
+      publicKey: keyPair.publicKey,
+      boardWidth: game.width,
+      boardHeight: game.height,
+      topology: game.topology,
+      playerCount: game.playerCount,
+      ...wildeColumns(game.state),
+      positionHashes: game.state.positionHashes,
+      pakitaMode: game.pakitaMode,
+      customHues: game.customHues,
+      superko: game.superko,
+      ruleset: game.ruleset,
+      moveNumber: game.actions.length,
+      connectedUsers: 0,
+    });
+
+    if (game.actions.length > 0) {
+      await db.insert(wildeActions).values(game.actions.map(action => ({
+        id: crypto.randomUUID(),
+        gameId,
+        ...action,
+      })));
+    }
+
+    // Return game info with private key (only shown once!)
+    return NextResponse.json({
+      gameId,
+      publicKey: keyPair.publicKey,
+      privateKey: keyPair.privateKey,
+      boardWidth: game.width,
+      boardHeight: game.height,
+      topology: game.topology,
+      playerCount: game.playerCount,
+      pakitaMode: game.pakitaMode,
+      superko: game.superko,
+      ruleset: game.ruleset,
+      moveCount: game.actions.length,
+    });
+  } catch (error) {
+    console.error('Error importing Wilde game:', error);
+    return NextResponse.json(
+      { error: 'Failed to import game' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { wildeGames } from '@/lib/db/schema';
 import { generateKeyPair, generateGameId } from '@/lib/crypto/keys';
-import { createEmptyBoard, initializeStonePots } from '@/lib/wilde/colors';
+import { MAX_HUE_OFFSET, createEmptyBoard, initializeStonePots, validCustomHues } from '@/lib/wilde/colors';
 import { lt } from 'drizzle-orm';
+import { isSuperkoRule } from '@/lib/game/zobrist';
+import { isRuleset } from '@/lib/game/rulesets';
+import { isTopology } from '@/lib/game/shared';
+import { playBotSeats, validBotSeats } from '@/lib/seatActions';
+import { pruneStalePresence } from '@/lib/presence';
 
 // POST /api/wilde - Create a new Wilde Go game
 export async function POST(request: NextRequest) {
@@ -14,6 +19,9 @@ export async function POST(request: NextRequest) {
     db.delete(wildeGames).where(lt(wildeGames.createdAt, oneYearAgo)).catch((error) => {
       console.error('Background cleanup failed for wilde games:', error);
     });
+    pruneStalePresence().catch((error) => {
+      console.error('Background cleanup failed for presence:', error);
+    });
 
     const body = await request.json();
     const boardWidth = body.boardWidth ?? 19;
@@ -22,6 +30,10 @@ export async function POST(request: NextRequest) {
     const stonesPerPlayer = body.stonesPerPlayer ?? null; // null means auto-calculate
     const pakitaMode = body.pakitaMode ?? false;
     const customHues = body.customHues ?? null;
+    const superko = body.superko ?? 'positional';
+    const ruleset = body.ruleset ?? 'japanese';
+    const topology = body.topology ?? 'flat';
+    const botSeats = body.botSeats ?? [];
 
     // Validate board dimensions type
     if (typeof boardWidth !== 'number' || !Number.isInteger(boardWidth) ||
@@ -56,6 +68,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate superko rule
+    if (!isSuperkoRule(superko)) {
+      return NextResponse.json(
+        { error: 'Invalid superko rule. Must be positional or situational.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate ruleset
+    if (!isRuleset(ruleset)) {
+      return NextResponse.json(
+        { error: 'Invalid ruleset. Must be japanese, chinese, or aga.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate board topology
+    if (!isTopology(topology)) {
+      return NextResponse.json(
+        { error: 'Invalid topology. Must be flat, cylinder, or torus.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate bot seats (colours the computer plays)
+    const validSeats = validBotSeats(botSeats, playerCount);
+    if (!validSeats) {
+      return NextResponse.json(
+        { error: `Invalid bot seats. Must be distinct colours 0-${playerCount - 1}.` },
+        { status: 400 }
+      );
+    }
+
+    // Validate custom hues (colour -> hue offset)
+    const validHues = customHues === null ? null : validCustomHues(customHues, playerCount);
+    if (customHues !== null && !validHues) {
+      return NextResponse.json(
+        { error: `Invalid custom hues. Must map colours 0-${playerCount - 1} to hue offsets -${MAX_HUE_OFFSET} to ${MAX_HUE_OFFSET}.` },
+        { status: 400 }
+      );
+    }
+
     // Generate key pair for authentication
     const keyPair = await generateKeyPair();
     const gameId = await generateGameId(keyPair.publicKey);
@@ -70,14 +124,21 @@ export async function POST(request: NextRequest) {
       publicKey: keyPair.publicKey,
       boardWidth,
       boardHeight,
+      topology,
       playerCount,
       boardState: emptyBoard,
       stonePots,
       pakitaMode,
-      customHues,
+      customHues: validHues,
+      superko,
+      ruleset,
+      botSeats: validSeats,
       connectedUsers: 0,
     });
 
+    // A bot in the first seat opens straight away
+    await playBotSeats('wilde', gameId);
+
     // Return game info with private key (only shown once!)
     return NextResponse.json({
       gameId,
@@ -85,8 +146,12 @@ export async function POST(request: NextRequest) {
       privateKey: keyPair.privateKey,
       boardWidth,
       boardHeight,
+      topology,
       playerCount,
       pakitaMode,
+      superko,
+      ruleset,
+      botSeats: validSeats,
     });
   } catch (error) {
     console.error('Error creating Wilde game:', error);
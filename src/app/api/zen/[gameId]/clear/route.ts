@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { zenGames, zenActions } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { verifyKeyPair } from '@/lib/crypto/keys';
-
-// Calculate initial pot count: boardSize * boardSize + 1
-function getInitialPotCount(boardSize: number): number {
-  return boardSize * boardSize + 1;
-}
+import { getZenPotCount } from '@/lib/game/variants';
+import { jsonWithUpdate } from '@/lib/realtime';
+import { invalidExpectedMoveNumber, isBehind, moveConflict } from '@/lib/moveConflicts';
+import { GET as getGame } from '../route';
 
 // POST /api/zen/[gameId]/clear - Clear the board
 export async function POST(
@@ -23,6 +22,9 @@ export async function POST(
       return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
     }
 
+    const invalidExpected = invalidExpectedMoveNumber(body);
+    if (invalidExpected) return invalidExpected;
+
     const game = await db
       .select()
       .from(zenGames)
@@ -38,15 +40,16 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
     }
 
+    // A clear made on a position the game has since left is refused
+    if (isBehind(body, game[0].moveNumber)) return moveConflict(await getGame(request, { params }), body);
+
     const boardSize = game[0].boardSize;
     const emptyBoard = Array(boardSize).fill(null).map(() => Array(boardSize).fill(null));
-    const initialPotCount = getInitialPotCount(boardSize);
-
-    // Delete all actions for this game
-    await db.delete(zenActions).where(eq(zenActions.gameId, gameId));
+    const initialPotCount = getZenPotCount(boardSize);
+    const moveNumber = game[0].moveNumber + 1;
 
     // Reset the board
-    await db.update(zenGames).set({
+    const updated = await db.update(zenGames).set({
       boardState: emptyBoard,
       sharedPotCount: initialPotCount,
       nextStoneColor: 0, // Reset to black first
@@ -57,12 +60,18 @@ export async function POST(
       lastMoveY: null,
       koPointX: null,
       koPointY: null,
+      positionHashes: [],
       currentTurn: 0,
-      moveNumber: 0,
+      moveNumber,
       updatedAt: new Date(),
-    }).where(eq(zenGames.id, gameId));
+    }).where(and(eq(zenGames.id, gameId), eq(zenGames.moveNumber, game[0].moveNumber)))
+      .returning({ id: zenGames.id });
+    if (updated.length === 0) return moveConflict(await getGame(request, { params }), body);
+
+    // Delete all actions for this game
+    await db.delete(zenActions).where(eq(zenActions.gameId, gameId));
 
-    return NextResponse.json({
+    return jsonWithUpdate('zen', gameId, 'clear', {
       success: true,
       boardState: emptyBoard,
       sharedPotCount: initialPotCount,
@@ -75,7 +84,7 @@ export async function POST(
       koPointX: null,
       koPointY: null,
       currentTurn: 0,
-      moveNumber: 0,
+      moveNumber,
     });
   } catch (error) {
     console.error('Error clearing board:', error);
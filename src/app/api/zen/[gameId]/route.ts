@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { zenGames } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { conditionalGameGet, withGameETag } from '@/lib/gameVersions';
+import { connectedUsers } from '@/lib/presence';
 
 // GET /api/zen/[gameId] - Get Zen Go board state
+// Query: waitFor=<moveNumber>&timeout=<seconds> holds the request until the game changes
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
@@ -11,18 +14,16 @@ export async function GET(
   try {
     const { gameId } = await params;
 
-    const game = await db
+    const read = await conditionalGameGet('zen', request, gameId, () => db
       .select()
       .from(zenGames)
       .where(eq(zenGames.id, gameId))
-      .limit(1);
-
-    if (game.length === 0) {
-      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
-    }
+      .limit(1));
+    if (read instanceof NextResponse) return read;
+    const { game, presence } = read;
 
     // Return board state
-    return NextResponse.json({
+    return withGameETag(NextResponse.json({
       id: game[0].id,
       boardSize: game[0].boardSize,
       boardState: game[0].boardState,
@@ -36,11 +37,14 @@ export async function GET(
       lastMoveY: game[0].lastMoveY,
       koPointX: game[0].koPointX,
       koPointY: game[0].koPointY,
+      superko: game[0].superko,
+      ruleset: game[0].ruleset,
       moveNumber: game[0].moveNumber,
-      connectedUsers: game[0].connectedUsers,
+      connectedUsers: connectedUsers(presence),
+      presence,
       publicKey: game[0].publicKey,
       updatedAt: game[0].updatedAt,
-    });
+    }), game[0], presence);
   } catch (error) {
     console.error('Error fetching zen game:', error);
     return NextResponse.json(
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { zenGames, zenActions } from '@/lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { zenLeaderboard, zenPlacers } from '@/lib/game/leaderboard';
+import { rulesetFrom } from '@/lib/game/rulesets';
+
+// GET /api/zen/[gameId]/score - Standings of the 3 players under the game's ruleset
+// Stones are credited to the player who placed them, not to their colour
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(zenGames)
+      .where(eq(zenGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const actions = await db
+      .select()
+      .from(zenActions)
+      .where(eq(zenActions.gameId, gameId))
+      .orderBy(asc(zenActions.moveNumber));
+
+    const { boardSize } = game[0];
+    const ruleset = rulesetFrom(game[0].ruleset);
+    const placers = zenPlacers(boardSize, boardSize, actions);
+    const captured = [game[0].player1Captured, game[0].player2Captured, game[0].player3Captured];
+
+    return NextResponse.json({
+      ruleset,
+      leaderboard: zenLeaderboard(game[0].boardState, placers, captured, ruleset),
+    });
+  } catch (error) {
+    console.error('Error scoring zen game:', error);
+    return NextResponse.json({ error: 'Failed to score game' }, { status: 500 });
+  }
+}
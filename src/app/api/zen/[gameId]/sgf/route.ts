@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { zenGames, zenActions } from '@/lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { rulesetFrom } from '@/lib/game/rulesets';
+import { multiColorSgf } from '@/lib/game/sgfDialect';
+import { getZenPotCount } from '@/lib/game/variants';
+import { superkoFrom } from '@/lib/game/zobrist';
+
+// GET /api/zen/[gameId]/sgf - Download the game record in the multi-colour SGF dialect
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const { gameId } = await params;
+
+    const game = await db
+      .select()
+      .from(zenGames)
+      .where(eq(zenGames.id, gameId))
+      .limit(1);
+
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const gameActions = await db
+      .select()
+      .from(zenActions)
+      .where(eq(zenActions.gameId, gameId))
+      .orderBy(asc(zenActions.moveNumber));
+
+    const { boardSize } = game[0];
+    const sgf = multiColorSgf({
+      variant: 'zen',
+      width: boardSize,
+      height: boardSize,
+      playerCount: 3,
+      startingPots: [getZenPotCount(boardSize)],
+      superko: superkoFrom(game[0].superko),
+      ruleset: rulesetFrom(game[0].ruleset),
+      createdAt: game[0].createdAt,
+    }, gameActions);
+
+    return new NextResponse(sgf, {
+      headers: {
+        'Content-Type': 'application/x-go-sgf; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${gameId}.sgf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting SGF:', error);
+    return NextResponse.json(
+      { error: 'Failed to export game' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,11 @@ import { db } from '@/lib/db';
 import { zenGames } from '@/lib/db/schema';
 import { generateKeyPair, generateGameId } from '@/lib/crypto/keys';
 import { createEmptyBoard } from '@/lib/game/logic';
+import { getZenPotCount } from '@/lib/game/variants';
 import { lt } from 'drizzle-orm';
-
-// Calculate initial pot count: boardSize * boardSize + 1
-function getInitialPotCount(boardSize: number): number {
-  return boardSize * boardSize + 1;
-}
+import { isSuperkoRule } from '@/lib/game/zobrist';
+import { isRuleset } from '@/lib/game/rulesets';
+import { pruneStalePresence } from '@/lib/presence';
 
 // POST /api/zen - Create a new 3-player Zen Go board
 export async function POST(request: NextRequest) {
@@ -19,9 +18,14 @@ export async function POST(request: NextRequest) {
     db.delete(zenGames).where(lt(zenGames.createdAt, oneYearAgo)).catch((error) => {
       console.error('Background cleanup failed for zen games:', error);
     });
+    pruneStalePresence().catch((error) => {
+      console.error('Background cleanup failed for presence:', error);
+    });
 
     const body = await request.json();
     const boardSize = body.boardSize ?? 19;
+    const superko = body.superko ?? 'positional';
+    const ruleset = body.ruleset ?? 'japanese';
 
     // Validate board size type and value
     if (typeof boardSize !== 'number' || !Number.isInteger(boardSize)) {
@@ -38,13 +42,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate superko rule
+    if (!isSuperkoRule(superko)) {
+      return NextResponse.json(
+        { error: 'Invalid superko rule. Must be positional or situational.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate ruleset
+    if (!isRuleset(ruleset)) {
+      return NextResponse.json(
+        { error: 'Invalid ruleset. Must be japanese, chinese, or aga.' },
+        { status: 400 }
+      );
+    }
+
     // Generate key pair for authentication
     const keyPair = await generateKeyPair();
     const gameId = await generateGameId(keyPair.publicKey);
 
     // Create empty board
     const emptyBoard = createEmptyBoard(boardSize);
-    const initialPotCount = getInitialPotCount(boardSize);
+    const initialPotCount = getZenPotCount(boardSize);
 
     // Insert game into database
     await db.insert(zenGames).values({
@@ -54,6 +74,8 @@ export async function POST(request: NextRequest) {
       boardState: emptyBoard,
       sharedPotCount: initialPotCount,
       nextStoneColor: 0, // First stone is black
+      superko,
+      ruleset,
       connectedUsers: 0,
     });
 
@@ -63,6 +85,8 @@ export async function POST(request: NextRequest) {
       publicKey: keyPair.publicKey,
       privateKey: keyPair.privateKey,
       boardSize,
+      superko,
+      ruleset,
     });
   } catch (error) {
     console.error('Error creating zen game:', error);
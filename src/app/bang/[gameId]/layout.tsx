@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import { gamePreviewMetadata } from '@/lib/gamePreviews';
+
+interface BangGameLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ gameId: string }>;
+}
+
+// Per-game title and description with the live move and turn (the page itself is a client component)
+export async function generateMetadata({ params }: BangGameLayoutProps): Promise<Metadata> {
+  const { gameId } = await params;
+  return gamePreviewMetadata('bang', gameId);
+}
+
+export default function BangGameLayout({ children }: BangGameLayoutProps) {
+  return children;
+}
@@ -6,6 +6,8 @@ import GoBoard, { HeldStone } from '@/components/GoBoard';
 import StonePot from '@/components/StonePot';
 import { useDeviceType } from '@/hooks/useDeviceType';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
+import { useGameUpdates } from '@/hooks/useGameUpdates';
+import { usePresence } from '@/hooks/usePresence';
 import type { Board, Position, Stone } from '@/lib/game/logic';
 import { createEmptyBoard, detectAndRemoveCaptures, wouldBeSuicide } from '@/lib/game/logic';
 
@@ -72,6 +74,11 @@ interface GameData {
   updatedAt: string;
 }
 
+// Skip polling and live updates for 3s after an action (the optimistic board is authoritative)
+const ACTION_COOLDOWN_MS = 3000;
+// While live updates are connected, polling is only a safety net
+const LIVE_POLL_MS = 30000;
+
 export default function BangGamePage({ params }: { params: Promise<{ gameId: string }> }) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -202,6 +209,21 @@ export default function BangGamePage({ params }: { params: Promise<{ gameId: str
     }
   }, [gameId, hasCheckedUrl, urlKey, fetchGame]);
 
+  // Moves by other players as they happen, merged into the board
+  const liveUpdates = useGameUpdates<GameData>('bang', gameId, {
+    enabled: !!privateKey,
+    apply: state => {
+      setGame(prev => (prev ? { ...prev, ...state } : prev));
+      if (typeof state.updatedAt === 'string') setLastUpdate(state.updatedAt);
+    },
+    refetch: () => {
+      if (gameId) fetchGame(gameId, true);
+    },
+    lastActionTime,
+    cooldownMs: ACTION_COOLDOWN_MS,
+  });
+  usePresence('bang', gameId, privateKey); // A shared board has no seats, so no colour is reported
+
   // Poll for updates
   useEffect(() => {
     if (!game || !privateKey || !gameId) return;
@@ -209,30 +231,34 @@ export default function BangGamePage({ params }: { params: Promise<{ gameId: str
     let interval: NodeJS.Timeout;
     const ACTIVE_POLL_MS = 3000;
     const HIDDEN_POLL_MS = 10000;
-    const ACTION_COOLDOWN_MS = 3000;
 
     const pollIfReady = () => {
       if (Date.now() - lastActionTime.current < ACTION_COOLDOWN_MS) return;
       fetchGame(gameId);
     };
 
+    const pollInterval = () => {
+      if (liveUpdates) return LIVE_POLL_MS;
+      return document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS;
+    };
+
     const startPolling = (ms: number) => {
       clearInterval(interval);
       interval = setInterval(pollIfReady, ms);
     };
 
     const handleVisibility = () => {
-      startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+      startPolling(pollInterval());
     };
 
-    startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+    startPolling(pollInterval());
     document.addEventListener('visibilitychange', handleVisibility);
 
     return () => {
       clearInterval(interval);
       document.removeEventListener('visibilitychange', handleVisibility);
     };
-  }, [game, privateKey, gameId, fetchGame]);
+  }, [game, privateKey, gameId, fetchGame, liveUpdates]);
 
   // Generate a random path along grid lines for drone
   const generateDronePath = useCallback((targetX: number, targetY: number, boardSize: number): Position[] => {
@@ -405,10 +431,13 @@ export default function BangGamePage({ params }: { params: Promise<{ gameId: str
           privateKey,
           actionType,
           ...options,
+          expectedMoveNumber: game.moveNumber,
         }),
       });
 
       if (!res.ok) {
+        const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         return { success: false, explosion: false };
       }
 
@@ -436,6 +465,7 @@ export default function BangGamePage({ params }: { params: Promise<{ gameId: str
         lastDroneTargetX: data.lastDroneTargetX,
         lastDroneTargetY: data.lastDroneTargetY,
         currentTurn: data.currentTurn,
+        moveNumber: data.moveNumber,
       } : null);
 
       // Show temporary explosion animation if triggered
@@ -779,9 +809,11 @@ export default function BangGamePage({ params }: { params: Promise<{ gameId: str
       const res = await fetch(`/api/bang/${gameId}/clear`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
+        const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         return;
       }
       const data = await res.json();
@@ -804,6 +836,7 @@ export default function BangGamePage({ params }: { params: Promise<{ gameId: str
         koPointX: data.koPointX,
         koPointY: data.koPointY,
         currentTurn: data.currentTurn,
+        moveNumber: data.moveNumber,
       } : null);
       setHeldStone(null);
     } catch (err) {
@@ -821,9 +854,13 @@ export default function BangGamePage({ params }: { params: Promise<{ gameId: str
       const res = await fetch(`/api/bang/${gameId}/undo`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
-      if (!res.ok) return;
+      if (!res.ok) {
+        const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
+        return;
+      }
       const data = await res.json();
       lastOptimisticUpdate.current = Date.now();
       setGame(prev => prev ? {
@@ -848,6 +885,7 @@ export default function BangGamePage({ params }: { params: Promise<{ gameId: str
         koPointX: data.koPointX,
         koPointY: data.koPointY,
         currentTurn: data.currentTurn,
+        moveNumber: data.moveNumber,
       } : null);
       setHeldStone(null);
     } catch (err) {
@@ -3,13 +3,19 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useDeviceType } from '@/hooks/useDeviceType';
+import { BOT_STRENGTHS, DEFAULT_BOT_PLAYOUTS } from '@/lib/game/bot';
 
 export default function Home() {
   const router = useRouter();
   const deviceType = useDeviceType();
   const isTablet = deviceType === 'tablet';
   const [boardSize, setBoardSize] = useState<9 | 13 | 19>(13);
+  const [handicap, setHandicap] = useState(0);
+  const [botColor, setBotColor] = useState<0 | 1 | null>(null);
+  const [botPlayouts, setBotPlayouts] = useState(DEFAULT_BOT_PLAYOUTS);
   const [isCreating, setIsCreating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
   const [boardUrl, setBoardUrl] = useState('');
   const [isJoining, setIsJoining] = useState(false);
   const [gameCount, setGameCount] = useState<number | null>(null);
@@ -28,7 +34,7 @@ export default function Home() {
       const res = await fetch('/api/games', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ boardSize }),
+        body: JSON.stringify({ boardSize, handicap, botColor, botPlayouts }),
       });
 
       if (!res.ok) {
@@ -49,6 +55,34 @@ export default function Home() {
     }
   };
 
+  // Continue or review a game from an SGF file
+  const importGame = async (file: File) => {
+    setIsImporting(true);
+    setImportError(null);
+
+    try {
+      const res = await fetch('/api/games/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-go-sgf' },
+        body: await file.text(),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        setImportError(data.error || 'Failed to import game');
+        return;
+      }
+
+      localStorage.setItem(`game_${data.gameId}_privateKey`, data.privateKey);
+      router.push(`/game/${data.gameId}?key=${encodeURIComponent(data.privateKey)}`);
+    } catch (err) {
+      console.error(err);
+      setImportError('Failed to import game');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const joinGame = async () => {
     if (!boardUrl.trim()) {
       return;
@@ -128,6 +162,49 @@ export default function Home() {
               ))}
             </div>
 
+            {/* Handicap - Black's stones go on the star points and White moves first */}
+            <div className="flex items-center gap-3 mb-4">
+              <label htmlFor="handicap" className="font-bold text-black">Handicap</label>
+              <select
+                id="handicap"
+                value={handicap}
+                onChange={(e) => setHandicap(Number(e.target.value))}
+                className="flex-1 py-2 px-3 rounded-lg font-bold bg-black text-white"
+              >
+                <option value={0}>None</option>
+                {[2, 3, 4, 5, 6, 7, 8, 9].map((stones) => (
+                  <option key={stones} value={stones}>{stones} stones</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Opponent - a shared board for people, or a computer seat playing one colour */}
+            <div className="flex items-center gap-3 mb-4">
+              <label htmlFor="opponent" className="font-bold text-black">Opponent</label>
+              <select
+                id="opponent"
+                value={botColor ?? ''}
+                onChange={(e) => setBotColor(e.target.value === '' ? null : (Number(e.target.value) as 0 | 1))}
+                className="flex-1 py-2 px-3 rounded-lg font-bold bg-black text-white"
+              >
+                <option value="">People</option>
+                <option value={1}>Computer plays White</option>
+                <option value={0}>Computer plays Black</option>
+              </select>
+              {botColor !== null && (
+                <select
+                  aria-label="Computer strength"
+                  value={botPlayouts}
+                  onChange={(e) => setBotPlayouts(Number(e.target.value))}
+                  className="py-2 px-3 rounded-lg font-bold bg-black text-white"
+                >
+                  {BOT_STRENGTHS.map(({ label, playouts }) => (
+                    <option key={playouts} value={playouts}>{label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
             {/* Create Board Button */}
             <button
               onClick={createGame}
@@ -137,6 +214,25 @@ export default function Home() {
               {isCreating ? 'Creating...' : 'Create Board'}
             </button>
 
+            {/* Import SGF */}
+            <label className={`block w-full mt-3 py-3 text-center bg-white text-black rounded-lg font-semibold hover:bg-zinc-100 transition-colors ${isImporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+              {isImporting ? 'Importing...' : 'Import SGF'}
+              <input
+                type="file"
+                accept=".sgf,application/x-go-sgf"
+                className="hidden"
+                disabled={isImporting}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importGame(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {importError && (
+              <p className="mt-2 text-sm font-semibold text-red-700">{importError}</p>
+            )}
+
           </div>
         </div>
 
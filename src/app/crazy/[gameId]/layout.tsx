@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import { gamePreviewMetadata } from '@/lib/gamePreviews';
+
+interface CrazyGameLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ gameId: string }>;
+}
+
+// Per-game title and description with the live move and turn (the page itself is a client component)
+export async function generateMetadata({ params }: CrazyGameLayoutProps): Promise<Metadata> {
+  const { gameId } = await params;
+  return gamePreviewMetadata('crazy', gameId);
+}
+
+export default function CrazyGameLayout({ children }: CrazyGameLayoutProps) {
+  return children;
+}
@@ -0,0 +1,10 @@
+import { gamePreviewImage, PREVIEW_SIZE } from '@/lib/gamePreviews';
+
+export const alt = 'Current board of a Crazy Go game on Goban Web';
+export const size = PREVIEW_SIZE;
+export const contentType = 'image/png';
+
+export default async function Image({ params }: { params: Promise<{ gameId: string }> }) {
+  const { gameId } = await params;
+  return gamePreviewImage('crazy', gameId);
+}
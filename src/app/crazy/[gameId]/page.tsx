@@ -6,6 +6,9 @@ import CrazyGoBoard, { CrazyHeldStone } from '@/components/CrazyGoBoard';
 import CrazyStonePot from '@/components/CrazyStonePot';
 import { useDeviceType } from '@/hooks/useDeviceType';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
+import { useLegalMoves } from '@/hooks/useLegalMoves';
+import { useGameUpdates } from '@/hooks/useGameUpdates';
+import { usePresence } from '@/hooks/usePresence';
 
 type CrazyStone = 0 | 1 | 2 | 3 | null;
 type CrazyBoard = CrazyStone[][];
@@ -178,6 +181,11 @@ function wouldBeSuicide(board: CrazyBoard, x: number, y: number, color: CrazySto
   return countLiberties(placedGroup) === 0;
 }
 
+// Skip polling and live updates for 3s after an action (the optimistic board is authoritative)
+const ACTION_COOLDOWN_MS = 3000;
+// While live updates are connected, polling is only a safety net
+const LIVE_POLL_MS = 30000;
+
 export default function CrazyGamePage({ params }: { params: Promise<{ gameId: string }> }) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -206,6 +214,8 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
   const [keyInput, setKeyInput] = useState('');
   const [copied, setCopied] = useState(false);
   const [heldStone, setHeldStone] = useState<CrazyHeldStone | null>(null);
+  // Greys out illegal points while a stone from the pot is in hand
+  const legalMoves = useLegalMoves('crazy', gameId, heldStone && !heldStone.fromBoard ? heldStone.color : null, game?.updatedAt ?? null);
   const hasInitialized = useRef(false);
 
   // Replay state
@@ -260,6 +270,18 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
     }
   }, [gameId, hasCheckedUrl, urlKey, fetchGame]);
 
+  // Moves by other players as they happen, merged into the board
+  const liveUpdates = useGameUpdates<CrazyGameData>('crazy', gameId, {
+    enabled: !!privateKey,
+    apply: state => setGame(prev => (prev ? { ...prev, ...state } : prev)),
+    refetch: () => {
+      if (gameId) fetchGame(gameId);
+    },
+    lastActionTime,
+    cooldownMs: ACTION_COOLDOWN_MS,
+  });
+  const reportColor = usePresence('crazy', gameId, privateKey);
+
   // Poll for updates (slower when tab is hidden, skip after recent actions)
   useEffect(() => {
     if (!game || !privateKey || !gameId) return;
@@ -267,7 +289,6 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
     let interval: NodeJS.Timeout;
     const ACTIVE_POLL_MS = 3000;   // 3s when tab is visible
     const HIDDEN_POLL_MS = 10000;  // 10s when tab is hidden
-    const ACTION_COOLDOWN_MS = 3000; // Skip polling for 3s after action
 
     const pollIfReady = () => {
       // Skip polling if we recently performed an action (server response is authoritative)
@@ -275,23 +296,28 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
       fetchGame(gameId);
     };
 
+    const pollInterval = () => {
+      if (liveUpdates) return LIVE_POLL_MS;
+      return document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS;
+    };
+
     const startPolling = (ms: number) => {
       clearInterval(interval);
       interval = setInterval(pollIfReady, ms);
     };
 
     const handleVisibility = () => {
-      startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+      startPolling(pollInterval());
     };
 
-    startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+    startPolling(pollInterval());
     document.addEventListener('visibilitychange', handleVisibility);
 
     return () => {
       clearInterval(interval);
       document.removeEventListener('visibilitychange', handleVisibility);
     };
-  }, [game, privateKey, gameId, fetchGame]);
+  }, [game, privateKey, gameId, fetchGame, liveUpdates]);
 
   const performAction = async (
     actionType: 'place' | 'remove' | 'move',
@@ -312,18 +338,26 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
       const res = await fetch(`/api/crazy/${gameId}/action`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey, actionType, ...options }),
+        body: JSON.stringify({ privateKey, actionType, ...options, expectedMoveNumber: game.moveNumber }),
       });
 
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Action failed');
         setTimeout(() => setError(null), 3000);
         return false;
       }
 
+      if (options.stoneColor !== undefined) reportColor(options.stoneColor);
+
       // Don't update state from server response - optimistic update already has correct data
       // This prevents flicker from double state update. Next poll will sync if needed.
+      // The exception is bot seats replying, which the optimistic update knows nothing about.
+      const data = await res.json();
+      if (data.botMoves?.length && gameId) await fetchGame(gameId);
+      // Only the move number is taken from the response: the next action is made against it
+      setGame(prev => prev ? { ...prev, moveNumber: Math.max(prev.moveNumber, data.moveNumber) } : prev);
       return true;
     } catch (err) {
       console.error('Error performing action:', err);
@@ -777,10 +811,11 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
       const res = await fetch(`/api/crazy/${gameId}/clear`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to clear board');
         setTimeout(() => setError(null), 3000);
         return;
@@ -805,6 +840,7 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
         moveNumber: data.moveNumber,
       } : null);
       setHeldStone(null);
+      if (data.botMoves?.length) await fetchGame(gameId);
     } catch (err) {
       console.error('Error clearing board:', err);
       setError('Failed to clear board');
@@ -818,10 +854,11 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
       const res = await fetch(`/api/crazy/${gameId}/undo`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to undo');
         setTimeout(() => setError(null), 3000);
         return;
@@ -846,6 +883,7 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
         moveNumber: data.moveNumber,
       } : null);
       setHeldStone(null);
+      if (data.botMoves?.length) await fetchGame(gameId);
     } catch (err) {
       console.error('Error undoing move:', err);
       setError('Failed to undo');
@@ -947,6 +985,7 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
                 board={isReplayMode && replayBoard ? replayBoard : game.boardState}
                 size={isReplayMode ? replayBoardSize : game.boardSize}
                 heldStone={isReplayMode ? null : heldStone}
+                legalMoves={isReplayMode ? null : legalMoves}
                 lastMove={isReplayMode ? null : (game.lastMoveX !== null && game.lastMoveY !== null ? { x: game.lastMoveX, y: game.lastMoveY } : null)}
                 onBoardClick={isReplayMode ? () => {} : handleBoardClick}
                 topButtons={topButtons}
@@ -976,6 +1015,7 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
                 board={isReplayMode && replayBoard ? replayBoard : game.boardState}
                 size={isReplayMode ? replayBoardSize : game.boardSize}
                 heldStone={isReplayMode ? null : heldStone}
+                legalMoves={isReplayMode ? null : legalMoves}
                 lastMove={isReplayMode ? null : (game.lastMoveX !== null && game.lastMoveY !== null ? { x: game.lastMoveX, y: game.lastMoveY } : null)}
                 onBoardClick={isReplayMode ? () => {} : handleBoardClick}
                 topButtons={topButtons}
@@ -994,6 +1034,7 @@ export default function CrazyGamePage({ params }: { params: Promise<{ gameId: st
               board={isReplayMode && replayBoard ? replayBoard : game.boardState}
               size={isReplayMode ? replayBoardSize : game.boardSize}
               heldStone={isReplayMode ? null : heldStone}
+              legalMoves={isReplayMode ? null : legalMoves}
               lastMove={isReplayMode ? null : (game.lastMoveX !== null && game.lastMoveY !== null ? { x: game.lastMoveX, y: game.lastMoveY } : null)}
               onBoardClick={isReplayMode ? () => {} : handleBoardClick}
               topButtons={topButtons}
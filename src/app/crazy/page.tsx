@@ -6,8 +6,13 @@ import { useRouter } from 'next/navigation';
 export default function CrazyGoHome() {
   const router = useRouter();
   const [boardSize, setBoardSize] = useState<9 | 13 | 19>(13);
+  const [botSeats, setBotSeats] = useState<number[]>([]);
   const [isCreating, setIsCreating] = useState(false);
 
+  const toggleBotSeat = (seat: number) => {
+    setBotSeats(seats => seats.includes(seat) ? seats.filter(s => s !== seat) : [...seats, seat]);
+  };
+
   const createGame = async () => {
     setIsCreating(true);
 
@@ -15,7 +20,7 @@ export default function CrazyGoHome() {
       const res = await fetch('/api/crazy', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ boardSize }),
+        body: JSON.stringify({ boardSize, botSeats }),
       });
 
       if (!res.ok) {
@@ -94,6 +99,26 @@ export default function CrazyGoHome() {
               ))}
             </div>
 
+            {/* Bot Seats - colours the computer plays */}
+            <div className="mb-4">
+              <p className="text-sm font-medium text-zinc-800 mb-2">Computer plays</p>
+              <div className="flex gap-2">
+                {['Black', 'White', 'W-Cross', 'B-Cross'].map((label, seat) => (
+                  <button
+                    key={label}
+                    onClick={() => toggleBotSeat(seat)}
+                    className={`flex-1 py-2 rounded-lg text-xs font-semibold transition-all ${
+                      botSeats.includes(seat)
+                        ? 'bg-white text-black shadow-md'
+                        : 'bg-black text-white hover:bg-zinc-800'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Create Board Button */}
             <button
               onClick={createGame}
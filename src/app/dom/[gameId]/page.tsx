@@ -6,8 +6,11 @@ import GoBoard, { HeldStone } from '@/components/GoBoard';
 import StonePot from '@/components/StonePot';
 import { useDeviceType } from '@/hooks/useDeviceType';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
+import { useGameUpdates } from '@/hooks/useGameUpdates';
+import { usePresence } from '@/hooks/usePresence';
 import type { Board, Position, Stone } from '@/lib/game/logic';
-import { createEmptyBoard, detectAndRemoveCaptures, wouldBeSuicide } from '@/lib/game/logic';
+import { detectAndRemoveCaptures, wouldBeSuicide } from '@/lib/game/logic';
+import { classicStartingBoard } from '@/lib/game/variants';
 
 interface GameAction {
   id: string;
@@ -35,11 +38,18 @@ interface GameData {
   lastMoveY: number | null;
   koPointX: number | null;
   koPointY: number | null;
+  handicapStones: Position[];
+  moveNumber: number;
   connectedUsers: number;
   publicKey: string;
   updatedAt: string;
 }
 
+// Skip polling and live updates for 3s after an action (the optimistic board is authoritative)
+const ACTION_COOLDOWN_MS = 3000;
+// While live updates are connected, polling is only a safety net
+const LIVE_POLL_MS = 30000;
+
 export default function DomGamePage({ params }: { params: Promise<{ gameId: string }> }) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -145,6 +155,21 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
     }
   }, [gameId, hasCheckedUrl, urlKey, fetchGame]);
 
+  // Moves by other players as they happen, merged into the board
+  const liveUpdates = useGameUpdates<GameData>('games', gameId, {
+    enabled: !!privateKey,
+    apply: state => {
+      setGame(prev => (prev ? { ...prev, ...state } : prev));
+      if (typeof state.updatedAt === 'string') setLastUpdate(state.updatedAt);
+    },
+    refetch: () => {
+      if (gameId) fetchGame(gameId, true);
+    },
+    lastActionTime,
+    cooldownMs: ACTION_COOLDOWN_MS,
+  });
+  usePresence('games', gameId, privateKey); // A shared board has no seats, so no colour is reported
+
   // Poll for updates
   useEffect(() => {
     if (!game || !privateKey || !gameId) return;
@@ -152,30 +177,34 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
     let interval: NodeJS.Timeout;
     const ACTIVE_POLL_MS = 3000;
     const HIDDEN_POLL_MS = 10000;
-    const ACTION_COOLDOWN_MS = 3000;
 
     const pollIfReady = () => {
       if (Date.now() - lastActionTime.current < ACTION_COOLDOWN_MS) return;
       fetchGame(gameId);
     };
 
+    const pollInterval = () => {
+      if (liveUpdates) return LIVE_POLL_MS;
+      return document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS;
+    };
+
     const startPolling = (ms: number) => {
       clearInterval(interval);
       interval = setInterval(pollIfReady, ms);
     };
 
     const handleVisibility = () => {
-      startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+      startPolling(pollInterval());
     };
 
-    startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+    startPolling(pollInterval());
     document.addEventListener('visibilitychange', handleVisibility);
 
     return () => {
       clearInterval(interval);
       document.removeEventListener('visibilitychange', handleVisibility);
     };
-  }, [game, privateKey, gameId, fetchGame]);
+  }, [game, privateKey, gameId, fetchGame, liveUpdates]);
 
   // Perform action on the server
   const performAction = async (
@@ -200,16 +229,24 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
           privateKey,
           actionType,
           ...options,
+          expectedMoveNumber: game.moveNumber,
         }),
       });
 
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Action failed');
         setTimeout(() => setError(null), 3000);
         return false;
       }
 
+      // The bot seat has already answered - show its move now rather than on the next poll
+      const data = await res.json();
+      if (data.botMove && gameId) await fetchGame(gameId, true);
+      // Only the move number is taken from the response: the next action is made against it
+      setGame(prev => prev ? { ...prev, moveNumber: Math.max(prev.moveNumber, data.moveNumber) } : prev);
+
       return true;
     } catch (err) {
       console.error('Error performing action:', err);
@@ -447,8 +484,9 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
   };
 
   // Replay functions
-  const computeBoardAtStep = useCallback((actions: GameAction[], step: number, boardSize: number): { board: Board; lastMove: Position | null } => {
-    let board = createEmptyBoard(boardSize);
+  const computeBoardAtStep = useCallback((actions: GameAction[], step: number, boardSize: number, handicapStones: Position[]): { board: Board; lastMove: Position | null } => {
+    // Handicap stones are the starting position, not moves
+    let board = classicStartingBoard(boardSize, handicapStones) as Board;
     let lastMove: Position | null = null;
 
     for (let i = 0; i < step; i++) {
@@ -497,7 +535,7 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
       const data = await res.json();
       setReplayActions(data.actions);
       setReplayIndex(0);
-      setReplayBoard(createEmptyBoard(data.boardSize));
+      setReplayBoard(classicStartingBoard(data.boardSize, data.handicapStones) as Board);
       setReplayLastMove(null);
       setIsReplaying(true);
       setIsAutoPlaying(true);
@@ -526,10 +564,11 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
       const res = await fetch(`/api/games/${gameId}/clear`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to clear board');
         setTimeout(() => setError(null), 3000);
         return;
@@ -548,6 +587,7 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
         lastMoveY: data.lastMoveY,
         koPointX: data.koPointX,
         koPointY: data.koPointY,
+        moveNumber: data.moveNumber,
       } : null);
       setCurrentTurn(0); // Reset to black's turn
       setHeldStone(null);
@@ -564,10 +604,11 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
       const res = await fetch(`/api/games/${gameId}/undo`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to undo');
         setTimeout(() => setError(null), 3000);
         return;
@@ -586,6 +627,7 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
         lastMoveY: data.lastMoveY,
         koPointX: data.koPointX,
         koPointY: data.koPointY,
+        moveNumber: data.moveNumber,
       } : null);
       setCurrentTurn(prev => prev === 0 ? 1 : 0); // Toggle turn back
       setHeldStone(null);
@@ -610,7 +652,7 @@ export default function DomGamePage({ params }: { params: Promise<{ gameId: stri
             return prev;
           }
           const newIndex = prev + 1;
-          const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize);
+          const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize, game.handicapStones);
           setReplayBoard(board);
           setReplayLastMove(lastMove);
           return newIndex;
@@ -2,10 +2,14 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { BOT_STRENGTHS, DEFAULT_BOT_PLAYOUTS } from '@/lib/game/bot';
 
 export default function DomGoHome() {
   const router = useRouter();
   const [boardSize, setBoardSize] = useState<9 | 13 | 19>(13);
+  const [handicap, setHandicap] = useState(0);
+  const [botColor, setBotColor] = useState<0 | 1 | null>(null);
+  const [botPlayouts, setBotPlayouts] = useState(DEFAULT_BOT_PLAYOUTS);
   const [isCreating, setIsCreating] = useState(false);
 
   // Airbnb colors
@@ -19,7 +23,7 @@ export default function DomGoHome() {
       const res = await fetch('/api/games', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ boardSize }),
+        body: JSON.stringify({ boardSize, handicap, botColor, botPlayouts }),
       });
 
       if (!res.ok) {
@@ -98,6 +102,52 @@ export default function DomGoHome() {
               ))}
             </div>
 
+            {/* Handicap - Red's stones go on the star points and White moves first */}
+            <div className="flex items-center gap-3 mb-6">
+              <label htmlFor="handicap" className="font-semibold" style={{ color: airbnbDark }}>Handicap</label>
+              <select
+                id="handicap"
+                value={handicap}
+                onChange={(e) => setHandicap(Number(e.target.value))}
+                className="flex-1 py-2 px-3 rounded-lg font-semibold bg-white border-2"
+                style={{ borderColor: '#DDDDDD', color: airbnbDark }}
+              >
+                <option value={0}>None</option>
+                {[2, 3, 4, 5, 6, 7, 8, 9].map((stones) => (
+                  <option key={stones} value={stones}>{stones} stones</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Opponent - a shared board for people, or a computer seat playing one colour */}
+            <div className="flex items-center gap-3 mb-6">
+              <label htmlFor="opponent" className="font-semibold" style={{ color: airbnbDark }}>Opponent</label>
+              <select
+                id="opponent"
+                value={botColor ?? ''}
+                onChange={(e) => setBotColor(e.target.value === '' ? null : (Number(e.target.value) as 0 | 1))}
+                className="flex-1 py-2 px-3 rounded-lg font-semibold bg-white border-2"
+                style={{ borderColor: '#DDDDDD', color: airbnbDark }}
+              >
+                <option value="">People</option>
+                <option value={1}>Computer plays White</option>
+                <option value={0}>Computer plays Red</option>
+              </select>
+              {botColor !== null && (
+                <select
+                  aria-label="Computer strength"
+                  value={botPlayouts}
+                  onChange={(e) => setBotPlayouts(Number(e.target.value))}
+                  className="py-2 px-3 rounded-lg font-semibold bg-white border-2"
+                  style={{ borderColor: '#DDDDDD', color: airbnbDark }}
+                >
+                  {BOT_STRENGTHS.map(({ label, playouts }) => (
+                    <option key={playouts} value={playouts}>{label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
             {/* Create Board Button - Airbnb style */}
             <button
               onClick={createGame}
@@ -6,13 +6,18 @@ import GoBoard, { HeldStone } from '@/components/GoBoard';
 import StonePot from '@/components/StonePot';
 import { useDeviceType } from '@/hooks/useDeviceType';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
+import { useLegalMoves } from '@/hooks/useLegalMoves';
+import { useGameUpdates } from '@/hooks/useGameUpdates';
+import { usePresence } from '@/hooks/usePresence';
 import type { Board, Position, Stone } from '@/lib/game/logic';
-import { createEmptyBoard, detectAndRemoveCaptures, wouldBeSuicide } from '@/lib/game/logic';
+import { detectAndRemoveCaptures, wouldBeSuicide } from '@/lib/game/logic';
+import { classicStartingBoard } from '@/lib/game/variants';
+import { describeResult, type GameStatus, type ScoreBreakdown } from '@/lib/game/result';
 
 interface GameAction {
   id: string;
   gameId: string;
-  actionType: 'place' | 'remove' | 'move';
+  actionType: 'place' | 'remove' | 'move' | 'pass' | 'resign';
   stoneColor: number | null;
   fromX: number | null;
   fromY: number | null;
@@ -35,11 +40,23 @@ interface GameData {
   lastMoveY: number | null;
   koPointX: number | null;
   koPointY: number | null;
+  handicapStones: Position[];
+  status: GameStatus;
+  result: string | null;
+  consecutivePasses: number;
+  moveNumber: number;
+  deadStones: Position[];
+  scoreAcceptedBy: number[];
   connectedUsers: number;
   publicKey: string;
   updatedAt: string;
 }
 
+// Skip polling and live updates for 3s after an action (the optimistic board is authoritative)
+const ACTION_COOLDOWN_MS = 3000;
+// While live updates are connected, polling is only a safety net
+const LIVE_POLL_MS = 30000;
+
 export default function GamePage({ params }: { params: Promise<{ gameId: string }> }) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -73,8 +90,10 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
   const [copied, setCopied] = useState(false);
   const [heldStone, setHeldStone] = useState<HeldStone | null>(null);
   const [lastPass, setLastPass] = useState<'left' | 'right' | null>(null);
-  const [gameEnded, setGameEnded] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<string | null>(null);
+  // Greys out illegal points while a stone from the pot is in hand
+  const legalMoves = useLegalMoves('games', gameId, heldStone && !heldStone.fromBoard ? heldStone.color : null, lastUpdate);
+  const [score, setScore] = useState<ScoreBreakdown | null>(null);
   const hasInitialized = useRef(false);
 
   // Replay state
@@ -154,6 +173,21 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
     }
   }, [gameId, hasCheckedUrl, urlKey, fetchGame]);
 
+  // Moves by other players as they happen, merged into the board
+  const liveUpdates = useGameUpdates<GameData>('games', gameId, {
+    enabled: !!privateKey,
+    apply: state => {
+      setGame(prev => (prev ? { ...prev, ...state } : prev));
+      if (typeof state.updatedAt === 'string') setLastUpdate(state.updatedAt);
+    },
+    refetch: () => {
+      if (gameId) fetchGame(gameId, true);
+    },
+    lastActionTime,
+    cooldownMs: ACTION_COOLDOWN_MS,
+  });
+  usePresence('games', gameId, privateKey); // A shared board has no seats, so no colour is reported
+
   // Poll for updates (slower when tab is hidden, skip after recent actions)
   useEffect(() => {
     if (!game || !privateKey || !gameId) return;
@@ -161,7 +195,6 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
     let interval: NodeJS.Timeout;
     const ACTIVE_POLL_MS = 3000;   // 3s when tab is visible
     const HIDDEN_POLL_MS = 10000;  // 10s when tab is hidden
-    const ACTION_COOLDOWN_MS = 3000; // Skip polling for 3s after action
 
     const pollIfReady = () => {
       // Skip polling if we recently performed an action (server response is authoritative)
@@ -169,27 +202,70 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
       fetchGame(gameId);
     };
 
+    const pollInterval = () => {
+      if (liveUpdates) return LIVE_POLL_MS;
+      return document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS;
+    };
+
     const startPolling = (ms: number) => {
       clearInterval(interval);
       interval = setInterval(pollIfReady, ms);
     };
 
     const handleVisibility = () => {
-      startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+      startPolling(pollInterval());
     };
 
-    startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+    startPolling(pollInterval());
     document.addEventListener('visibilitychange', handleVisibility);
 
     return () => {
       clearInterval(interval);
       document.removeEventListener('visibilitychange', handleVisibility);
     };
-  }, [game, privateKey, gameId, fetchGame]);
+  }, [game, privateKey, gameId, fetchGame, liveUpdates]);
+
+  // Keep the live score in step with the dead stones while the game is being scored
+  const isScoring = game?.status === 'scoring';
+  useEffect(() => {
+    if (!gameId || !isScoring) return;
+    fetch(`/api/games/${gameId}/score`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setScore(data?.score ?? null))
+      .catch(err => console.error('Error fetching score:', err));
+  }, [gameId, isScoring, lastUpdate]);
+
+  // Scoring phase actions: mark a group dead or alive, accept the marking, or resume play
+  const performScoring = async (
+    action: 'toggle_dead' | 'accept' | 'resume',
+    options: { x?: number; y?: number; stoneColor?: 0 | 1 }
+  ) => {
+    if (!privateKey || !gameId) return;
+    try {
+      const res = await fetch(`/api/games/${gameId}/score`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ privateKey, action, ...options, expectedMoveNumber: game?.moveNumber }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
+        setError(data.error || 'Scoring failed');
+        setTimeout(() => setError(null), 3000);
+        return;
+      }
+      setScore(data.score);
+      await fetchGame(gameId, true);
+    } catch (err) {
+      console.error('Error scoring game:', err);
+      setError('Scoring failed');
+      setTimeout(() => setError(null), 3000);
+    }
+  };
 
   // Perform action on the server
   const performAction = async (
-    actionType: 'place' | 'remove' | 'move',
+    actionType: 'place' | 'remove' | 'move' | 'pass' | 'resign',
     options: {
       stoneColor?: 0 | 1;
       fromX?: number;
@@ -216,11 +292,13 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
           privateKey,
           actionType,
           ...options,
+          expectedMoveNumber: game.moveNumber,
         }),
       });
 
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Action failed');
         setTimeout(() => setError(null), 3000);
         return false;
@@ -228,6 +306,11 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
 
       // Don't update state from server response - optimistic update already has correct data
       // This prevents flicker from double state update. Next poll will sync if needed.
+      // The exception is a bot seat's reply, which the optimistic update knows nothing about.
+      const data = await res.json();
+      if (data.botMove && gameId) await fetchGame(gameId, true);
+      // Only the move number is taken from the response: the next action is made against it
+      setGame(prev => prev ? { ...prev, moveNumber: Math.max(prev.moveNumber, data.moveNumber) } : prev);
       return true;
     } catch (err) {
       console.error('Error performing action:', err);
@@ -239,6 +322,7 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
 
   // Handle clicking on a stone pot
   const handlePotClick = (color: 0 | 1) => {
+    if (game?.status !== 'playing') return;
     if (heldStone) {
       // If holding a stone of this color, return it to pot
       if (heldStone.color === color) {
@@ -266,9 +350,17 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
   // Handle clicking on the board
   const handleBoardClick = (pos: Position) => {
     if (!game) return;
+    // The board is locked once the game is over
+    if (game.status === 'finished') return;
 
     const stoneAtPos = game.boardState[pos.y][pos.x];
 
+    // While scoring, clicking a stone marks its whole group dead (or alive again)
+    if (game.status === 'scoring') {
+      if (stoneAtPos !== null) performScoring('toggle_dead', { x: pos.x, y: pos.y });
+      return;
+    }
+
     if (heldStone) {
       // Holding a stone - try to place it
       if (stoneAtPos === null) {
@@ -442,8 +534,9 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
   };
 
   // Replay functions
-  const computeBoardAtStep = useCallback((actions: GameAction[], step: number, boardSize: number): { board: Board; lastMove: Position | null } => {
-    let board = createEmptyBoard(boardSize);
+  const computeBoardAtStep = useCallback((actions: GameAction[], step: number, boardSize: number, handicapStones: Position[]): { board: Board; lastMove: Position | null } => {
+    // Handicap stones are the starting position, not moves
+    let board = classicStartingBoard(boardSize, handicapStones) as Board;
     let lastMove: Position | null = null;
 
     for (let i = 0; i < step; i++) {
@@ -493,7 +586,7 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
       const data = await res.json();
       setReplayActions(data.actions);
       setReplayIndex(0);
-      setReplayBoard(createEmptyBoard(data.boardSize));
+      setReplayBoard(classicStartingBoard(data.boardSize, data.handicapStones) as Board);
       setReplayLastMove(null);
       setIsReplaying(true);
       setIsAutoPlaying(true); // Auto-start playing
@@ -520,7 +613,7 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
     if (replayIndex < replayActions.length && game) {
       const newIndex = replayIndex + 1;
       setReplayIndex(newIndex);
-      const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize);
+      const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize, game.handicapStones);
       setReplayBoard(board);
       setReplayLastMove(lastMove);
     }
@@ -530,7 +623,7 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
     if (replayIndex > 0 && game) {
       const newIndex = replayIndex - 1;
       setReplayIndex(newIndex);
-      const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize);
+      const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize, game.handicapStones);
       setReplayBoard(board);
       setReplayLastMove(lastMove);
     }
@@ -539,7 +632,7 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
   const replayGoToStart = () => {
     if (game) {
       setReplayIndex(0);
-      setReplayBoard(createEmptyBoard(game.boardSize));
+      setReplayBoard(classicStartingBoard(game.boardSize, game.handicapStones) as Board);
       setReplayLastMove(null);
     }
   };
@@ -548,7 +641,7 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
     if (game) {
       const newIndex = replayActions.length;
       setReplayIndex(newIndex);
-      const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize);
+      const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize, game.handicapStones);
       setReplayBoard(board);
       setReplayLastMove(lastMove);
     }
@@ -572,10 +665,11 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
       const res = await fetch(`/api/games/${gameId}/clear`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to clear board');
         setTimeout(() => setError(null), 3000);
         return;
@@ -594,10 +688,15 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
         lastMoveY: data.lastMoveY,
         koPointX: data.koPointX,
         koPointY: data.koPointY,
+        moveNumber: data.moveNumber,
+        status: data.status,
+        result: data.result,
+        consecutivePasses: data.consecutivePasses,
+        deadStones: data.deadStones,
+        scoreAcceptedBy: data.scoreAcceptedBy,
       } : null);
       setHeldStone(null);
       setLastPass(null);
-      setGameEnded(false);
     } catch (err) {
       console.error('Error clearing board:', err);
       setError('Failed to clear board');
@@ -611,10 +710,11 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
       const res = await fetch(`/api/games/${gameId}/undo`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to undo');
         setTimeout(() => setError(null), 3000);
         return;
@@ -633,6 +733,12 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
         lastMoveY: data.lastMoveY,
         koPointX: data.koPointX,
         koPointY: data.koPointY,
+        moveNumber: data.moveNumber,
+        status: data.status,
+        result: data.result,
+        consecutivePasses: data.consecutivePasses,
+        deadStones: data.deadStones,
+        scoreAcceptedBy: data.scoreAcceptedBy,
       } : null);
       setHeldStone(null);
     } catch (err) {
@@ -657,7 +763,7 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
             return prev;
           }
           const newIndex = prev + 1;
-          const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize);
+          const { board, lastMove } = computeBoardAtStep(replayActions, newIndex, game.boardSize, game.handicapStones);
           setReplayBoard(board);
           setReplayLastMove(lastMove);
           return newIndex;
@@ -736,36 +842,88 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
 
   if (!game) return null;
 
-  // Handle pass button click
-  const handlePass = (side: 'left' | 'right') => {
-    if (gameEnded) return;
+  const gameEnded = game.status === 'finished';
+  const resultText = describeResult(game.result);
 
-    // Check for consecutive passes (different players)
-    if (lastPass !== null && lastPass !== side) {
-      // Two consecutive passes from different sides - game ends
-      setGameEnded(true);
-    }
+  // Pass or resign for the player on that side (left pot is White, right pot is Black)
+  const sideColor = (side: 'left' | 'right'): 0 | 1 => (side === 'left' ? 1 : 0);
+
+  const handlePass = async (side: 'left' | 'right') => {
+    if (gameEnded || !gameId) return;
     setLastPass(side);
+    // The server counts consecutive passes and ends the game
+    if (await performAction('pass', { stoneColor: sideColor(side) })) {
+      await fetchGame(gameId, true);
+    }
+  };
+
+  const handleResign = async (side: 'left' | 'right') => {
+    if (gameEnded || !gameId) return;
+    if (await performAction('resign', { stoneColor: sideColor(side) })) {
+      await fetchGame(gameId, true);
+    }
   };
 
-  // Bottom buttons with PASS on both sides
+  const scoringDeadStones = game.status === 'scoring' && !isReplaying ? game.deadStones : [];
+  const scoringTerritory = game.status === 'scoring' && !isReplaying ? score?.ownership : undefined;
+  const acceptedSide = (side: 'left' | 'right') => game.scoreAcceptedBy.includes(sideColor(side));
+
+  // Bottom buttons with PASS and RESIGN on both sides, or ACCEPT and RESUME while scoring
   const bottomButtons = gameEnded ? (
     <>
       <button className="font-bold text-sm uppercase invisible" disabled>PASS</button>
-      <span className="text-black font-bold text-sm uppercase">GAME ENDED</span>
+      <span className="text-black font-bold text-sm uppercase">
+        {resultText ? `GAME OVER — ${resultText}` : 'GAME ENDED'}
+      </span>
       <button className="font-bold text-sm uppercase invisible" disabled>PASS</button>
     </>
+  ) : game.status === 'scoring' ? (
+    <>
+      <button
+        onClick={() => performScoring('accept', { stoneColor: sideColor('left') })}
+        className={`font-bold text-sm uppercase transition-opacity hover:opacity-70 ${acceptedSide('left') ? 'text-white' : 'text-black'}`}
+      >
+        ACCEPT
+      </button>
+      <span className="text-black font-bold text-sm uppercase">
+        {score ? `W ${score.total[1]} — B ${score.total[0]}` : 'SCORING'}
+      </span>
+      <button
+        onClick={() => performScoring('resume', {})}
+        className="text-black font-bold text-sm uppercase transition-opacity hover:opacity-70"
+      >
+        RESUME
+      </button>
+      <button
+        onClick={() => performScoring('accept', { stoneColor: sideColor('right') })}
+        className={`font-bold text-sm uppercase transition-opacity hover:opacity-70 ${acceptedSide('right') ? 'text-white' : 'text-black'}`}
+      >
+        ACCEPT
+      </button>
+    </>
   ) : (
     <>
       <button
         onClick={() => handlePass('left')}
-        className={`font-bold text-sm uppercase transition-opacity hover:opacity-70 ${lastPass === 'left' ? 'text-white' : 'text-black'}`}
+        className={`font-bold text-sm uppercase transition-opacity hover:opacity-70 ${lastPass === 'left' && game.consecutivePasses > 0 ? 'text-white' : 'text-black'}`}
       >
         PASS
       </button>
+      <button
+        onClick={() => handleResign('left')}
+        className="text-black font-bold text-sm uppercase transition-opacity hover:opacity-70"
+      >
+        RESIGN
+      </button>
+      <button
+        onClick={() => handleResign('right')}
+        className="text-black font-bold text-sm uppercase transition-opacity hover:opacity-70"
+      >
+        RESIGN
+      </button>
       <button
         onClick={() => handlePass('right')}
-        className={`font-bold text-sm uppercase transition-opacity hover:opacity-70 ${lastPass === 'right' ? 'text-white' : 'text-black'}`}
+        className={`font-bold text-sm uppercase transition-opacity hover:opacity-70 ${lastPass === 'right' && game.consecutivePasses > 0 ? 'text-white' : 'text-black'}`}
       >
         PASS
       </button>
@@ -817,10 +975,13 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
                 board={isReplaying && replayBoard ? replayBoard : game.boardState}
                 size={game.boardSize}
                 heldStone={isReplaying ? null : heldStone}
+                legalMoves={isReplaying ? null : legalMoves}
                 lastMove={isReplaying ? replayLastMove : (game.lastMoveX !== null && game.lastMoveY !== null
                   ? { x: game.lastMoveX, y: game.lastMoveY }
                   : null)}
                 onBoardClick={isReplaying ? () => {} : handleBoardClick}
+                deadStones={scoringDeadStones}
+                territory={scoringTerritory}
                 topButtons={topButtons}
                 bottomButtons={bottomButtons}
                 hideHoverRing={true}
@@ -871,10 +1032,13 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
               board={isReplaying && replayBoard ? replayBoard : game.boardState}
               size={game.boardSize}
               heldStone={isReplaying ? null : heldStone}
+              legalMoves={isReplaying ? null : legalMoves}
               lastMove={isReplaying ? replayLastMove : (game.lastMoveX !== null && game.lastMoveY !== null
                 ? { x: game.lastMoveX, y: game.lastMoveY }
                 : null)}
               onBoardClick={isReplaying ? () => {} : handleBoardClick}
+              deadStones={scoringDeadStones}
+              territory={scoringTerritory}
               topButtons={
                 <div className="flex items-center justify-between w-full rotate-180">
                   <button onClick={handleShare} className="text-black font-bold text-sm uppercase hover:opacity-70 transition-opacity">
@@ -914,10 +1078,13 @@ export default function GamePage({ params }: { params: Promise<{ gameId: string
               board={isReplaying && replayBoard ? replayBoard : game.boardState}
               size={game.boardSize}
               heldStone={isReplaying ? null : heldStone}
+              legalMoves={isReplaying ? null : legalMoves}
               lastMove={isReplaying ? replayLastMove : (game.lastMoveX !== null && game.lastMoveY !== null
                 ? { x: game.lastMoveX, y: game.lastMoveY }
                 : null)}
               onBoardClick={isReplaying ? () => {} : handleBoardClick}
+              deadStones={scoringDeadStones}
+              territory={scoringTerritory}
               topButtons={topButtons}
               bottomButtons={bottomButtons}
               hideHoverRing={true}
@@ -6,8 +6,12 @@ import WildeGoBoard, { WildeHeldStone } from '@/components/WildeGoBoard';
 import WildeStonePot from '@/components/WildeStonePot';
 import { useDeviceType } from '@/hooks/useDeviceType';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
+import { useLegalMoves } from '@/hooks/useLegalMoves';
+import { useGameUpdates } from '@/hooks/useGameUpdates';
+import { usePresence } from '@/hooks/usePresence';
 import { StonePot } from '@/lib/db/schema';
 import { createEmptyBoard } from '@/lib/wilde/colors';
+import { getAdjacent as getBoardAdjacent, type Topology } from '@/lib/game/shared';
 import {
   Direction,
   PakitaPosition,
@@ -25,6 +29,7 @@ interface WildeGameData {
   id: string;
   boardWidth: number;
   boardHeight: number;
+  topology: Topology;
   playerCount: number;
   boardState: WildeBoard;
   stonePots: StonePot[];
@@ -52,21 +57,14 @@ interface ReplayAction {
 }
 
 // Client-side capture detection for N-player Go
-function detectAndRemoveCaptures(board: WildeBoard, placedX: number, placedY: number, placedColor: number, width: number, height: number, playerCount: number): {
+function detectAndRemoveCaptures(board: WildeBoard, placedX: number, placedY: number, placedColor: number, width: number, height: number, playerCount: number, topology: Topology): {
   newBoard: WildeBoard;
   capturedByColor: number[];
 } {
   const newBoard = board.map(row => [...row]) as WildeBoard;
   const capturedByColor = Array(playerCount).fill(0);
 
-  const getAdjacent = (pos: Position): Position[] => {
-    const adj: Position[] = [];
-    if (pos.x > 0) adj.push({ x: pos.x - 1, y: pos.y });
-    if (pos.x < width - 1) adj.push({ x: pos.x + 1, y: pos.y });
-    if (pos.y > 0) adj.push({ x: pos.x, y: pos.y - 1 });
-    if (pos.y < height - 1) adj.push({ x: pos.x, y: pos.y + 1 });
-    return adj;
-  };
+  const getAdjacent = (pos: Position): Position[] => getBoardAdjacent(pos, width, height, topology);
 
   const getGroup = (start: Position): Position[] => {
     const c = newBoard[start.y][start.x];
@@ -119,18 +117,11 @@ function detectAndRemoveCaptures(board: WildeBoard, placedX: number, placedY: nu
 }
 
 // N-player suicide check
-function wouldBeSuicide(board: WildeBoard, x: number, y: number, color: number, width: number, height: number): boolean {
+function wouldBeSuicide(board: WildeBoard, x: number, y: number, color: number, width: number, height: number, topology: Topology): boolean {
   const testBoard = board.map(row => [...row]) as WildeBoard;
   testBoard[y][x] = color;
 
-  const getAdjacent = (pos: Position): Position[] => {
-    const adj: Position[] = [];
-    if (pos.x > 0) adj.push({ x: pos.x - 1, y: pos.y });
-    if (pos.x < width - 1) adj.push({ x: pos.x + 1, y: pos.y });
-    if (pos.y > 0) adj.push({ x: pos.x, y: pos.y - 1 });
-    if (pos.y < height - 1) adj.push({ x: pos.x, y: pos.y + 1 });
-    return adj;
-  };
+  const getAdjacent = (pos: Position): Position[] => getBoardAdjacent(pos, width, height, topology);
 
   const getGroup = (start: Position): Position[] => {
     const c = testBoard[start.y][start.x];
@@ -175,6 +166,11 @@ function wouldBeSuicide(board: WildeBoard, x: number, y: number, color: number,
   return countLiberties(placedGroup) === 0;
 }
 
+// Skip polling and live updates for 5s after an action (the optimistic board is authoritative)
+const ACTION_COOLDOWN_MS = 5000;
+// While live updates are connected, polling is only a safety net
+const LIVE_POLL_MS = 30000;
+
 export default function WildeGamePage({ params }: { params: Promise<{ gameId: string }> }) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -204,6 +200,8 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
   const [keyInput, setKeyInput] = useState('');
   const [copied, setCopied] = useState(false);
   const [heldStone, setHeldStone] = useState<WildeHeldStone | null>(null);
+  // Greys out illegal points while a stone from the pot is in hand
+  const legalMoves = useLegalMoves('wilde', gameId, heldStone && !heldStone.fromBoard ? heldStone.color : null, game?.updatedAt ?? null);
   const hasInitialized = useRef(false);
 
   // Replay state
@@ -214,6 +212,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
   const [replayBoard, setReplayBoard] = useState<WildeBoard | null>(null);
   const [replayWidth, setReplayWidth] = useState(19);
   const [replayHeight, setReplayHeight] = useState(19);
+  const [replayTopology, setReplayTopology] = useState<Topology>('flat');
   const [replayPlayerCount, setReplayPlayerCount] = useState(2);
   const replayIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -288,6 +287,19 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
     }
   }, [gameId, hasCheckedUrl, urlKey, fetchGame]);
 
+  // Moves by other players as they happen, merged into the board
+  const liveUpdates = useGameUpdates<WildeGameData>('wilde', gameId, {
+    enabled: !!privateKey,
+    apply: state => setGame(prev => (prev ? { ...prev, ...state } : prev)),
+    refetch: () => {
+      if (gameId) fetchGame(gameId);
+    },
+    lastActionTime,
+    cooldownMs: ACTION_COOLDOWN_MS,
+    paused: () => pakitaActiveRef.current,
+  });
+  const reportColor = usePresence('wilde', gameId, privateKey);
+
   // Poll for game updates (slower when tab is hidden, skip after recent actions)
   useEffect(() => {
     if (!privateKey || !gameId) return;
@@ -295,7 +307,6 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
     let interval: NodeJS.Timeout;
     const ACTIVE_POLL_MS = 3000;   // 3s when tab is visible
     const HIDDEN_POLL_MS = 10000;  // 10s when tab is hidden
-    const ACTION_COOLDOWN_MS = 5000; // Skip polling for 5s after action
 
     const pollIfReady = () => {
       // Skip polling if Pakita is active (she's modifying local state)
@@ -305,23 +316,28 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
       fetchGame(gameId);
     };
 
+    const pollInterval = () => {
+      if (liveUpdates) return LIVE_POLL_MS;
+      return document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS;
+    };
+
     const startPolling = (ms: number) => {
       clearInterval(interval);
       interval = setInterval(pollIfReady, ms);
     };
 
     const handleVisibility = () => {
-      startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+      startPolling(pollInterval());
     };
 
-    startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+    startPolling(pollInterval());
     document.addEventListener('visibilitychange', handleVisibility);
 
     return () => {
       clearInterval(interval);
       document.removeEventListener('visibilitychange', handleVisibility);
     };
-  }, [privateKey, gameId, fetchGame]);
+  }, [privateKey, gameId, fetchGame, liveUpdates]);
 
   const performAction = useCallback(async (
     actionType: 'place' | 'remove' | 'move',
@@ -342,7 +358,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
       const res = await fetch(`/api/wilde/${gameId}/action`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey, actionType, ...options }),
+        body: JSON.stringify({ privateKey, actionType, ...options, expectedMoveNumber: game?.moveNumber }),
       });
 
       if (!res.ok) {
@@ -354,8 +370,16 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
         return false;
       }
 
+      if (options.stoneColor !== undefined) reportColor(options.stoneColor);
+
       // Update lastActionTime after successful response to extend cooldown
       lastActionTime.current = Date.now();
+
+      // Bot seats may have replied; the optimistic update knows nothing about their stones
+      const data = await res.json();
+      if (data.botMoves?.length) await fetchGame(gameId);
+      // Only the move number is taken from the response: the next action is made against it
+      setGame(prev => prev ? { ...prev, moveNumber: Math.max(prev.moveNumber, data.moveNumber) } : prev);
       return true;
     } catch (err) {
       console.error('Error performing action:', err);
@@ -365,7 +389,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
       fetchGame(gameId);
       return false;
     }
-  }, [privateKey, gameId]);
+  }, [privateKey, gameId, game?.moveNumber, reportColor]);
 
   const handlePotClick = useCallback((color: number) => {
     if (!game) return;
@@ -401,7 +425,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
           // Moving a stone on the board
           const testBoard = game.boardState.map(row => [...row]) as WildeBoard;
           testBoard[heldStone.fromBoard.y][heldStone.fromBoard.x] = null;
-          if (wouldBeSuicide(testBoard, pos.x, pos.y, heldStone.color, game.boardWidth, game.boardHeight)) {
+          if (wouldBeSuicide(testBoard, pos.x, pos.y, heldStone.color, game.boardWidth, game.boardHeight, game.topology)) {
             haptic.invalidMove();
             return;
           }
@@ -419,7 +443,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
           newBoard[pos.y][pos.x] = heldStone.color;
 
           const { newBoard: boardAfterCaptures, capturedByColor } =
-            detectAndRemoveCaptures(newBoard, pos.x, pos.y, heldStone.color, game.boardWidth, game.boardHeight, game.playerCount);
+            detectAndRemoveCaptures(newBoard, pos.x, pos.y, heldStone.color, game.boardWidth, game.boardHeight, game.playerCount, game.topology);
 
           // Haptic feedback
           const totalCaptured = capturedByColor.reduce((sum, c) => sum + c, 0);
@@ -457,7 +481,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
           // Placing a stone from pot
           // Check turn order silently
           if (heldStone.color !== game.currentTurn) return;
-          if (wouldBeSuicide(game.boardState, pos.x, pos.y, heldStone.color, game.boardWidth, game.boardHeight)) {
+          if (wouldBeSuicide(game.boardState, pos.x, pos.y, heldStone.color, game.boardWidth, game.boardHeight, game.topology)) {
             haptic.invalidMove();
             return;
           }
@@ -474,7 +498,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
           newBoard[pos.y][pos.x] = heldStone.color;
 
           const { newBoard: boardAfterCaptures, capturedByColor } =
-            detectAndRemoveCaptures(newBoard, pos.x, pos.y, heldStone.color, game.boardWidth, game.boardHeight, game.playerCount);
+            detectAndRemoveCaptures(newBoard, pos.x, pos.y, heldStone.color, game.boardWidth, game.boardHeight, game.playerCount, game.topology);
 
           // Haptic feedback
           const totalCaptured = capturedByColor.reduce((sum, c) => sum + c, 0);
@@ -522,7 +546,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
 
         if (!pot) return;
 
-        if (wouldBeSuicide(game.boardState, pos.x, pos.y, turnColor, game.boardWidth, game.boardHeight)) {
+        if (wouldBeSuicide(game.boardState, pos.x, pos.y, turnColor, game.boardWidth, game.boardHeight, game.topology)) {
           haptic.invalidMove();
           return;
         }
@@ -539,7 +563,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
         newBoard[pos.y][pos.x] = turnColor;
 
         const { newBoard: boardAfterCaptures, capturedByColor } =
-          detectAndRemoveCaptures(newBoard, pos.x, pos.y, turnColor, game.boardWidth, game.boardHeight, game.playerCount);
+          detectAndRemoveCaptures(newBoard, pos.x, pos.y, turnColor, game.boardWidth, game.boardHeight, game.playerCount, game.topology);
 
         const totalCaptured = capturedByColor.reduce((sum, c) => sum + c, 0);
         if (totalCaptured > 0) {
@@ -631,20 +655,13 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
   };
 
   // Replay functions
-  const applyActionToBoard = (board: WildeBoard, action: ReplayAction, width: number, height: number): WildeBoard => {
+  const applyActionToBoard = (board: WildeBoard, action: ReplayAction, width: number, height: number, topology: Topology): WildeBoard => {
     const newBoard = board.map(row => [...row]) as WildeBoard;
 
     if (action.actionType === 'place' && action.toX !== null && action.toY !== null) {
       newBoard[action.toY][action.toX] = action.stoneColor;
       // Simple capture detection
-      const getAdjacent = (x: number, y: number): Position[] => {
-        const adj: Position[] = [];
-        if (x > 0) adj.push({ x: x - 1, y });
-        if (x < width - 1) adj.push({ x: x + 1, y });
-        if (y > 0) adj.push({ x, y: y - 1 });
-        if (y < height - 1) adj.push({ x, y: y + 1 });
-        return adj;
-      };
+      const getAdjacent = (x: number, y: number): Position[] => getBoardAdjacent({ x, y }, width, height, topology);
       const getGroup = (start: Position, b: WildeBoard): Position[] => {
         const c = b[start.y][start.x];
         if (c === null) return [];
@@ -716,6 +733,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
       setReplayActions(data.actions);
       setReplayWidth(data.boardWidth);
       setReplayHeight(data.boardHeight);
+      setReplayTopology(data.topology ?? 'flat');
       setReplayPlayerCount(data.playerCount);
       setReplayBoard(createEmptyBoard(data.boardWidth, data.boardHeight));
       setReplayIndex(0);
@@ -742,17 +760,17 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
 
   const stepForward = useCallback(() => {
     if (replayIndex < replayActions.length && replayBoard) {
-      const newBoard = applyActionToBoard(replayBoard, replayActions[replayIndex], replayWidth, replayHeight);
+      const newBoard = applyActionToBoard(replayBoard, replayActions[replayIndex], replayWidth, replayHeight, replayTopology);
       setReplayBoard(newBoard);
       setReplayIndex(prev => prev + 1);
     }
-  }, [replayIndex, replayActions, replayBoard, replayWidth, replayHeight]);
+  }, [replayIndex, replayActions, replayBoard, replayWidth, replayHeight, replayTopology]);
 
   const stepBackward = () => {
     if (replayIndex > 0) {
       let board = createEmptyBoard(replayWidth, replayHeight);
       for (let i = 0; i < replayIndex - 1; i++) {
-        board = applyActionToBoard(board, replayActions[i], replayWidth, replayHeight);
+        board = applyActionToBoard(board, replayActions[i], replayWidth, replayHeight, replayTopology);
       }
       setReplayBoard(board);
       setReplayIndex(prev => prev - 1);
@@ -879,7 +897,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
           const newPots = prevGame.stonePots.map((pot, i) =>
             i === currentStone ? { ...pot, potCount: pot.potCount + 1, onBoard: pot.onBoard - 1 } : pot
           );
-          return { ...prevGame, boardState: newBoard, stonePots: newPots };
+          return { ...prevGame, boardState: newBoard, stonePots: newPots, moveNumber: prevGame.moveNumber + 1 };
         });
 
         // Fire API call in background (don't await - let players continue playing)
@@ -1044,10 +1062,11 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
       const res = await fetch(`/api/wilde/${gameId}/clear`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to clear board');
         setTimeout(() => setError(null), 3000);
         return;
@@ -1064,10 +1083,11 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
         currentTurn: data.currentTurn,
         moveNumber: data.moveNumber ?? 0,
       } : null);
-      // Reset Pakita spawn tracking on clear
-      pakitaLastSpawnMoveRef.current = 0;
+      // Reset Pakita spawn tracking on clear - the move number carries on, so count from here
+      pakitaLastSpawnMoveRef.current = data.moveNumber ?? 0;
       pakitaSpawnThresholdRef.current = Math.floor(Math.random() * 11) + 10;
       setHeldStone(null);
+      if (data.botMoves?.length) await fetchGame(gameId);
     } catch (err) {
       console.error('Error clearing board:', err);
       setError('Failed to clear board');
@@ -1130,10 +1150,11 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
       const res = await fetch(`/api/wilde/${gameId}/undo`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to undo');
         setTimeout(() => setError(null), 3000);
         return;
@@ -1151,6 +1172,7 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
         moveNumber: data.moveNumber ?? prev.moveNumber,
       } : null);
       setHeldStone(null);
+      if (data.botMoves?.length) await fetchGame(gameId);
     } catch (err) {
       console.error('Error undoing:', err);
       setError('Failed to undo');
@@ -1187,8 +1209,10 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
                 board={isReplayMode && replayBoard ? replayBoard : game.boardState}
                 width={isReplayMode ? replayWidth : game.boardWidth}
                 height={isReplayMode ? replayHeight : game.boardHeight}
+                topology={isReplayMode ? replayTopology : game.topology}
                 playerCount={isReplayMode ? replayPlayerCount : game.playerCount}
                 heldStone={isReplayMode ? null : heldStone}
+                legalMoves={isReplayMode ? null : legalMoves}
                 lastMove={isReplayMode ? null : (game.lastMoveX !== null && game.lastMoveY !== null ? { x: game.lastMoveX, y: game.lastMoveY } : null)}
                 onBoardClick={isReplayMode ? () => {} : handleBoardClick}
                 topButtons={topButtons}
@@ -1212,8 +1236,10 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
                 board={isReplayMode && replayBoard ? replayBoard : game.boardState}
                 width={isReplayMode ? replayWidth : game.boardWidth}
                 height={isReplayMode ? replayHeight : game.boardHeight}
+                topology={isReplayMode ? replayTopology : game.topology}
                 playerCount={isReplayMode ? replayPlayerCount : game.playerCount}
                 heldStone={isReplayMode ? null : heldStone}
+                legalMoves={isReplayMode ? null : legalMoves}
                 lastMove={isReplayMode ? null : (game.lastMoveX !== null && game.lastMoveY !== null ? { x: game.lastMoveX, y: game.lastMoveY } : null)}
                 onBoardClick={isReplayMode ? () => {} : handleBoardClick}
                 topButtons={topButtons}
@@ -1233,8 +1259,10 @@ export default function WildeGamePage({ params }: { params: Promise<{ gameId: st
                 board={isReplayMode && replayBoard ? replayBoard : game.boardState}
                 width={isReplayMode ? replayWidth : game.boardWidth}
                 height={isReplayMode ? replayHeight : game.boardHeight}
+                topology={isReplayMode ? replayTopology : game.topology}
                 playerCount={isReplayMode ? replayPlayerCount : game.playerCount}
                 heldStone={isReplayMode ? null : heldStone}
+                legalMoves={isReplayMode ? null : legalMoves}
                 lastMove={isReplayMode ? null : (game.lastMoveX !== null && game.lastMoveY !== null ? { x: game.lastMoveX, y: game.lastMoveY } : null)}
                 onBoardClick={isReplayMode ? () => {} : handleBoardClick}
                 topButtons={topButtons}
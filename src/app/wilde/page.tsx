@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { WILDE_COLORS } from '@/lib/wilde/colors';
+import { TOPOLOGIES, type Topology } from '@/lib/game/shared';
 
 // Calculate default stones per player based on grid (each player gets all intersections)
 function calculateDefaultStones(width: number, height: number, players: number): number {
@@ -19,8 +20,10 @@ export default function WildeGoHome() {
   );
   const [hasManualOverride, setHasManualOverride] = useState(false);
   const [pakitaMode, setPakitaMode] = useState(false);
+  const [topology, setTopology] = useState<Topology>('flat');
   const [customHues, setCustomHues] = useState<Record<number, number>>({}); // Player index -> hue offset
   const [selectedColorIndex, setSelectedColorIndex] = useState<number | null>(null);
+  const [botSeats, setBotSeats] = useState<number[]>([]); // Player indexes the computer plays
   const [isCreating, setIsCreating] = useState(false);
 
   // Calculate the default stones value for display
@@ -113,7 +116,11 @@ export default function WildeGoHome() {
       const res = await fetch('/api/wilde', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ boardWidth, boardHeight, playerCount, stonesPerPlayer, pakitaMode, customHues }),
+        body: JSON.stringify({
+          boardWidth, boardHeight, topology, playerCount, stonesPerPlayer, pakitaMode,
+          customHues: Object.fromEntries(Object.entries(customHues).filter(([color]) => Number(color) < playerCount)),
+          botSeats: botSeats.filter(seat => seat < playerCount),
+        }),
       });
 
       if (!res.ok) {
@@ -249,6 +256,31 @@ export default function WildeGoHome() {
               )}
             </div>
 
+            {/* Bot Seats - players the computer takes */}
+            <div className="mb-6">
+              <label className="block text-sm font-semibold text-purple-700 dark:text-purple-300 mb-3">
+                Computer Players <span className="text-xs font-normal">(click to toggle)</span>
+              </label>
+              <div className="flex gap-2 flex-wrap">
+                {WILDE_COLORS.slice(0, playerCount).map((color) => {
+                  const isBot = botSeats.includes(color.id);
+                  return (
+                    <button
+                      key={color.id}
+                      onClick={() => setBotSeats(seats => isBot ? seats.filter(s => s !== color.id) : [...seats, color.id])}
+                      className={`w-8 h-8 rounded-full shadow-md transition-all hover:scale-110 text-xs font-bold text-white ${
+                        isBot ? 'ring-2 ring-white ring-offset-2 ring-offset-purple-500' : 'opacity-40'
+                      }`}
+                      style={{ backgroundColor: getAdjustedColor(color.hex, customHues[color.id] || 0) }}
+                      title={`${color.name} - ${isBot ? 'Computer' : 'Human'}`}
+                    >
+                      {isBot ? 'CPU' : ''}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
             {/* Board Width */}
             <div className="mb-4">
               <label className="block text-sm font-semibold text-purple-700 dark:text-purple-300 mb-2">
@@ -287,6 +319,33 @@ export default function WildeGoHome() {
               </div>
             </div>
 
+            {/* Topology - which edges wrap around */}
+            <div className="mb-4">
+              <label className="block text-sm font-semibold text-purple-700 dark:text-purple-300 mb-2">
+                Edges
+              </label>
+              <div className="flex gap-2">
+                {TOPOLOGIES.map((t) => (
+                  <button
+                    key={t}
+                    onClick={() => setTopology(t)}
+                    className={`flex-1 py-2 rounded-xl font-semibold capitalize transition-all ${
+                      topology === t
+                        ? 'bg-gradient-to-r from-pink-500 to-purple-500 text-white shadow-lg'
+                        : 'bg-white dark:bg-zinc-700 text-purple-600 dark:text-purple-300 hover:scale-105'
+                    }`}
+                  >
+                    {t}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-purple-500 mt-1">
+                {topology === 'flat' && 'Ordinary board edges'}
+                {topology === 'cylinder' && 'Left and right edges join up'}
+                {topology === 'torus' && 'Left/right and top/bottom edges join up'}
+              </p>
+            </div>
+
             {/* Stones Per Player */}
             <div className="mb-6">
               <label className="block text-sm font-semibold text-purple-700 dark:text-purple-300 mb-2">
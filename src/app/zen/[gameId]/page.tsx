@@ -6,6 +6,8 @@ import ZenGoBoard, { ZenHeldStone } from '@/components/ZenGoBoard';
 import ZenStonePot from '@/components/ZenStonePot';
 import { useDeviceType } from '@/hooks/useDeviceType';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
+import { useGameUpdates } from '@/hooks/useGameUpdates';
+import { usePresence } from '@/hooks/usePresence';
 
 type ZenStone = 0 | 1 | null;
 type ZenBoard = ZenStone[][];
@@ -166,6 +168,11 @@ function wouldBeSuicide(board: ZenBoard, x: number, y: number, color: ZenStone):
   return countLiberties(placedGroup) === 0;
 }
 
+// Skip polling and live updates for 3s after an action (the optimistic board is authoritative)
+const ACTION_COOLDOWN_MS = 3000;
+// While live updates are connected, polling is only a safety net
+const LIVE_POLL_MS = 30000;
+
 export default function ZenGamePage({ params }: { params: Promise<{ gameId: string }> }) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -266,6 +273,18 @@ export default function ZenGamePage({ params }: { params: Promise<{ gameId: stri
     }
   }, [gameId, hasCheckedUrl, urlKey, fetchGame]);
 
+  // Moves by other players as they happen, merged into the board
+  const liveUpdates = useGameUpdates<ZenGameData>('zen', gameId, {
+    enabled: !!privateKey,
+    apply: state => setGame(prev => (prev ? { ...prev, ...state } : prev)),
+    refetch: () => {
+      if (gameId) fetchGame(gameId, true);
+    },
+    lastActionTime,
+    cooldownMs: ACTION_COOLDOWN_MS,
+  });
+  const reportColor = usePresence('zen', gameId, privateKey);
+
   // Poll for updates
   useEffect(() => {
     if (!game || !privateKey || !gameId) return;
@@ -273,30 +292,34 @@ export default function ZenGamePage({ params }: { params: Promise<{ gameId: stri
     let interval: NodeJS.Timeout;
     const ACTIVE_POLL_MS = 3000;
     const HIDDEN_POLL_MS = 10000;
-    const ACTION_COOLDOWN_MS = 3000;
 
     const pollIfReady = () => {
       if (Date.now() - lastActionTime.current < ACTION_COOLDOWN_MS) return;
       fetchGame(gameId);
     };
 
+    const pollInterval = () => {
+      if (liveUpdates) return LIVE_POLL_MS;
+      return document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS;
+    };
+
     const startPolling = (ms: number) => {
       clearInterval(interval);
       interval = setInterval(pollIfReady, ms);
     };
 
     const handleVisibility = () => {
-      startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+      startPolling(pollInterval());
     };
 
-    startPolling(document.hidden ? HIDDEN_POLL_MS : ACTIVE_POLL_MS);
+    startPolling(pollInterval());
     document.addEventListener('visibilitychange', handleVisibility);
 
     return () => {
       clearInterval(interval);
       document.removeEventListener('visibilitychange', handleVisibility);
     };
-  }, [game, privateKey, gameId, fetchGame]);
+  }, [game, privateKey, gameId, fetchGame, liveUpdates]);
 
   const performAction = async (
     actionType: 'place' | 'remove' | 'move',
@@ -315,16 +338,22 @@ export default function ZenGamePage({ params }: { params: Promise<{ gameId: stri
       const res = await fetch(`/api/zen/${gameId}/action`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey, actionType, ...options }),
+        body: JSON.stringify({ privateKey, actionType, ...options, expectedMoveNumber: game.moveNumber }),
       });
 
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Action failed');
         setTimeout(() => setError(null), 3000);
         return false;
       }
 
+      if (actionType === 'place') reportColor(game.currentTurn); // The player whose turn it was
+
+      const data = await res.json();
+      // Only the move number is taken from the response: the next action is made against it
+      setGame(prev => prev ? { ...prev, moveNumber: Math.max(prev.moveNumber, data.moveNumber) } : prev);
       return true;
     } catch (err) {
       console.error('Error performing action:', err);
@@ -716,10 +745,11 @@ export default function ZenGamePage({ params }: { params: Promise<{ gameId: stri
       const res = await fetch(`/api/zen/${gameId}/clear`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to clear board');
         setTimeout(() => setError(null), 3000);
         return;
@@ -754,10 +784,11 @@ export default function ZenGamePage({ params }: { params: Promise<{ gameId: stri
       const res = await fetch(`/api/zen/${gameId}/undo`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
+        body: JSON.stringify({ privateKey, expectedMoveNumber: game?.moveNumber }),
       });
       if (!res.ok) {
         const data = await res.json();
+        if (res.status === 409 && data.state) setGame(data.state); // Someone moved first; show their board
         setError(data.error || 'Failed to undo');
         setTimeout(() => setError(null), 3000);
         return;
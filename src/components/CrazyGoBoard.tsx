@@ -18,6 +18,7 @@ interface CrazyGoBoardProps {
   lastMove: Position | null;
   onBoardClick: (pos: Position) => void;
   topButtons?: React.ReactNode;
+  legalMoves?: string[] | null; // Legal-move bitmap for the held stone ('1' = legal), illegal points are greyed out
 }
 
 const getMaxBoardSize = () => {
@@ -51,6 +52,7 @@ export default function CrazyGoBoard({
   lastMove,
   onBoardClick,
   topButtons,
+  legalMoves, // Greys out illegal points while a stone is held
 }: CrazyGoBoardProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -278,6 +280,19 @@ export default function CrazyGoBoard({
       ctx.stroke();
     }
 
+    // Grey out the empty points where the held stone can't go
+    if (heldStone && legalMoves) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          if (board[y][x] !== null || legalMoves[y]?.[x] !== '0') continue;
+          ctx.beginPath();
+          ctx.arc(padding + x * cellSize, padding + y * cellSize, cellSize * 0.2, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      }
+    }
+
     // Ghost stone preview
     if (heldStone && hoverPos && board[hoverPos.y][hoverPos.x] === null) {
       const cx = padding + hoverPos.x * cellSize;
@@ -308,7 +323,7 @@ export default function CrazyGoBoard({
         drawStone(ctx, cx, cy, heldStone.color, cellSize * 0.45);
       }
     }
-  }, [board, size, canvasSize, heldStone, lastMove, hoverPos, mousePos, cellSize, padding, drawStone, getStarPoints]);
+  }, [board, size, canvasSize, heldStone, lastMove, hoverPos, mousePos, cellSize, padding, drawStone, getStarPoints, legalMoves]);
 
   useEffect(() => {
     const handleResize = () => {
@@ -29,6 +29,9 @@ interface GoBoardProps {
   hideLastMoveMarker?: boolean; // Hide the last move marker ring
   hideHoverRing?: boolean; // Hide the red hover ring when hovering over stones
   explosionPositions?: Position[]; // Positions to show explosion markers (for Go Bang)
+  deadStones?: Position[]; // Stones marked dead during scoring, crossed out
+  territory?: (number | null)[][]; // Territory owner per point during scoring, shown as small squares
+  legalMoves?: string[] | null; // Legal-move bitmap for the held stone ('1' = legal), illegal points are greyed out
   droneAnimation?: {
     path: Position[]; // Path of grid positions the drone follows
     progress: number; // 0-1 animation progress
@@ -89,6 +92,9 @@ export default function GoBoard({
   hideLastMoveMarker = false, // Hide the last move marker ring
   hideHoverRing = false, // Hide the red hover ring when hovering over stones
   explosionPositions = [], // Positions to show explosion markers (for Go Bang)
+  deadStones = [], // Dead stone markers while scoring
+  territory, // Territory markers while scoring
+  legalMoves, // Greys out illegal points while a stone is held
   droneAnimation, // Drone animation data (path, progress, rotation)
 }: GoBoardProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -501,6 +507,36 @@ export default function GoBoard({
       ctx.stroke();
     }
 
+    // Scoring: a small square of the owner's colour on each territory point
+    if (territory) {
+      const half = cellSize * 0.15;
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const owner = territory[y]?.[x];
+          if (owner === null || owner === undefined) continue;
+          ctx.fillStyle = owner === 0 ? '#000000' : '#ffffff';
+          ctx.fillRect(padding + x * cellSize - half, padding + y * cellSize - half, half * 2, half * 2);
+        }
+      }
+    }
+
+    // Scoring: cross out dead stones in the opposite colour
+    for (const dead of deadStones) {
+      const stone = board[dead.y]?.[dead.x];
+      if (stone === null || stone === undefined) continue;
+      const cx = padding + dead.x * cellSize;
+      const cy = padding + dead.y * cellSize;
+      const r = cellSize * 0.25;
+      ctx.strokeStyle = Number(stone) === 0 ? '#ffffff' : '#000000';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(cx - r, cy - r);
+      ctx.lineTo(cx + r, cy + r);
+      ctx.moveTo(cx + r, cy - r);
+      ctx.lineTo(cx - r, cy + r);
+      ctx.stroke();
+    }
+
     // Draw explosion markers for Go Bang - 9-point asymmetric starburst at 50% size
     for (const explosionPos of explosionPositions) {
       const cx = padding + explosionPos.x * cellSize;
@@ -642,6 +678,19 @@ export default function GoBoard({
       ctx.restore();
     }
 
+    // Grey out the empty points where the held stone can't go
+    if (heldStone && legalMoves) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          if (board[y][x] !== null || legalMoves[y]?.[x] !== '0') continue;
+          ctx.beginPath();
+          ctx.arc(padding + x * cellSize, padding + y * cellSize, cellSize * 0.2, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      }
+    }
+
     // When holding a stone, show snapped ghost stone at target position
     if (heldStone && hoverPos && board[hoverPos.y][hoverPos.x] === null) {
       const cx = padding + hoverPos.x * cellSize;
@@ -659,7 +708,7 @@ export default function GoBoard({
       ctx.arc(cx, cy, cellSize * 0.5, 0, Math.PI * 2);
       ctx.stroke();
     }
-  }, [board, size, canvasSize, heldStone, lastMove, hoverPos, cellSize, padding, drawStone, getStarPoints, boardColor, starPointColor, whiteStoneMarker, hideHoverRing, explosionPositions, droneAnimation]);
+  }, [board, size, canvasSize, heldStone, lastMove, hoverPos, cellSize, padding, drawStone, getStarPoints, boardColor, starPointColor, whiteStoneMarker, hideHoverRing, explosionPositions, deadStones, territory, droneAnimation, legalMoves]);
 
   // Handle resize
   useEffect(() => {
@@ -1,8 +1,9 @@
 'use client';
 
 import { useRef, useEffect, useCallback, useState } from 'react';
-import { WILDE_COLORS } from '@/lib/wilde/colors';
+import { WILDE_COLORS, adjustColorHue } from '@/lib/wilde/colors';
 import { Pakita, Direction } from '@/lib/wilde/pakita';
+import { wrapsAround, type Topology } from '@/lib/game/shared';
 
 type WildeStone = number | null; // 0-7 for players, null for empty
 type WildeBoard = WildeStone[][];
@@ -24,6 +25,7 @@ interface WildeGoBoardProps {
   board: WildeBoard;
   width: number;
   height: number;
+  topology?: Topology; // Wrapping edges get ghost rows/columns showing the far side
   playerCount: number;
   heldStone: WildeHeldStone | null;
   lastMove: Position | null;
@@ -31,6 +33,7 @@ interface WildeGoBoardProps {
   topButtons?: React.ReactNode;
   pakita?: PakitaState | null;
   customHues?: Record<number, number> | null;
+  legalMoves?: string[] | null; // Legal-move bitmap for the held stone ('1' = legal), illegal points are greyed out
 }
 
 // Get max board dimensions based on screen size
@@ -59,55 +62,11 @@ const getMaxBoardDimensions = () => {
   }
 };
 
-// Adjust color hue
-function adjustColorHue(hex: string, hueOffset: number): string {
-  if (!hueOffset) return hex;
-
-  const r = parseInt(hex.slice(1, 3), 16) / 255;
-  const g = parseInt(hex.slice(3, 5), 16) / 255;
-  const b = parseInt(hex.slice(5, 7), 16) / 255;
-
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  const l = (max + min) / 2;
-  let h = 0;
-  let s = 0;
-
-  if (max !== min) {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-    switch (max) {
-      case r: h = ((g - b) / d + (g < b ? 6 : 0)) / 6; break;
-      case g: h = ((b - r) / d + 2) / 6; break;
-      case b: h = ((r - g) / d + 4) / 6; break;
-    }
-  }
-
-  h = (h + hueOffset / 360) % 1;
-  if (h < 0) h += 1;
-
-  const hue2rgb = (p: number, q: number, t: number) => {
-    if (t < 0) t += 1;
-    if (t > 1) t -= 1;
-    if (t < 1/6) return p + (q - p) * 6 * t;
-    if (t < 1/2) return q;
-    if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-    return p;
-  };
-
-  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-  const p = 2 * l - q;
-  const newR = Math.round(hue2rgb(p, q, h + 1/3) * 255);
-  const newG = Math.round(hue2rgb(p, q, h) * 255);
-  const newB = Math.round(hue2rgb(p, q, h - 1/3) * 255);
-
-  return `#${newR.toString(16).padStart(2, '0')}${newG.toString(16).padStart(2, '0')}${newB.toString(16).padStart(2, '0')}`;
-}
-
 export default function WildeGoBoard({
   board,
   width,
   height,
+  topology = 'flat',
   playerCount,
   heldStone,
   lastMove,
@@ -115,6 +74,7 @@ export default function WildeGoBoard({
   topButtons,
   pakita,
   customHues,
+  legalMoves,
 }: WildeGoBoardProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -132,12 +92,19 @@ export default function WildeGoBoard({
 
   const cellSizeByWidth = availableWidth / (width - 1);
   const cellSizeByHeight = availableHeight / (height - 1);
-  const cellSize = Math.min(cellSizeByWidth, cellSizeByHeight);
+  // Wrapping edges need room for a ghost row or column (and its stones) past the edge:
+  // a cell and a half each side, on top of the board's width-1 cells
+  const edgeWraps = wrapsAround(topology, width, height);
+  const hasGhosts = edgeWraps.x || edgeWraps.y;
+  const cellSize = hasGhosts
+    ? Math.min(cellSizeByWidth, cellSizeByHeight, maxDims.maxWidth / (width + 2), maxDims.maxHeight / (height + 2))
+    : Math.min(cellSizeByWidth, cellSizeByHeight);
 
   // Canvas dimensions based on grid size with square cells
   const boardPixelWidth = cellSize * (width - 1);
   const boardPixelHeight = cellSize * (height - 1);
-  const padding = Math.max(boardPixelWidth, boardPixelHeight) * paddingRatio;
+  const boardPadding = Math.max(boardPixelWidth, boardPixelHeight) * paddingRatio;
+  const padding = hasGhosts ? Math.max(boardPadding, cellSize * 1.5) : boardPadding;
   const canvasWidth = boardPixelWidth + padding * 2;
   const canvasHeight = boardPixelHeight + padding * 2;
 
@@ -322,6 +289,47 @@ export default function WildeGoBoard({
       ctx.fill();
     }
 
+    // Ghost rows and columns just past each edge that wraps, showing the stones on the far side
+    const wraps = wrapsAround(topology, width, height);
+    if (wraps.x || wraps.y) {
+      ctx.strokeStyle = 'rgba(128, 0, 128, 0.4)';
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      if (wraps.x) {
+        for (let i = 0; i < height; i++) {
+          const y = padding + i * cellSizeY;
+          ctx.moveTo(padding - cellSizeX, y);
+          ctx.lineTo(padding, y);
+          ctx.moveTo(padding + (width - 1) * cellSizeX, y);
+          ctx.lineTo(padding + width * cellSizeX, y);
+        }
+      }
+      if (wraps.y) {
+        for (let i = 0; i < width; i++) {
+          const x = padding + i * cellSizeX;
+          ctx.moveTo(x, padding - cellSizeY);
+          ctx.lineTo(x, padding);
+          ctx.moveTo(x, padding + (height - 1) * cellSizeY);
+          ctx.lineTo(x, padding + height * cellSizeY);
+        }
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      for (let gy = -1; gy <= height; gy++) {
+        for (let gx = -1; gx <= width; gx++) {
+          const outsideX = gx < 0 || gx >= width;
+          const outsideY = gy < 0 || gy >= height;
+          if (!outsideX && !outsideY) continue;
+          if ((outsideX && !wraps.x) || (outsideY && !wraps.y)) continue;
+          const stone = board[(gy + height) % height][(gx + width) % width];
+          if (stone !== null) {
+            drawStone(ctx, padding + gx * cellSizeX, padding + gy * cellSizeY, stone, cellSize * 0.45, true);
+          }
+        }
+      }
+    }
+
     // Draw stones
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
@@ -337,6 +345,19 @@ export default function WildeGoBoard({
       }
     }
 
+    // Grey out the empty points where the held stone can't go
+    if (heldStone && legalMoves) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (board[y][x] !== null || legalMoves[y]?.[x] !== '0') continue;
+          ctx.beginPath();
+          ctx.arc(padding + x * cellSizeX, padding + y * cellSizeY, cellSize * 0.2, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      }
+    }
+
     // Ghost stone preview
     if (heldStone && hoverPos && board[hoverPos.y][hoverPos.x] === null) {
       const cx = padding + hoverPos.x * cellSizeX;
@@ -367,7 +388,7 @@ export default function WildeGoBoard({
         drawStone(ctx, cx, cy, heldStone.color, cellSize * 0.45);
       }
     }
-  }, [board, width, height, canvasWidth, canvasHeight, heldStone, hoverPos, mousePos, cellSize, cellSizeX, cellSizeY, padding, drawStone, getStarPoints]);
+  }, [board, width, height, topology, canvasWidth, canvasHeight, heldStone, hoverPos, mousePos, cellSize, cellSizeX, cellSizeY, padding, drawStone, getStarPoints, legalMoves]);
 
   // Handle resize
   useEffect(() => {
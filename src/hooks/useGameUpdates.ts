@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { GAME_UPDATE_EVENT, gameChannel, type GameUpdate } from '@/lib/realtime/channels';
+import type { ReplayVariant } from '@/lib/replays';
+
+// Set at build time alongside the server's Pusher credentials; without them the pages
+// listen on the built-in event stream instead
+const PUSHER_KEY = process.env.NEXT_PUBLIC_PUSHER_KEY;
+const PUSHER_CLUSTER = process.env.NEXT_PUBLIC_PUSHER_CLUSTER;
+
+interface GameUpdateOptions<T> {
+  enabled: boolean;
+  apply: (state: Partial<T>) => void;   // Merge the changed fields into the page's game
+  refetch: () => void;                  // Load the whole game instead
+  lastActionTime: RefObject<number>;    // The page's own last move...
+  cooldownMs: number;                   // ...and how long its optimistic board is left alone after it
+  paused?: () => boolean;               // Hold updates back entirely, e.g. while Pakita is eating
+}
+
+// Live updates for a game page. Changes from other players are merged in as they are
+// published; ones that land while the page is busy with its own move are caught up on with
+// a single refetch once it settles. Returns whether a live connection is open, so the page
+// can fall back to polling often when it isn't.
+export function useGameUpdates<T>(
+  variant: ReplayVariant,
+  gameId: string | null,
+  options: GameUpdateOptions<T>
+): boolean {
+  const [connected, setConnected] = useState(false);
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const { enabled } = options;
+  useEffect(() => {
+    if (!enabled || !gameId) return;
+
+    let closed = false;
+    let catchUp: NodeJS.Timeout | null = null;
+
+    const settle = () => {
+      const { lastActionTime, cooldownMs, paused, refetch } = optionsRef.current;
+      const wait = lastActionTime.current + cooldownMs - Date.now();
+      if (paused?.() || wait > 0) {
+        catchUp = setTimeout(settle, Math.max(wait, 500));
+        return;
+      }
+      catchUp = null;
+      refetch();
+    };
+
+    const receive = (update: GameUpdate) => {
+      if (closed) return;
+      const { lastActionTime, cooldownMs, paused, apply } = optionsRef.current;
+      const busy = paused?.() || Date.now() - lastActionTime.current < cooldownMs;
+      if (busy || update.refetch || catchUp) {
+        if (!catchUp) settle();
+        return;
+      }
+      apply(update.state as Partial<T>);
+    };
+
+    const channelName = gameChannel(variant, gameId);
+    let cleanup = () => {};
+
+    if (PUSHER_KEY && PUSHER_CLUSTER) {
+      import('pusher-js').then(({ default: Pusher }) => {
+        if (closed) return;
+        const pusher = new Pusher(PUSHER_KEY, { cluster: PUSHER_CLUSTER });
+        const channel = pusher.subscribe(channelName);
+        channel.bind(GAME_UPDATE_EVENT, receive);
+        pusher.connection.bind('state_change', ({ current }: { current: string }) => {
+          setConnected(current === 'connected');
+        });
+        cleanup = () => {
+          pusher.unsubscribe(channelName);
+          pusher.disconnect();
+        };
+      }).catch(err => console.error('Error loading Pusher:', err));
+    } else {
+      const events = new EventSource(`/api/${variant}/${gameId}/events`);
+      events.onopen = () => setConnected(true);
+      events.onerror = () => setConnected(false); // EventSource retries by itself
+      events.addEventListener(GAME_UPDATE_EVENT, (event) => {
+        try {
+          receive(JSON.parse((event as MessageEvent<string>).data));
+        } catch (err) {
+          console.error('Error reading game update:', err);
+        }
+      });
+      cleanup = () => events.close();
+    }
+
+    return () => {
+      closed = true;
+      if (catchUp) clearTimeout(catchUp);
+      cleanup();
+      setConnected(false);
+    };
+  }, [variant, gameId, enabled]);
+
+  return connected;
+}
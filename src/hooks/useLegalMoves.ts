@@ -0,0 +1,34 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+// Legal-move bitmap for a colour, refetched whenever the colour or the board version changes.
+// Pass a null colour (nothing held) to skip the request.
+export function useLegalMoves(
+  variant: 'games' | 'crazy' | 'wilde' | 'zen' | 'bang',
+  gameId: string | null,
+  color: number | null,
+  version: string | number | null
+): string[] | null {
+  const [result, setResult] = useState<{ key: string; bitmap: string[] } | null>(null);
+  const key = `${variant}:${gameId}:${color}:${version}`;
+
+  useEffect(() => {
+    if (!gameId || color === null) return;
+    let cancelled = false;
+
+    fetch(`/api/${variant}/${gameId}/legal-moves?color=${color}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!cancelled && data?.bitmap) setResult({ key, bitmap: data.bitmap });
+      })
+      .catch(err => console.error('Error fetching legal moves:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [variant, gameId, color, key]);
+
+  // Only hand back a bitmap for the board it was computed from
+  return color !== null && result?.key === key ? result.bitmap : null;
+}
@@ -131,7 +131,7 @@ export function useOffline() {
         if (!res.ok) {
           // If it's a conflict (game state changed), skip this action
           const data = await res.json();
-          if (data.error?.includes('conflict') || data.error?.includes('stale')) {
+          if (res.status === 409 || data.error?.includes('conflict') || data.error?.includes('stale')) {
             console.warn('Skipping stale offline action:', action.id);
             continue;
           }
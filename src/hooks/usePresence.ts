@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { ReplayVariant } from '@/lib/replays';
+
+const HEARTBEAT_MS = 20000; // The server forgets a tab after two missed heartbeats
+
+// One id per browser tab, so two tabs on the same game count twice
+function tabClientId(): string {
+  let clientId = sessionStorage.getItem('presence_clientId');
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    sessionStorage.setItem('presence_clientId', clientId);
+  }
+  return clientId;
+}
+
+// Heartbeats telling the server this tab has the game open - as a player once it has the private
+// key, otherwise as a spectator. Returns a function the seated variants' pages call with the colour
+// (Zen: player) of each move they make, so the others can see which side this tab plays.
+export function usePresence(
+  variant: ReplayVariant,
+  gameId: string | null,
+  privateKey: string | null
+): (color: number) => void {
+  const keyRef = useRef(privateKey);
+  const colorRef = useRef<number | null>(null);
+  const beatRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    const url = `/api/${variant}/${gameId}/presence`;
+    const clientId = tabClientId();
+    const heartbeat = (leave = false) =>
+      JSON.stringify({ clientId, privateKey: keyRef.current, color: colorRef.current, leave });
+
+    const beat = () => {
+      fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: heartbeat() })
+        .catch(err => console.error('Error sending heartbeat:', err));
+    };
+    // A fetch can be cut off as the tab closes; a beacon is sent regardless
+    const leave = () => navigator.sendBeacon(url, heartbeat(true));
+
+    beatRef.current = beat;
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_MS);
+    window.addEventListener('pagehide', leave);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', leave);
+      beatRef.current = () => {};
+      leave();
+    };
+  }, [variant, gameId]);
+
+  // Entering the key turns this tab from a spectator into a player straight away
+  useEffect(() => {
+    if (keyRef.current === privateKey) return;
+    keyRef.current = privateKey;
+    beatRef.current();
+  }, [privateKey]);
+
+  return useCallback((color: number) => {
+    if (colorRef.current === color) return;
+    colorRef.current = color;
+    beatRef.current();
+  }, []);
+}
@@ -0,0 +1,405 @@
+// Versioned JSON archives of a whole game: the game row and its full action log, exactly as stored.
+// GET /api/{variant}/[gameId]/archive writes one, POST /api/import restores it under a new id and
+// key pair. Rows are copied column by column from the schema, so Go Bang mines, explosions and
+// drone strikes, Wilde pots and hues, bot seats and scoring marks all come back as they were.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db, games, actions } from '@/lib/db';
+import {
+  bangGames, bangActions, crazyGames, crazyActions, wildeGames, wildeActions, zenGames, zenActions,
+} from '@/lib/db/schema';
+import { asc, eq, getTableColumns, type Column } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { generateKeyPair, generateGameId, verifyKeyPair, type KeyPair } from '@/lib/crypto/keys';
+import { REPLAY_VARIANTS, replayRows, type ReplayVariant } from '@/lib/replays';
+import { validBotSeats } from '@/lib/seatActions';
+import { MAX_HUE_OFFSET, validCustomHues } from '@/lib/wilde/colors';
+import { isRuleset } from '@/lib/game/rulesets';
+import { isTopology } from '@/lib/game/shared';
+import { isSuperkoRule } from '@/lib/game/zobrist';
+
+export const ARCHIVE_FORMAT = 'gobanweb-archive';
+export const ARCHIVE_VERSION = 1;
+
+// Archives are JSON text; anything this large is not a single game
+export const MAX_ARCHIVE_LENGTH = 5_000_000;
+
+export interface GameArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  variant: ReplayVariant;
+  exportedAt: string;
+  game: Record<string, unknown>;      // The game row without its id, key or live connection count
+  actions: Record<string, unknown>[]; // The action log in play order, without ids
+}
+
+export type ArchiveResult =
+  | { ok: true; archive: GameArchive }
+  | { ok: false; error: string };
+
+interface VariantTables {
+  game: PgTable;
+  actions: PgTable;
+  order: Column; // How the variant's history route orders its log
+  colors: (game: Record<string, unknown>) => number;
+  size: (game: Record<string, unknown>) => { width: number; height: number };
+  check: (game: Record<string, unknown>) => string | null; // The columns the schema types can't check
+  actionTypes: readonly string[];
+}
+
+const square = (game: Record<string, unknown>) => ({ width: game.boardSize as number, height: game.boardSize as number });
+
+const GAME_STATUSES = ['playing', 'scoring', 'finished'];
+const BOARD_ACTIONS = ['place', 'remove', 'move'];
+const TURN_ACTIONS = [...BOARD_ACTIONS, 'pass', 'resign'];
+
+// Columns left out of an archive take their defaults, so only values that are there are checked
+const isIndex = (value: unknown, count: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < count;
+
+function rulesError(game: Record<string, unknown>): string | null {
+  if (game.ruleset !== undefined && !isRuleset(game.ruleset)) return 'game.ruleset must be japanese, chinese or aga';
+  if (game.superko !== undefined && !isSuperkoRule(game.superko)) return 'game.superko is not a superko rule';
+  return null;
+}
+
+function statusError(game: Record<string, unknown>): string | null {
+  if (game.status !== undefined && !GAME_STATUSES.includes(game.status as string)) {
+    return `game.status must be ${GAME_STATUSES.join(', ')}`;
+  }
+  return null;
+}
+
+function turnError(game: Record<string, unknown>, column: string, count: number): string | null {
+  if (game[column] !== undefined && !isIndex(game[column], count)) return `game.${column} must be 0-${count - 1}`;
+  return null;
+}
+
+function seatsError(game: Record<string, unknown>, colors: number): string | null {
+  if (game.botSeats !== undefined && !validBotSeats(game.botSeats, colors)) {
+    return `game.botSeats must be distinct colours 0-${colors - 1}`;
+  }
+  return null;
+}
+
+function classicError(game: Record<string, unknown>): string | null {
+  const { width, height } = square(game);
+  const handicap = game.handicapStones;
+  if (handicap !== undefined && (!Array.isArray(handicap) || !handicap.every(stone => isIndex(stone?.x, width) && isIndex(stone?.y, height)))) {
+    return 'game.handicapStones must be points on the board';
+  }
+  if (game.botColor !== undefined && game.botColor !== null && !isIndex(game.botColor, 2)) {
+    return 'game.botColor must be 0, 1 or null';
+  }
+  return rulesError(game) ?? statusError(game);
+}
+
+function bangError(game: Record<string, unknown>): string | null {
+  const { width, height } = square(game);
+  const mines = game.minePositions;
+  if (!Array.isArray(mines) || !mines.every(mine => isIndex(mine?.x, width) && isIndex(mine?.y, height))) {
+    return 'game.minePositions must be points on the board';
+  }
+  return rulesError(game) ?? statusError(game) ?? turnError(game, 'currentTurn', 2);
+}
+
+function crazyError(game: Record<string, unknown>): string | null {
+  return rulesError(game) ?? turnError(game, 'currentTurn', 4) ?? seatsError(game, 4);
+}
+
+function zenError(game: Record<string, unknown>): string | null {
+  return rulesError(game) ?? turnError(game, 'currentTurn', 3) ?? turnError(game, 'nextStoneColor', 2);
+}
+
+function wildeError(game: Record<string, unknown>): string | null {
+  const playerCount = game.playerCount;
+  if (typeof playerCount !== 'number' || !Number.isInteger(playerCount) || playerCount < 2 || playerCount > 8) {
+    return 'game.playerCount must be 2-8';
+  }
+  if (game.topology !== undefined && !isTopology(game.topology)) return 'game.topology must be flat, cylinder or torus';
+
+  const pots = game.stonePots;
+  if (!Array.isArray(pots) || pots.length !== playerCount) return `game.stonePots must have ${playerCount} pots`;
+  const count = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+  if (!pots.every(pot => count(pot?.potCount) && count(pot?.captured) && count(pot?.onBoard))) {
+    return 'game.stonePots must hold potCount, captured and onBoard counts';
+  }
+
+  if (game.customHues !== undefined && game.customHues !== null && !validCustomHues(game.customHues, playerCount)) {
+    return `game.customHues must map colours 0-${playerCount - 1} to hue offsets -${MAX_HUE_OFFSET} to ${MAX_HUE_OFFSET}`;
+  }
+
+  return rulesError(game) ?? turnError(game, 'currentTurn', playerCount) ?? seatsError(game, playerCount);
+}
+
+const TABLES: Record<ReplayVariant, VariantTables> = {
+  games: {
+    game: games, actions, order: actions.createdAt, colors: () => 2, size: square, check: classicError, actionTypes: TURN_ACTIONS,
+  },
+  bang: {
+    game: bangGames, actions: bangActions, order: bangActions.createdAt, colors: () => 2, size: square, check: bangError, actionTypes: TURN_ACTIONS,
+  },
+  crazy: {
+    game: crazyGames, actions: crazyActions, order: crazyActions.moveNumber, colors: () => 4, size: square, check: crazyError, actionTypes: BOARD_ACTIONS,
+  },
+  zen: {
+    game: zenGames, actions: zenActions, order: zenActions.moveNumber, colors: () => 2, size: square, check: zenError, actionTypes: BOARD_ACTIONS,
+  },
+  wilde: {
+    game: wildeGames,
+    actions: wildeActions,
+    order: wildeActions.moveNumber,
+    colors: game => game.playerCount as number,
+    size: game => ({ width: game.boardWidth as number, height: game.boardHeight as number }),
+    check: wildeError,
+    actionTypes: [...BOARD_ACTIONS, 'pakita_eat'],
+  },
+};
+
+// Columns that belong to the copy in this database rather than to the game
+const LOCAL_GAME_COLUMNS = ['id', 'publicKey', 'connectedUsers', 'createdAt'];
+const LOCAL_ACTION_COLUMNS = ['id', 'gameId'];
+
+// Inserts are split so a long log stays under Postgres' bind parameter limit
+const INSERT_CHUNK = 500;
+
+function withoutColumns(row: Record<string, unknown>, names: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).filter(([name]) => !names.includes(name)));
+}
+
+// The archive of a game, or null if there is no such game
+export async function loadArchive(variant: ReplayVariant, gameId: string): Promise<GameArchive | null> {
+  const tables = TABLES[variant];
+  const gameIdColumn = getTableColumns(tables.game).id;
+  const actionGameColumn = getTableColumns(tables.actions).gameId;
+
+  const game = await db.select().from(tables.game).where(eq(gameIdColumn, gameId)).limit(1);
+  if (game.length === 0) return null;
+  const log = await db.select().from(tables.actions).where(eq(actionGameColumn, gameId)).orderBy(asc(tables.order));
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    variant,
+    exportedAt: new Date().toISOString(),
+    game: withoutColumns(game[0], LOCAL_GAME_COLUMNS),
+    actions: log.map(action => withoutColumns(action, LOCAL_ACTION_COLUMNS)),
+  };
+}
+
+// A value of the archive checked against its column; undefined for a column left to its default
+function columnValue(column: Column, value: unknown, where: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  if (value === undefined) {
+    return column.notNull && !column.hasDefault
+      ? { ok: false, error: `${where} is missing` }
+      : { ok: true, value: undefined };
+  }
+  if (value === null) {
+    return column.notNull ? { ok: false, error: `${where} cannot be null` } : { ok: true, value: null };
+  }
+
+  switch (column.dataType) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) || (column.columnType === 'PgInteger' && !Number.isInteger(value))) {
+        return { ok: false, error: `${where} must be a number` };
+      }
+      return { ok: true, value };
+    case 'string':
+      return typeof value === 'string' ? { ok: true, value } : { ok: false, error: `${where} must be a string` };
+    case 'boolean':
+      return typeof value === 'boolean' ? { ok: true, value } : { ok: false, error: `${where} must be true or false` };
+    case 'date': {
+      const date = typeof value === 'string' ? new Date(value) : null;
+      return date && !isNaN(date.getTime()) ? { ok: true, value: date } : { ok: false, error: `${where} must be a date` };
+    }
+    default:
+      return { ok: true, value };
+  }
+}
+
+// The archive's row as column values, skipping the named columns
+function rowValues(
+  table: PgTable,
+  source: unknown,
+  skip: string[],
+  where: string
+): { ok: true; row: Record<string, unknown> } | { ok: false; error: string } {
+  if (typeof source !== 'object' || source === null || Array.isArray(source)) {
+    return { ok: false, error: `${where} must be an object` };
+  }
+
+  const row: Record<string, unknown> = {};
+  for (const [name, column] of Object.entries(getTableColumns(table) as Record<string, Column>)) {
+    if (skip.includes(name)) continue;
+    const checked = columnValue(column, (source as Record<string, unknown>)[name], `${where}.${name}`);
+    if (!checked.ok) return checked;
+    if (checked.value !== undefined) row[name] = checked.value;
+  }
+  return { ok: true, row };
+}
+
+// Every row of the board must fit the board size and hold only the game's colours
+function boardError(game: Record<string, unknown>, tables: VariantTables): string | null {
+  const { width, height } = tables.size(game);
+  const colors = tables.colors(game);
+  const board = game.boardState;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || !Number.isInteger(colors)) {
+    return 'game board size is missing';
+  }
+  if (!Array.isArray(board) || board.length !== height) return `game.boardState must have ${height} rows`;
+  for (const row of board) {
+    if (!Array.isArray(row) || row.length !== width) return `game.boardState rows must have ${width} points`;
+    if (!row.every(stone => stone === null || (Number.isInteger(stone) && stone >= 0 && stone < colors))) {
+      return `game.boardState stones must be null or 0-${colors - 1}`;
+    }
+  }
+  return null;
+}
+
+// Every action must be one the variant logs, by one of its colours (and in Zen one of its
+// players), and the log must replay through the engine to the board the game row holds
+function actionsError(variant: ReplayVariant, game: Record<string, unknown>, log: Record<string, unknown>[]): string | null {
+  const tables = TABLES[variant];
+  const colors = tables.colors(game);
+  for (const [i, action] of log.entries()) {
+    if (!tables.actionTypes.includes(action.actionType as string)) {
+      return `actions[${i}].actionType must be ${tables.actionTypes.join(', ')}`;
+    }
+    if (action.stoneColor !== undefined && action.stoneColor !== null && !isIndex(action.stoneColor, colors)) {
+      return `actions[${i}].stoneColor must be 0-${colors - 1}`;
+    }
+    if (variant === 'zen' && action.playerIndex !== undefined && action.playerIndex !== null && !isIndex(action.playerIndex, 3)) {
+      return `actions[${i}].playerIndex must be 0-2`;
+    }
+  }
+
+  // Go Bang's recorded explosions are fed back in as they are, so a malformed one can throw
+  try {
+    const { frames } = replayRows(variant, game, log);
+    if (JSON.stringify(frames[frames.length - 1].board) === JSON.stringify(game.boardState)) return null;
+  } catch {
+    // Reported below like any other log that doesn't replay
+  }
+  return 'actions do not replay to game.boardState';
+}
+
+// Parse and check an archive before anything is written
+export function parseArchive(value: unknown): ArchiveResult {
+  if (typeof value !== 'object' || value === null) return { ok: false, error: 'archive must be a JSON object' };
+  const archive = value as Record<string, unknown>;
+
+  if (archive.format !== ARCHIVE_FORMAT) return { ok: false, error: `format must be ${ARCHIVE_FORMAT}` };
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    return { ok: false, error: `version must be ${ARCHIVE_VERSION} or earlier` };
+  }
+  const variant = archive.variant;
+  if (!REPLAY_VARIANTS.includes(variant as ReplayVariant)) {
+    return { ok: false, error: `variant must be ${REPLAY_VARIANTS.join(', ')}` };
+  }
+  const tables = TABLES[variant as ReplayVariant];
+
+  const game = rowValues(tables.game, archive.game, LOCAL_GAME_COLUMNS, 'game');
+  if (!game.ok) return game;
+  const shape = tables.check(game.row);
+  if (shape) return { ok: false, error: shape };
+  const board = boardError(game.row, tables);
+  if (board) return { ok: false, error: board };
+
+  if (!Array.isArray(archive.actions)) return { ok: false, error: 'actions must be an array' };
+  const log: Record<string, unknown>[] = [];
+  for (const [i, action] of archive.actions.entries()) {
+    const checked = rowValues(tables.actions, action, LOCAL_ACTION_COLUMNS, `actions[${i}]`);
+    if (!checked.ok) return checked;
+    log.push(checked.row);
+  }
+  const replay = actionsError(variant as ReplayVariant, game.row, log);
+  if (replay) return { ok: false, error: replay };
+
+  return {
+    ok: true,
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version: archive.version,
+      variant: variant as ReplayVariant,
+      exportedAt: typeof archive.exportedAt === 'string' ? archive.exportedAt : '',
+      game: game.row,
+      actions: log,
+    },
+  };
+}
+
+// Write a checked archive as a new game and return its id and key pair
+export async function restoreArchive(archive: GameArchive): Promise<{ gameId: string; keyPair: KeyPair }> {
+  const tables = TABLES[archive.variant];
+
+  // Generate key pair for authentication
+  const keyPair = await generateKeyPair();
+  const gameId = await generateGameId(keyPair.publicKey);
+
+  // The restored copy is new here, so the one-year cleanup counts from today
+  await db.insert(tables.game).values({
+    ...archive.game,
+    id: gameId,
+    publicKey: keyPair.publicKey,
+    connectedUsers: 0,
+    updatedAt: new Date(),
+  });
+
+  // Classic and Go Bang logs are ordered by time; actions without one keep their place in the list
+  const start = Date.now() - archive.actions.length;
+  const rows = archive.actions.map((action, i) => ({
+    createdAt: new Date(start + i),
+    ...action,
+    id: crypto.randomUUID(),
+    gameId,
+  }));
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    await db.insert(tables.actions).values(rows.slice(i, i + INSERT_CHUNK));
+  }
+
+  return { gameId, keyPair };
+}
+
+// Shared handler for the per-variant archive routes. A Go Bang archive holds the hidden
+// minefield, so it takes the game's private key (as ?key=, like the share links).
+export async function gameArchiveRoute(variant: ReplayVariant, request: NextRequest, gameId: string): Promise<Response> {
+  try {
+    if (variant === 'bang') {
+      const privateKey = request.nextUrl.searchParams.get('key');
+      if (!privateKey) {
+        return NextResponse.json({ error: 'Private key is required' }, { status: 400 });
+      }
+
+      const game = await db
+        .select({ publicKey: bangGames.publicKey })
+        .from(bangGames)
+        .where(eq(bangGames.id, gameId))
+        .limit(1);
+
+      if (game.length === 0) {
+        return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+      }
+
+      const isValid = await verifyKeyPair(game[0].publicKey, privateKey);
+      if (!isValid) {
+        return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
+      }
+    }
+
+    const archive = await loadArchive(variant, gameId);
+    if (!archive) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${gameId}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting game archive:', error);
+    return NextResponse.json({ error: 'Failed to export game' }, { status: 500 });
+  }
+}
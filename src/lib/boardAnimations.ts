@@ -0,0 +1,210 @@
+// A game's action log played back as an animated GIF or WebP, shared by the per-variant
+// /api/{variant}/[gameId]/animation routes. Each frame is the shared board SVG rasterised by
+// sharp, one at a time, into one tall raw image that sharp encodes as pages of an animation.
+
+import sharp from 'sharp';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DOM_THEME, MIN_IMAGE_SIZE,
+  boardLayout, boardSvg,
+  type BoardPicture, type RenderOptions,
+} from '@/lib/game/boardImage';
+import { framePicture } from '@/lib/boardImages';
+import { loadReplay, type GameReplay, type ReplayVariant } from '@/lib/replays';
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
+
+export type AnimationFormat = 'gif' | 'webp';
+export const ANIMATION_FORMATS: readonly AnimationFormat[] = ['gif', 'webp'];
+
+export function isAnimationFormat(value: unknown): value is AnimationFormat {
+  return typeof value === 'string' && (ANIMATION_FORMATS as readonly string[]).includes(value);
+}
+
+export const MAX_ANIMATION_SIZE = 1000;
+export const DEFAULT_ANIMATION_SIZE = 400;
+export const MIN_FRAME_DELAY = 50;
+export const MAX_FRAME_DELAY = 10000;
+export const DEFAULT_FRAME_DELAY = 800;
+
+// Every frame is held in memory as raw RGBA before encoding; this caps that at about 80MB
+const MAX_ANIMATION_PIXELS = 20_000_000;
+
+// The final position stays up this many frame delays before the animation loops
+const FINAL_FRAME_HOLD = 3;
+
+// The pictures that play moves from..to. Go Bang moves that set off a mine or call in a drone
+// get a frame for each stage: the stone landing, the blast, the drone's target, then the result.
+export function animationPictures(replay: GameReplay, from: number, to: number): BoardPicture[] {
+  const pictures = [framePicture(replay, { ...replay.frames[from], explosion: null, droneTarget: null })];
+
+  for (let n = from + 1; n <= to; n++) {
+    const frame = replay.frames[n];
+    const previous = replay.frames[n - 1];
+
+    if (frame.explosion && frame.stoneColor !== null) {
+      const landed = previous.board.map(row => [...row]);
+      landed[frame.explosion.y][frame.explosion.x] = frame.stoneColor;
+      pictures.push(framePicture(replay, { ...frame, board: landed, explosion: null, droneTarget: null }));
+    }
+    if (frame.droneTarget && frame.beforeDrone) {
+      // The move itself (or the blast), then the drone's target with its stone still there
+      pictures.push(framePicture(replay, { ...frame, board: frame.beforeDrone, droneTarget: null }));
+      pictures.push(framePicture(replay, { ...frame, board: frame.beforeDrone, explosion: null }));
+    }
+    pictures.push(framePicture(replay, frame));
+  }
+
+  return pictures;
+}
+
+// The pictures as one animated image, each shown for delay milliseconds
+export async function encodeAnimation(
+  pictures: BoardPicture[],
+  format: AnimationFormat,
+  options: RenderOptions,
+  delay: number
+): Promise<Buffer> {
+  const { width, height } = boardLayout(pictures[0], options);
+  const frameBytes = width * height * 4;
+
+  // In sequence, straight into the stacked image, so only one frame is being rasterised at a time
+  const raw = Buffer.allocUnsafe(frameBytes * pictures.length);
+  for (const [i, picture] of pictures.entries()) {
+    const page = await sharp(Buffer.from(boardSvg(picture, options)))
+      .resize(width, height, { fit: 'fill' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer();
+    page.copy(raw, i * frameBytes);
+  }
+
+  const delays = pictures.map((_, i) => (i === pictures.length - 1 ? delay * FINAL_FRAME_HOLD : delay));
+  const stacked = sharp(raw, {
+    raw: { width, height: height * pictures.length, channels: 4, pageHeight: height },
+  });
+  return format === 'gif'
+    ? stacked.gif({ delay: delays, loop: 0 }).toBuffer()
+    : stacked.webp({ delay: delays, loop: 0 }).toBuffer();
+}
+
+// The sizes tried, largest first, when a request leaves size to us
+const SIZE_STEP = 20;
+
+// At most count of the pictures, evenly spaced, always keeping the first and last
+export function samplePictures(pictures: BoardPicture[], count: number): BoardPicture[] {
+  if (pictures.length <= count) return pictures;
+  return Array.from({ length: count }, (_, i) => pictures[Math.round((i * (pictures.length - 1)) / (count - 1))]);
+}
+
+function flag(value: string | null, fallback: boolean): boolean {
+  if (value === null) return fallback;
+  return value !== '0' && value !== 'false';
+}
+
+function intParam(query: URLSearchParams, name: string, fallback: number): number {
+  return query.has(name) ? Number(query.get(name)) : fallback;
+}
+
+// Shared handler for the per-variant animation routes
+export async function boardAnimationRoute(variant: ReplayVariant, request: NextRequest, gameId: string): Promise<Response> {
+  try {
+    const rateLimitResult = checkRateLimit(`${variant}:animation:${gameId}:${getClientIP(request)}`, RATE_LIMITS.animation);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please slow down.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': String(rateLimitResult.resetTime),
+          },
+        }
+      );
+    }
+
+    const query = request.nextUrl.searchParams;
+
+    const format = query.get('format') ?? 'gif';
+    if (!isAnimationFormat(format)) {
+      return NextResponse.json({ error: 'Invalid format. Must be gif or webp.' }, { status: 400 });
+    }
+
+    const size = intParam(query, 'size', DEFAULT_ANIMATION_SIZE);
+    if (!Number.isInteger(size) || size < MIN_IMAGE_SIZE || size > MAX_ANIMATION_SIZE) {
+      return NextResponse.json(
+        { error: `Invalid size. Must be ${MIN_IMAGE_SIZE}-${MAX_ANIMATION_SIZE} pixels.` },
+        { status: 400 }
+      );
+    }
+
+    const delay = intParam(query, 'delay', DEFAULT_FRAME_DELAY);
+    if (!Number.isInteger(delay) || delay < MIN_FRAME_DELAY || delay > MAX_FRAME_DELAY) {
+      return NextResponse.json(
+        { error: `Invalid delay. Must be ${MIN_FRAME_DELAY}-${MAX_FRAME_DELAY} milliseconds.` },
+        { status: 400 }
+      );
+    }
+
+    // Dom boards are classic games drawn in their own colours
+    const theme = query.get('theme');
+    if (theme !== null && !(variant === 'games' && (theme === 'classic' || theme === 'dom'))) {
+      return NextResponse.json({ error: 'Invalid theme. Must be classic or dom.' }, { status: 400 });
+    }
+
+    const replay = await loadReplay(variant, gameId);
+    if (!replay) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    // Default to the whole game, from the empty (or handicap) board to the current position
+    const last = replay.frames.length - 1;
+    const from = intParam(query, 'from', 0);
+    const to = intParam(query, 'to', last);
+    if (!Number.isInteger(from) || from < 0 || from > last) {
+      return NextResponse.json({ error: `Invalid from. Must be 0-${last}.` }, { status: 400 });
+    }
+    if (!Number.isInteger(to) || to < from || to > last) {
+      return NextResponse.json({ error: `Invalid to. Must be ${from}-${last}.` }, { status: 400 });
+    }
+
+    let pictures = animationPictures(theme === 'dom' ? { ...replay, theme: DOM_THEME } : replay, from, to);
+    const options: RenderOptions = {
+      size,
+      coordinates: flag(query.get('coordinates'), true),
+      lastMoveMarker: flag(query.get('lastMove'), true),
+    };
+    const pixels = () => {
+      const layout = boardLayout(pictures[0], options);
+      return layout.width * layout.height;
+    };
+
+    // Without an explicit size, long games get a smaller board; without an explicit range, and
+    // still too long at the smallest size, they skip frames rather than fail
+    if (!query.has('size')) {
+      while (pixels() * pictures.length > MAX_ANIMATION_PIXELS && options.size > MIN_IMAGE_SIZE) {
+        options.size = Math.max(MIN_IMAGE_SIZE, options.size - SIZE_STEP);
+      }
+    }
+    if (!query.has('from') && !query.has('to') && pixels() * pictures.length > MAX_ANIMATION_PIXELS) {
+      pictures = samplePictures(pictures, Math.max(2, Math.floor(MAX_ANIMATION_PIXELS / pixels())));
+    }
+
+    if (pixels() * pictures.length > MAX_ANIMATION_PIXELS) {
+      return NextResponse.json(
+        { error: 'Animation too large. Choose a shorter move range or a smaller size.' },
+        { status: 400 }
+      );
+    }
+
+    const animation = await encodeAnimation(pictures, format, options, delay);
+    return new Response(new Uint8Array(animation), {
+      headers: {
+        'Content-Type': format === 'gif' ? 'image/gif' : 'image/webp',
+        'Cache-Control': 'public, max-age=60',
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering board animation:', error);
+    return NextResponse.json({ error: 'Failed to render board animation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+// GET /api/{variant}/[gameId]/image - the board at any move as SVG or PNG.
+// SVG comes straight from the shared renderer; PNG goes through next/og, which rasterises
+// the SVG but has no fonts for SVG text, so the coordinates are laid over it as text nodes.
+
+import { ImageResponse } from 'next/og';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DEFAULT_IMAGE_SIZE, DOM_THEME, MAX_IMAGE_SIZE, MIN_IMAGE_SIZE,
+  boardLayout, boardSvg, coordinateLabels, isImageFormat,
+  type BoardPicture, type ImageFormat, type RenderOptions,
+} from '@/lib/game/boardImage';
+import { loadReplay, type ReplayFrame, type ReplayVariant } from '@/lib/replays';
+
+// A picture of one frame of a replay
+export function framePicture(
+  replay: { width: number; height: number; theme: BoardPicture['theme'] },
+  frame: ReplayFrame
+): BoardPicture {
+  return {
+    board: frame.board,
+    width: replay.width,
+    height: replay.height,
+    theme: replay.theme,
+    lastMove: frame.lastMove,
+    explosion: frame.explosion,
+    droneTarget: frame.droneTarget,
+  };
+}
+
+// The picture as an image response in the requested format
+export function boardImageResponse(
+  picture: BoardPicture,
+  format: ImageFormat,
+  options: RenderOptions,
+  headers: Record<string, string> = {}
+): Response {
+  if (format === 'svg') {
+    return new Response(boardSvg(picture, options), {
+      headers: { 'Content-Type': 'image/svg+xml', ...headers },
+    });
+  }
+
+  const layout = boardLayout(picture, options);
+  const svg = boardSvg(picture, options, false);
+  const source = `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+  const labels = options.coordinates ? coordinateLabels(picture, layout) : [];
+  const fontSize = Math.max(8, layout.cell * 0.4);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          position: 'relative',
+          backgroundImage: `url(${source})`,
+          backgroundSize: `${layout.width}px ${layout.height}px`,
+        }}
+      >
+        {labels.map((label, i) => (
+          <div
+            key={i}
+            style={{
+              position: 'absolute',
+              left: label.x - layout.cell / 2,
+              top: label.y - layout.cell / 2,
+              width: layout.cell,
+              height: layout.cell,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize,
+              fontWeight: 700,
+              color: picture.theme.label,
+            }}
+          >
+            {label.text}
+          </div>
+        ))}
+      </div>
+    ),
+    { width: layout.width, height: layout.height, headers }
+  );
+}
+
+function flag(value: string | null, fallback: boolean): boolean {
+  if (value === null) return fallback;
+  return value !== '0' && value !== 'false';
+}
+
+// Shared handler for the per-variant image routes
+export async function boardImageRoute(variant: ReplayVariant, request: NextRequest, gameId: string): Promise<Response> {
+  try {
+    const query = request.nextUrl.searchParams;
+
+    const format = query.get('format') ?? 'png';
+    if (!isImageFormat(format)) {
+      return NextResponse.json({ error: 'Invalid format. Must be svg or png.' }, { status: 400 });
+    }
+
+    const size = query.has('size') ? Number(query.get('size')) : DEFAULT_IMAGE_SIZE;
+    if (!Number.isInteger(size) || size < MIN_IMAGE_SIZE || size > MAX_IMAGE_SIZE) {
+      return NextResponse.json(
+        { error: `Invalid size. Must be ${MIN_IMAGE_SIZE}-${MAX_IMAGE_SIZE} pixels.` },
+        { status: 400 }
+      );
+    }
+
+    // Dom boards are classic games drawn in their own colours
+    const theme = query.get('theme');
+    if (theme !== null && !(variant === 'games' && (theme === 'classic' || theme === 'dom'))) {
+      return NextResponse.json({ error: 'Invalid theme. Must be classic or dom.' }, { status: 400 });
+    }
+
+    const replay = await loadReplay(variant, gameId);
+    if (!replay) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    // Default to the current position
+    const last = replay.frames.length - 1;
+    const move = query.has('move') ? Number(query.get('move')) : last;
+    if (!Number.isInteger(move) || move < 0 || move > last) {
+      return NextResponse.json({ error: `Invalid move. Must be 0-${last}.` }, { status: 400 });
+    }
+
+    const picture = framePicture(
+      theme === 'dom' ? { ...replay, theme: DOM_THEME } : replay,
+      replay.frames[move]
+    );
+    const options: RenderOptions = {
+      size,
+      coordinates: flag(query.get('coordinates'), true),
+      lastMoveMarker: flag(query.get('lastMove'), true),
+    };
+
+    // Earlier moves only change on undo, so a short cache is plenty
+    return boardImageResponse(picture, format, options, { 'Cache-Control': 'public, max-age=60' });
+  } catch (error) {
+    console.error('Error rendering board image:', error);
+    return NextResponse.json({ error: 'Failed to render board image' }, { status: 500 });
+  }
+}
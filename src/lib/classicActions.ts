@@ -0,0 +1,163 @@
+// Recording actions on classic boards, shared by the action route and the bot seat.
+// The bot's moves go through the same engine and the same writes as a player's, so
+// replay, undo and history treat them like any other action.
+
+import { db, games, actions, type Game } from '@/lib/db';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { applyAction, removedStones, type ActionInput, type ActionSuccess } from '@/lib/game/engine';
+import { CLASSIC_RULES, classicState, classicColumns } from '@/lib/game/variants';
+import { PASSES_TO_END, passesAfter, resignationResult, type GameStatus } from '@/lib/game/result';
+import { chooseBotMove, type BotMove } from '@/lib/game/bot';
+
+// Colour of the pass that was the game's last action, or null if it wasn't a pass
+async function lastPasser(gameId: string): Promise<number | null> {
+  const last = await db
+    .select({ actionType: actions.actionType, stoneColor: actions.stoneColor })
+    .from(actions)
+    .where(eq(actions.gameId, gameId))
+    .orderBy(desc(actions.createdAt))
+    .limit(1);
+  return last.length > 0 && last[0].actionType === 'pass' ? last[0].stoneColor : null;
+}
+
+// Log a pass or resignation by `stoneColor` and update the game's status to match. Returns null,
+// changing nothing, if another action landed after `game` was read.
+export async function recordPassOrResign(game: Game, actionType: 'pass' | 'resign', stoneColor: 0 | 1) {
+  let status: GameStatus = game.status as GameStatus;
+  let result: string | null = null;
+  let consecutivePasses = game.consecutivePasses;
+  let koPointX = game.koPointX;
+  let koPointY = game.koPointY;
+
+  if (actionType === 'resign') {
+    status = 'finished';
+    result = resignationResult(stoneColor);
+  } else {
+    // A pass lifts the ko; passes by both colours in a row start scoring
+    if (consecutivePasses > 0) {
+      consecutivePasses = passesAfter(consecutivePasses, await lastPasser(game.id), stoneColor);
+    } else {
+      consecutivePasses++;
+    }
+    koPointX = null;
+    koPointY = null;
+    if (consecutivePasses >= PASSES_TO_END) {
+      status = 'scoring';
+    }
+  }
+
+  const updateResult = await db.update(games).set({
+    status,
+    result,
+    consecutivePasses,
+    koPointX,
+    koPointY,
+    deadStones: [],
+    scoreAcceptedBy: [],
+    moveNumber: sql`${games.moveNumber} + 1`,
+    updatedAt: new Date(),
+  }).where(and(eq(games.id, game.id), eq(games.moveNumber, game.moveNumber)))
+    .returning({ moveNumber: games.moveNumber });
+  if (updateResult.length === 0) return null;
+
+  await db.insert(actions).values({
+    id: crypto.randomUUID(),
+    gameId: game.id,
+    actionType,
+    stoneColor,
+  });
+
+  return { status, result, consecutivePasses, koPointX, koPointY, moveNumber: updateResult[0].moveNumber };
+}
+
+// Log a place, remove or move the engine accepted and store the resulting board. Returns the new
+// columns and move number, or null if another action landed after previousMoveNumber was read.
+export async function recordBoardAction(
+  gameId: string,
+  input: ActionInput & { fromX?: number | null; fromY?: number | null; toX?: number | null; toY?: number | null },
+  outcome: ActionSuccess,
+  previousMoveNumber: number
+) {
+  const columns = classicColumns(outcome.state);
+
+  // Only written over the position the outcome was computed from
+  const updateResult = await db.update(games).set({
+    ...columns,
+    positionHashes: outcome.state.positionHashes,
+    consecutivePasses: 0,
+    moveNumber: sql`${games.moveNumber} + 1`,
+    updatedAt: new Date(),
+  }).where(and(eq(games.id, gameId), eq(games.moveNumber, previousMoveNumber)))
+    .returning({ moveNumber: games.moveNumber });
+  if (updateResult.length === 0) return null;
+
+  await db.insert(actions).values({
+    id: crypto.randomUUID(),
+    gameId,
+    actionType: String(input.actionType),
+    stoneColor: outcome.color,
+    fromX: input.fromX ?? null,
+    fromY: input.fromY ?? null,
+    toX: input.toX ?? null,
+    toY: input.toY ?? null,
+    capturedStones: removedStones(outcome.events),
+    koPointX: columns.koPointX,
+    koPointY: columns.koPointY,
+  });
+
+  return { columns, moveNumber: updateResult[0].moveNumber };
+}
+
+// Classic boards don't enforce turns, so the player to move is whoever didn't place or
+// pass last - White when a handicap game has no moves yet, otherwise Black
+export async function colorToMove(game: Game): Promise<0 | 1> {
+  const last = await db
+    .select({ stoneColor: actions.stoneColor })
+    .from(actions)
+    .where(and(eq(actions.gameId, game.id), inArray(actions.actionType, ['place', 'pass'])))
+    .orderBy(desc(actions.createdAt))
+    .limit(1);
+
+  if (last.length === 0 || last[0].stoneColor === null) return game.handicap > 0 ? 1 : 0;
+  return last[0].stoneColor === 0 ? 1 : 0;
+}
+
+// What the bot seat did and the game's columns after it, for an action response to spread
+// over its own so the client sees the position after the bot rather than before it
+export type BotTurn = Record<string, unknown> & { botMove: BotMove; moveNumber: number };
+
+// Let the bot seat answer if it is its turn. Returns its move and the game after it, or null when
+// the game has no bot, isn't in play, is waiting on the human or changed while it thought.
+export async function playBotTurn(gameId: string): Promise<BotTurn | null> {
+  const game = await db
+    .select()
+    .from(games)
+    .where(eq(games.id, gameId))
+    .limit(1);
+
+  if (game.length === 0 || game[0].botColor === null || game[0].status !== 'playing') return null;
+  const botColor = game[0].botColor === 1 ? 1 : 0;
+  if (await colorToMove(game[0]) !== botColor) return null;
+
+  const state = classicState(game[0]);
+  const move = await chooseBotMove(state, botColor, {
+    playouts: game[0].botPlayouts,
+    komi: game[0].komi,
+    consecutivePasses: game[0].consecutivePasses,
+  });
+
+  if (move.type === 'place') {
+    const input = { actionType: 'place', stoneColor: botColor, toX: move.x, toY: move.y };
+    const outcome = applyAction(state, input, CLASSIC_RULES);
+    if (outcome.ok) {
+      const recorded = await recordBoardAction(gameId, input, outcome, game[0].moveNumber);
+      if (!recorded) return null;
+      return { ...recorded.columns, consecutivePasses: 0, moveNumber: recorded.moveNumber, botMove: move };
+    }
+    // The search only offers legal moves, but never leave the human waiting
+    console.error('Bot chose an illegal move:', outcome.violation);
+  }
+
+  const turn = await recordPassOrResign(game[0], 'pass', botColor);
+  return turn ? { ...turn, botMove: { type: 'pass' } } : null;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, integer, jsonb, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, integer, jsonb, boolean, real } from 'drizzle-orm/pg-core';
 
 // Games table - shared board that anyone with the key can access
 export const games = pgTable('games', {
@@ -17,6 +17,20 @@ export const games = pgTable('games', {
   lastMoveY: integer('last_move_y'), // Y position of last placed stone
   koPointX: integer('ko_point_x'), // X position of Ko point (cannot play here next)
   koPointY: integer('ko_point_y'), // Y position of Ko point (cannot play here next)
+  superko: text('superko').notNull().default('positional'), // 'positional' or 'situational'
+  ruleset: text('ruleset').notNull().default('japanese'), // 'japanese', 'chinese' or 'aga'
+  komi: real('komi').notNull().default(6.5), // Points added to White's score
+  handicap: integer('handicap').notNull().default(0), // Black stones placed before the first move (0 or 2-9); White moves first when set
+  handicapStones: jsonb('handicap_stones').notNull().default([]).$type<{ x: number; y: number }[]>(), // Where they were placed
+  positionHashes: jsonb('position_hashes').notNull().default([]).$type<string[]>(), // Zobrist hashes of positions since the last removal
+  status: text('status').notNull().default('playing'), // 'playing', 'scoring' or 'finished'
+  result: text('result'), // SGF-style result once finished, e.g. 'W+R', 'B+3.5', 'Draw'
+  consecutivePasses: integer('consecutive_passes').notNull().default(0),
+  moveNumber: integer('move_number').notNull().default(0), // Bumped by every action, undo, clear and scoring change, so clients can say which position they acted on
+  deadStones: jsonb('dead_stones').notNull().default([]).$type<{ x: number; y: number }[]>(), // Marked dead while scoring
+  scoreAcceptedBy: jsonb('score_accepted_by').notNull().default([]).$type<number[]>(), // Colours that accepted the marking
+  botColor: integer('bot_color'), // Colour played by the computer (0=black, 1=white), null for no bot
+  botPlayouts: integer('bot_playouts').notNull().default(500), // Bot strength: Monte Carlo playouts per move
   connectedUsers: integer('connected_users').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -33,7 +47,7 @@ export interface CapturedStoneInfo {
 export const actions = pgTable('actions', {
   id: text('id').primaryKey(), // UUID
   gameId: text('game_id').notNull().references(() => games.id, { onDelete: 'cascade' }),
-  actionType: text('action_type').notNull(), // 'place', 'remove', 'move'
+  actionType: text('action_type').notNull(), // 'place', 'remove', 'move', 'pass', 'resign'
   stoneColor: integer('stone_color'), // 0=black, 1=white
   fromX: integer('from_x'),
   fromY: integer('from_y'),
@@ -71,8 +85,12 @@ export const crazyGames = pgTable('crazy_games', {
   lastMoveY: integer('last_move_y'),
   koPointX: integer('ko_point_x'),
   koPointY: integer('ko_point_y'),
+  superko: text('superko').notNull().default('positional'),
+  positionHashes: jsonb('position_hashes').notNull().default([]).$type<string[]>(),
+  ruleset: text('ruleset').notNull().default('japanese'), // Decides how the final standings are counted
   currentTurn: integer('current_turn').notNull().default(0), // 0=black, 1=white, 2=black-cross, 3=white-cross
   moveNumber: integer('move_number').notNull().default(0),
+  botSeats: jsonb('bot_seats').notNull().default([]).$type<number[]>(), // Colours played by the computer
   connectedUsers: integer('connected_users').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -116,6 +134,7 @@ export const wildeGames = pgTable('wilde_games', {
   publicKey: text('public_key').notNull(),
   boardWidth: integer('board_width').notNull().default(19), // 3-20
   boardHeight: integer('board_height').notNull().default(19), // 3-20
+  topology: text('topology').notNull().default('flat'), // 'flat', 'cylinder' or 'torus'
   playerCount: integer('player_count').notNull().default(2), // 2-8
   boardState: jsonb('board_state').notNull().$type<(number | null)[][]>(),
   // Stone pots as JSON array: [{potCount, returned}, ...]
@@ -124,9 +143,13 @@ export const wildeGames = pgTable('wilde_games', {
   lastMoveY: integer('last_move_y'),
   koPointX: integer('ko_point_x'),
   koPointY: integer('ko_point_y'),
+  superko: text('superko').notNull().default('positional'),
+  positionHashes: jsonb('position_hashes').notNull().default([]).$type<string[]>(),
+  ruleset: text('ruleset').notNull().default('japanese'), // Decides how the final standings are counted
   currentTurn: integer('current_turn').notNull().default(0),
   moveNumber: integer('move_number').notNull().default(0),
   pakitaMode: boolean('pakita_mode').notNull().default(false), // Pakita chaos mode
+  botSeats: jsonb('bot_seats').notNull().default([]).$type<number[]>(), // Colours played by the computer
   customHues: jsonb('custom_hues').$type<Record<number, number>>(), // Player index -> hue offset
   connectedUsers: integer('connected_users').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -185,6 +208,9 @@ export const zenGames = pgTable('zen_games', {
   lastMoveY: integer('last_move_y'),
   koPointX: integer('ko_point_x'),
   koPointY: integer('ko_point_y'),
+  superko: text('superko').notNull().default('positional'),
+  positionHashes: jsonb('position_hashes').notNull().default([]).$type<string[]>(),
+  ruleset: text('ruleset').notNull().default('japanese'), // Decides how the final standings are counted
   moveNumber: integer('move_number').notNull().default(0),
   connectedUsers: integer('connected_users').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -275,8 +301,17 @@ export const bangGames = pgTable('bang_games', {
   lastDroneTargetY: integer('last_drone_target_y'),
   koPointX: integer('ko_point_x'),
   koPointY: integer('ko_point_y'),
+  superko: text('superko').notNull().default('positional'),
+  positionHashes: jsonb('position_hashes').notNull().default([]).$type<string[]>(),
+  ruleset: text('ruleset').notNull().default('japanese'),
+  komi: real('komi').notNull().default(6.5),
   currentTurn: integer('current_turn').notNull().default(0), // 0=black, 1=white
   moveNumber: integer('move_number').notNull().default(0),
+  status: text('status').notNull().default('playing'), // 'playing', 'scoring' or 'finished'
+  result: text('result'),
+  consecutivePasses: integer('consecutive_passes').notNull().default(0),
+  deadStones: jsonb('dead_stones').notNull().default([]).$type<{ x: number; y: number }[]>(),
+  scoreAcceptedBy: jsonb('score_accepted_by').notNull().default([]).$type<number[]>(),
   connectedUsers: integer('connected_users').notNull().default(0),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -316,3 +351,17 @@ export const siteSettings = pgTable('site_settings', {
 
 export type SiteSetting = typeof siteSettings.$inferSelect;
 export type NewSiteSetting = typeof siteSettings.$inferInsert;
+
+// Presence table - who has a game open, kept fresh by heartbeats from the game pages
+export const gamePresence = pgTable('game_presence', {
+  id: text('id').primaryKey(), // `${variant}:${gameId}:${clientId}`
+  variant: text('variant').notNull(), // 'games', 'crazy', 'wilde', 'zen' or 'bang'
+  gameId: text('game_id').notNull(), // Any variant's game, so no foreign key
+  clientId: text('client_id').notNull(), // Random id of one browser tab
+  isPlayer: boolean('is_player').notNull().default(false), // Sent the game's private key; spectators don't
+  color: integer('color'), // Colour (Zen: player) the tab last moved for, null until it moves
+  lastSeen: timestamp('last_seen').notNull().defaultNow(),
+});
+
+export type GamePresenceRow = typeof gamePresence.$inferSelect;
+export type NewGamePresenceRow = typeof gamePresence.$inferInsert;
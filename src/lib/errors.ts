@@ -2,6 +2,15 @@ import { db } from '@/lib/db';
 import { errorToggles } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { NextResponse } from 'next/server';
+import {
+  applyAction,
+  WAIVABLE_VIOLATIONS,
+  type ActionInput,
+  type ActionSuccess,
+  type EngineState,
+  type RuleViolation,
+  type VariantRules,
+} from '@/lib/game/engine';
 
 // Cache for error toggles (refreshed every 60 seconds)
 let toggleCache: Map<string, boolean> = new Map();
@@ -64,6 +73,7 @@ export const ERROR_IDS = {
   NORMAL_NO_WHITE_STONES: 'normal_no_white_stones',
   NORMAL_SUICIDE_NOT_ALLOWED: 'normal_suicide_not_allowed',
   NORMAL_KO_VIOLATION: 'normal_ko_violation',
+  NORMAL_SUPERKO_VIOLATION: 'normal_superko_violation',
   NORMAL_NO_STONE_AT_POSITION: 'normal_no_stone_at_position',
   NORMAL_INVALID_FROM_POSITION: 'normal_invalid_from_position',
   NORMAL_INVALID_TO_POSITION: 'normal_invalid_to_position',
@@ -75,6 +85,9 @@ export const ERROR_IDS = {
   NORMAL_MOVE_SUICIDE: 'normal_move_suicide',
   NORMAL_INVALID_ACTION: 'normal_invalid_action',
   NORMAL_NO_MOVES_UNDO: 'normal_no_moves_undo',
+  NORMAL_GAME_OVER: 'normal_game_over',
+  NORMAL_SCORING_IN_PROGRESS: 'normal_scoring_in_progress',
+  NORMAL_NOT_SCORING: 'normal_not_scoring',
 
   // Crazy Go
   CRAZY_PRIVATE_KEY_REQUIRED: 'crazy_private_key_required',
@@ -89,6 +102,7 @@ export const ERROR_IDS = {
   CRAZY_NO_STONES_IN_POT: 'crazy_no_stones_in_pot',
   CRAZY_SUICIDE_NOT_ALLOWED: 'crazy_suicide_not_allowed',
   CRAZY_KO_VIOLATION: 'crazy_ko_violation',
+  CRAZY_SUPERKO_VIOLATION: 'crazy_superko_violation',
   CRAZY_NO_STONE_AT_POSITION: 'crazy_no_stone_at_position',
   CRAZY_INVALID_FROM_POSITION: 'crazy_invalid_from_position',
   CRAZY_INVALID_TO_POSITION: 'crazy_invalid_to_position',
@@ -115,6 +129,7 @@ export const ERROR_IDS = {
   WILDE_NO_STONES_IN_POT: 'wilde_no_stones_in_pot',
   WILDE_SUICIDE_NOT_ALLOWED: 'wilde_suicide_not_allowed',
   WILDE_KO_VIOLATION: 'wilde_ko_violation',
+  WILDE_SUPERKO_VIOLATION: 'wilde_superko_violation',
   WILDE_NO_STONE_AT_POSITION: 'wilde_no_stone_at_position',
   WILDE_INVALID_FROM_POSITION: 'wilde_invalid_from_position',
   WILDE_INVALID_TO_POSITION: 'wilde_invalid_to_position',
@@ -141,6 +156,7 @@ export const ERROR_IDS = {
   ZEN_NO_STONES_IN_POT: 'zen_no_stones_in_pot',
   ZEN_SUICIDE_NOT_ALLOWED: 'zen_suicide_not_allowed',
   ZEN_KO_VIOLATION: 'zen_ko_violation',
+  ZEN_SUPERKO_VIOLATION: 'zen_superko_violation',
   ZEN_NO_STONE_AT_POSITION: 'zen_no_stone_at_position',
   ZEN_INVALID_FROM_POSITION: 'zen_invalid_from_position',
   ZEN_INVALID_TO_POSITION: 'zen_invalid_to_position',
@@ -152,4 +168,151 @@ export const ERROR_IDS = {
   ZEN_INVALID_ACTION: 'zen_invalid_action',
   ZEN_NO_MOVES_UNDO: 'zen_no_moves_undo',
   ZEN_NO_MOVES_REPLAY: 'zen_no_moves_replay',
+
+  // Go Bang
+  BANG_PRIVATE_KEY_REQUIRED: 'bang_private_key_required',
+  BANG_GAME_NOT_FOUND: 'bang_game_not_found',
+  BANG_INVALID_PRIVATE_KEY: 'bang_invalid_private_key',
+  BANG_INVALID_STONE_COLOR: 'bang_invalid_stone_color',
+  BANG_NOT_YOUR_TURN: 'bang_not_your_turn',
+  BANG_INVALID_POSITION: 'bang_invalid_position',
+  BANG_POSITION_OUT_OF_BOUNDS: 'bang_position_out_of_bounds',
+  BANG_POSITION_OCCUPIED: 'bang_position_occupied',
+  BANG_NO_BLACK_STONES: 'bang_no_black_stones',
+  BANG_NO_WHITE_STONES: 'bang_no_white_stones',
+  BANG_SUICIDE_NOT_ALLOWED: 'bang_suicide_not_allowed',
+  BANG_KO_VIOLATION: 'bang_ko_violation',
+  BANG_SUPERKO_VIOLATION: 'bang_superko_violation',
+  BANG_NO_STONE_AT_POSITION: 'bang_no_stone_at_position',
+  BANG_INVALID_FROM_POSITION: 'bang_invalid_from_position',
+  BANG_INVALID_TO_POSITION: 'bang_invalid_to_position',
+  BANG_FROM_OUT_OF_BOUNDS: 'bang_from_out_of_bounds',
+  BANG_TO_OUT_OF_BOUNDS: 'bang_to_out_of_bounds',
+  BANG_NO_STONE_FROM: 'bang_no_stone_from',
+  BANG_TO_OCCUPIED: 'bang_to_occupied',
+  BANG_INVALID_ACTION: 'bang_invalid_action',
+  BANG_NO_MOVES_UNDO: 'bang_no_moves_undo',
+  BANG_GAME_OVER: 'bang_game_over',
+  BANG_SCORING_IN_PROGRESS: 'bang_scoring_in_progress',
+  BANG_NOT_SCORING: 'bang_not_scoring',
 } as const;
+
+export type GameType = 'normal' | 'crazy' | 'wilde' | 'zen' | 'bang';
+
+export interface RuleError {
+  id?: string; // Error toggle id, if admins can switch this error off
+  message: string;
+}
+
+// Default messages for rule violations reported by the rules engine
+const RULE_MESSAGES: Record<RuleViolation, string> = {
+  invalid_action: 'Invalid action type',
+  invalid_stone_color: 'Invalid stone color',
+  not_your_turn: 'Not your turn',
+  invalid_position: 'Invalid position',
+  position_out_of_bounds: 'Position out of bounds',
+  position_occupied: 'Position is occupied',
+  no_stones_in_pot: 'No stones of this color in pot',
+  suicide_not_allowed: 'Suicide move not allowed',
+  ko_violation: 'Ko rule violation',
+  superko_violation: 'Superko violation - this position has already occurred',
+  no_stone_at_position: 'No stone at position',
+  invalid_from_position: 'Invalid from position',
+  invalid_to_position: 'Invalid to position',
+  from_out_of_bounds: 'From position out of bounds',
+  to_out_of_bounds: 'To position out of bounds',
+  same_position: 'Cannot move to same position',
+  no_stone_from: 'No stone at from position',
+  to_occupied: 'To position is occupied',
+  move_suicide: 'Suicide move not allowed',
+};
+
+const ID_PREFIX: Record<GameType, string> = {
+  normal: 'NORMAL',
+  crazy: 'CRAZY',
+  wilde: 'WILDE',
+  zen: 'ZEN',
+  bang: 'BANG',
+};
+
+// Where a variant's ids or messages don't follow the <PREFIX>_<VIOLATION> pattern
+type RuleErrorOverride = RuleError | ((color: number | undefined) => RuleError);
+const RULE_ERROR_OVERRIDES: Record<GameType, Partial<Record<RuleViolation, RuleErrorOverride>>> = {
+  normal: {
+    no_stones_in_pot: (color) => color === 1
+      ? { id: ERROR_IDS.NORMAL_NO_WHITE_STONES, message: 'No white stones in pot' }
+      : { id: ERROR_IDS.NORMAL_NO_BLACK_STONES, message: 'No black stones in pot' },
+    suicide_not_allowed: { id: ERROR_IDS.NORMAL_SUICIDE_NOT_ALLOWED, message: 'Cannot place stone with no liberties unless it captures' },
+    ko_violation: { id: ERROR_IDS.NORMAL_KO_VIOLATION, message: 'Ko rule violation - cannot recapture immediately' },
+    move_suicide: { id: ERROR_IDS.NORMAL_MOVE_SUICIDE, message: 'Cannot move stone to position with no liberties unless it captures' },
+  },
+  crazy: {
+    move_suicide: { id: ERROR_IDS.CRAZY_SUICIDE_NOT_ALLOWED, message: 'Suicide move not allowed' },
+  },
+  wilde: {
+    not_your_turn: { id: ERROR_IDS.WILDE_INVALID_MOVE, message: 'Invalid move' },
+    move_suicide: { id: ERROR_IDS.WILDE_SUICIDE_NOT_ALLOWED, message: 'Suicide move not allowed' },
+  },
+  zen: {
+    no_stones_in_pot: { id: ERROR_IDS.ZEN_NO_STONES_IN_POT, message: 'No stones in pot' },
+    move_suicide: { id: ERROR_IDS.ZEN_SUICIDE_NOT_ALLOWED, message: 'Suicide move not allowed' },
+  },
+  bang: {
+    no_stones_in_pot: (color) => color === 1
+      ? { id: ERROR_IDS.BANG_NO_WHITE_STONES, message: 'No white stones in pot' }
+      : { id: ERROR_IDS.BANG_NO_BLACK_STONES, message: 'No black stones in pot' },
+    move_suicide: { id: ERROR_IDS.BANG_SUICIDE_NOT_ALLOWED, message: 'Suicide move not allowed' },
+  },
+};
+
+/**
+ * Look up the toggle id and message for a rule violation in a given variant.
+ */
+export function getRuleError(gameType: GameType, violation: RuleViolation, color?: number): RuleError {
+  const override = RULE_ERROR_OVERRIDES[gameType][violation];
+  if (override) {
+    return typeof override === 'function' ? override(color) : override;
+  }
+  const key = `${ID_PREFIX[gameType]}_${violation.toUpperCase()}`;
+  const id = (ERROR_IDS as Record<string, string>)[key];
+  return { id, message: RULE_MESSAGES[violation] };
+}
+
+/**
+ * Which of the given waivable rules admins have switched off for a variant.
+ */
+export async function waivedRules(gameType: GameType, violations: RuleViolation[], color?: number): Promise<Set<RuleViolation>> {
+  const waived = new Set<RuleViolation>();
+  for (const violation of violations) {
+    const { id } = getRuleError(gameType, violation, color);
+    if (id && WAIVABLE_VIOLATIONS.has(violation) && !(await isErrorEnabled(id))) waived.add(violation);
+  }
+  return waived;
+}
+
+/**
+ * Run an action through the rules engine, honouring the admin error toggles.
+ * A disabled toggle on a waivable rule (turn order, suicide, ko, empty pot) lets the
+ * action through; every other violation is returned as a 400 response.
+ */
+export async function resolveAction(
+  gameType: GameType,
+  state: EngineState,
+  input: ActionInput,
+  rules: VariantRules
+): Promise<{ outcome: ActionSuccess; response?: undefined } | { outcome?: undefined; response: NextResponse }> {
+  const waived = new Set<RuleViolation>();
+  const color = typeof input.stoneColor === 'number' ? input.stoneColor : undefined;
+
+  for (;;) {
+    const outcome = applyAction(state, input, rules, waived);
+    if (outcome.ok) return { outcome };
+
+    const ruleError = getRuleError(gameType, outcome.violation, rules.placeColor ? rules.placeColor(state) : color);
+    if (ruleError.id && WAIVABLE_VIOLATIONS.has(outcome.violation) && !(await isErrorEnabled(ruleError.id))) {
+      waived.add(outcome.violation);
+      continue;
+    }
+    return { response: NextResponse.json({ error: ruleError.message }, { status: 400 }) };
+  }
+}
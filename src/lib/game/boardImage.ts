@@ -0,0 +1,275 @@
+// Server-side board pictures - one SVG renderer behind the image, preview and replay exports.
+// Colours follow the in-app boards (GoBoard, CrazyGoBoard, WildeGoBoard, ZenGoBoard) so a
+// shared picture looks like the board the players saw.
+
+import { WILDE_COLORS, adjustColorHue } from '@/lib/wilde/colors';
+import type { GenericBoard, Position } from './shared';
+
+export type ImageFormat = 'svg' | 'png';
+export const IMAGE_FORMATS: readonly ImageFormat[] = ['svg', 'png'];
+
+export function isImageFormat(value: unknown): value is ImageFormat {
+  return typeof value === 'string' && (IMAGE_FORMATS as readonly string[]).includes(value);
+}
+
+export const MIN_IMAGE_SIZE = 120;
+export const MAX_IMAGE_SIZE = 2000;
+export const DEFAULT_IMAGE_SIZE = 600;
+
+export interface StoneStyle {
+  light: string;      // Highlight at the top-left of the stone
+  dark: string;       // Shadow edge
+  outline: string;
+  cross?: string;     // Crazy Go's cross-marked stones
+  stripes?: string[]; // Go Bang's flag stones, top to bottom
+  glow?: string;      // Halo behind the stone (Dom)
+  marker: string;     // Last-move ring drawn on this stone
+}
+
+export interface BoardTheme {
+  background: string;
+  line: string;
+  star: string;
+  label: string;
+  stones: StoneStyle[]; // Indexed by stone colour
+}
+
+const BLACK: StoneStyle = { light: '#4a4a4a', dark: '#1a1a1a', outline: '#000000', marker: '#ffffff' };
+const WHITE: StoneStyle = { light: '#ffffff', dark: '#d0d0d0', outline: '#b0b0b0', marker: '#000000' };
+
+export const CLASSIC_THEME: BoardTheme = {
+  background: '#DEB887',
+  line: '#3d2914',
+  star: '#3d2914',
+  label: '#3d2914',
+  stones: [BLACK, WHITE],
+};
+
+export const DOM_THEME: BoardTheme = {
+  background: '#FFFFFF',
+  line: '#3d2914',
+  star: '#FF5A5F',
+  label: '#FF5A5F',
+  stones: [
+    { light: '#FF9C9F', dark: '#CC484C', outline: '#CC484C', glow: '#FFFFFF', marker: '#ffffff' },
+    { ...WHITE, glow: '#FF5A5F', marker: '#FF5A5F' },
+  ],
+};
+
+export const BANG_THEME: BoardTheme = {
+  background: '#3D3D3D',
+  line: '#3d2914',
+  star: '#C4A363',
+  label: '#C4A363',
+  stones: [
+    { ...BLACK, outline: '#333333', stripes: ['#FFFFFF', '#0039A6', '#D52B1E'] },
+    { ...WHITE, outline: '#333333', stripes: ['#005BBB', '#FFD500'] },
+  ],
+};
+
+export const CRAZY_THEME: BoardTheme = {
+  ...CLASSIC_THEME,
+  stones: [BLACK, WHITE, { ...WHITE, cross: '#1a1a1a' }, { ...BLACK, cross: '#ffffff' }],
+};
+
+export const ZEN_THEME: BoardTheme = {
+  background: '#4a4a4a',
+  line: '#7a7a7a',
+  star: '#9a9a9a',
+  label: '#9a9a9a',
+  stones: [BLACK, WHITE],
+};
+
+// Wilde colours, tinted by any hue offsets chosen when the game was created
+export function wildeTheme(playerCount: number, customHues: Record<number, number> | null): BoardTheme {
+  return {
+    background: '#F3E8FF',
+    line: 'rgba(128, 0, 128, 0.4)',
+    star: '#9370DB',
+    label: '#8A2BE2',
+    stones: WILDE_COLORS.slice(0, playerCount).map(color => {
+      const hue = customHues?.[color.id] ?? 0;
+      return {
+        light: adjustColorHue(color.light, hue),
+        dark: adjustColorHue(color.dark, hue),
+        outline: adjustColorHue(color.outline, hue),
+        marker: '#ffffff',
+      };
+    }),
+  };
+}
+
+export interface BoardPicture {
+  board: GenericBoard;
+  width: number;
+  height: number;
+  theme: BoardTheme;
+  lastMove: Position | null;
+  explosion: Position | null;   // Go Bang mine that went off on this move
+  droneTarget: Position | null; // Go Bang drone strike on this move
+}
+
+export interface RenderOptions {
+  size: number; // Pixels along the longer side
+  coordinates: boolean;
+  lastMoveMarker: boolean;
+}
+
+export interface BoardLayout {
+  width: number;
+  height: number;
+  cell: number;
+  margin: number;
+}
+
+export function boardLayout(picture: BoardPicture, options: RenderOptions): BoardLayout {
+  const marginCells = options.coordinates ? 1.2 : 0.7;
+  const longest = Math.max(picture.width, picture.height) - 1 + marginCells * 2;
+  const cell = options.size / longest;
+  const margin = cell * marginCells;
+  return {
+    width: Math.round((picture.width - 1) * cell + margin * 2),
+    height: Math.round((picture.height - 1) * cell + margin * 2),
+    cell,
+    margin,
+  };
+}
+
+// Labels as the in-app boards print them: numbers counting down along the top and
+// bottom, letters down the sides
+export function coordinateLabels(picture: BoardPicture, layout: BoardLayout): { text: string; x: number; y: number }[] {
+  const { cell, margin } = layout;
+  const far = (n: number) => margin + (n - 1) * cell + cell * 0.75;
+  const labels: { text: string; x: number; y: number }[] = [];
+  for (let i = 0; i < picture.width; i++) {
+    const x = margin + i * cell;
+    const text = String(picture.width - i);
+    labels.push({ text, x, y: margin - cell * 0.75 }, { text, x, y: far(picture.height) });
+  }
+  for (let i = 0; i < picture.height; i++) {
+    const y = margin + i * cell;
+    const text = String.fromCharCode(65 + i);
+    labels.push({ text, x: margin - cell * 0.75, y }, { text, x: far(picture.width), y });
+  }
+  return labels;
+}
+
+// Hoshi on the standard square boards, as GoBoard draws them
+function starPoints(width: number, height: number): Position[] {
+  if (width !== height) return [];
+  if (width === 19) return [3, 9, 15].flatMap(y => [3, 9, 15].map(x => ({ x, y })));
+  const corners: Record<number, number[]> = { 9: [2, 6], 13: [3, 9] };
+  const lines = corners[width];
+  if (!lines) return [];
+  const center = (width - 1) / 2;
+  return [...lines.flatMap(y => lines.map(x => ({ x, y }))), { x: center, y: center }];
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function stoneSvg(style: StoneStyle, color: number, cx: number, cy: number, r: number): string {
+  const parts: string[] = [];
+  if (style.glow) parts.push(`<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(r * 1.15)}" fill="${style.glow}" opacity="0.6"/>`);
+  parts.push(`<circle cx="${round(cx + r * 0.08)}" cy="${round(cy + r * 0.08)}" r="${round(r)}" fill="rgba(0,0,0,0.3)"/>`);
+
+  if (style.stripes) {
+    const band = (r * 2) / style.stripes.length;
+    parts.push(`<g clip-path="url(#clip-${color})" transform="translate(${round(cx)} ${round(cy)})">`);
+    style.stripes.forEach((fill, i) => {
+      parts.push(`<rect x="${round(-r)}" y="${round(-r + band * i)}" width="${round(r * 2)}" height="${round(band + 0.5)}" fill="${fill}"/>`);
+    });
+    parts.push('</g>');
+  } else {
+    parts.push(`<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(r)}" fill="url(#stone-${color})"/>`);
+  }
+  parts.push(`<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(r)}" fill="none" stroke="${style.outline}" stroke-width="0.75"/>`);
+
+  if (style.cross) {
+    const arm = r * 0.6;
+    parts.push(`<path d="M${round(cx - arm)} ${round(cy)}H${round(cx + arm)}M${round(cx)} ${round(cy - arm)}V${round(cy + arm)}" stroke="${style.cross}" stroke-width="${round(Math.max(1.5, r * 0.12))}"/>`);
+  }
+  return parts.join('');
+}
+
+// Red, orange and yellow starburst where a Go Bang mine went off
+function explosionSvg(cx: number, cy: number, r: number): string {
+  const star = (outer: number, inner: number, points: number) => {
+    const corners: string[] = [];
+    for (let i = 0; i < points * 2; i++) {
+      const radius = i % 2 === 0 ? outer : inner;
+      const angle = (i * Math.PI) / points - Math.PI / 2;
+      corners.push(`${round(cx + Math.cos(angle) * radius)},${round(cy + Math.sin(angle) * radius)}`);
+    }
+    return corners.join(' ');
+  };
+  return [
+    `<polygon points="${star(r * 2.2, r, 9)}" fill="#D52B1E"/>`,
+    `<polygon points="${star(r * 1.5, r * 0.75, 9)}" fill="#FF8C00"/>`,
+    `<polygon points="${star(r * 0.8, r * 0.4, 6)}" fill="#FFD700"/>`,
+  ].join('');
+}
+
+// Crosshair over the point a drone struck
+function droneSvg(cx: number, cy: number, r: number): string {
+  const width = round(Math.max(1.5, r * 0.15));
+  return `<g stroke="#D52B1E" stroke-width="${width}" fill="none">` +
+    `<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(r * 0.8)}"/>` +
+    `<path d="M${round(cx - r * 1.2)} ${round(cy)}H${round(cx - r * 0.4)}M${round(cx + r * 0.4)} ${round(cy)}H${round(cx + r * 1.2)}` +
+    `M${round(cx)} ${round(cy - r * 1.2)}V${round(cy - r * 0.4)}M${round(cx)} ${round(cy + r * 0.4)}V${round(cy + r * 1.2)}"/></g>`;
+}
+
+// The picture as a standalone SVG document. `labels` can be turned off for renderers
+// without fonts (the PNG route draws the coordinates itself).
+export function boardSvg(picture: BoardPicture, options: RenderOptions, labels = options.coordinates): string {
+  const layout = boardLayout(picture, options);
+  const { cell, margin } = layout;
+  const { theme } = picture;
+  const px = (x: number) => margin + x * cell;
+  const radius = cell * 0.45;
+  const parts: string[] = [];
+
+  parts.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}">`);
+  parts.push('<defs>');
+  theme.stones.forEach((style, color) => {
+    parts.push(`<radialGradient id="stone-${color}" cx="35%" cy="35%" r="65%"><stop offset="0" stop-color="${style.light}"/><stop offset="1" stop-color="${style.dark}"/></radialGradient>`);
+    parts.push(`<clipPath id="clip-${color}"><circle cx="0" cy="0" r="${round(radius)}"/></clipPath>`);
+  });
+  parts.push('</defs>');
+  parts.push(`<rect width="${layout.width}" height="${layout.height}" fill="${theme.background}"/>`);
+
+  // Grid and star points
+  const lines: string[] = [];
+  for (let x = 0; x < picture.width; x++) lines.push(`M${round(px(x))} ${round(margin)}V${round(px(picture.height - 1))}`);
+  for (let y = 0; y < picture.height; y++) lines.push(`M${round(margin)} ${round(px(y))}H${round(px(picture.width - 1))}`);
+  parts.push(`<path d="${lines.join('')}" stroke="${theme.line}" stroke-width="1" fill="none"/>`);
+  for (const star of starPoints(picture.width, picture.height)) {
+    parts.push(`<circle cx="${round(px(star.x))}" cy="${round(px(star.y))}" r="${round(cell * 0.12)}" fill="${theme.star}"/>`);
+  }
+
+  if (labels) {
+    const fontSize = round(Math.max(8, cell * 0.4));
+    parts.push(`<g fill="${theme.label}" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" text-anchor="middle" dominant-baseline="central">`);
+    for (const label of coordinateLabels(picture, layout)) {
+      parts.push(`<text x="${round(label.x)}" y="${round(label.y)}">${label.text}</text>`);
+    }
+    parts.push('</g>');
+  }
+
+  // Stones - colours outside the theme (malformed rows) are skipped
+  picture.board.forEach((row, y) => row.forEach((stone, x) => {
+    const style = stone === null ? undefined : picture.theme.stones[stone];
+    if (style && stone !== null) parts.push(stoneSvg(style, stone, px(x), px(y), radius));
+  }));
+
+  const { lastMove, explosion, droneTarget } = picture;
+  const lastStone = lastMove ? picture.board[lastMove.y]?.[lastMove.x] : null;
+  if (options.lastMoveMarker && lastMove && lastStone !== null && lastStone !== undefined) {
+    const marker = theme.stones[lastStone]?.marker ?? '#ff6b6b';
+    parts.push(`<circle cx="${round(px(lastMove.x))}" cy="${round(px(lastMove.y))}" r="${round(cell * 0.35)}" fill="none" stroke="${marker}" stroke-width="${round(Math.max(1.5, cell * 0.08))}"/>`);
+  }
+  if (explosion) parts.push(explosionSvg(px(explosion.x), px(explosion.y), radius));
+  if (droneTarget) parts.push(droneSvg(px(droneTarget.x), px(droneTarget.y), radius));
+
+  parts.push('</svg>');
+  return parts.join('');
+}
@@ -0,0 +1,375 @@
+// Computer opponent for classic (and Dom) games - Monte Carlo tree search over the
+// two-colour rules in logic.ts. Each playout finishes the game with random moves that
+// never fill the player's own eyes and then counts area; the tree grows towards the
+// moves that win the most playouts. Strength is simply the number of playouts.
+
+import {
+  applyMove,
+  isValidMove,
+  passTurn,
+  type Board,
+  type GameState,
+  type Position,
+} from './logic';
+import { applyAction, type EngineState } from './engine';
+import { getAdjacentSquare } from './shared';
+import { CLASSIC_RULES } from './variants';
+
+export const MIN_BOT_PLAYOUTS = 50;
+export const MAX_BOT_PLAYOUTS = 5000;
+export const DEFAULT_BOT_PLAYOUTS = 500;
+
+// The search runs inside the request that asked for the bot's move, so it stops at whichever
+// comes first: the game's playouts, this many playouts' worth of board points (so a 19x19
+// search is shorter than a 9x9 one), or the wall-clock budget
+const PLAYOUT_POINTS = 250000;
+export const BOT_TIME_BUDGET_MS = 1500;
+
+// How long the search runs before handing the event loop back to other requests
+const YIELD_EVERY_MS = 50;
+
+// The playouts the search will actually run on a board of this size
+export function playoutsFor(playouts: number, boardSize: number): number {
+  return Math.max(MIN_BOT_PLAYOUTS, Math.min(playouts, Math.floor(PLAYOUT_POINTS / (boardSize * boardSize))));
+}
+
+// Presets offered when creating a game
+export const BOT_STRENGTHS: readonly { label: string; playouts: number }[] = [
+  { label: 'Easy', playouts: 100 },
+  { label: 'Medium', playouts: DEFAULT_BOT_PLAYOUTS },
+  { label: 'Hard', playouts: 2000 },
+];
+
+export function isValidBotPlayouts(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= MIN_BOT_PLAYOUTS && value <= MAX_BOT_PLAYOUTS;
+}
+
+export type BotMove = { type: 'place'; x: number; y: number } | { type: 'pass' };
+
+// Exploration weight in the UCT formula; lower trusts the win rates sooner
+const EXPLORATION = 0.7;
+
+interface TreeNode {
+  move: Position | null; // null is a pass
+  mover: 0 | 1; // Who played `move`; wins are counted for them
+  parent: TreeNode | null;
+  children: TreeNode[];
+  untried: (Position | null)[];
+  visits: number;
+  wins: number;
+}
+
+function play(state: GameState, move: Position | null): GameState {
+  return move ? applyMove(state, move, state.currentPlayer).newState : passTurn(state);
+}
+
+// An empty point surrounded by the player's own stones - filling it only hurts
+function isOwnEye(board: Board, pos: Position, player: 0 | 1): boolean {
+  return getAdjacentSquare(pos, board.length).every(adj => board[adj.y][adj.x] === player);
+}
+
+function emptyPoints(board: Board): Position[] {
+  const points: Position[] = [];
+  board.forEach((row, y) => row.forEach((stone, x) => {
+    if (stone === null) points.push({ x, y });
+  }));
+  return points;
+}
+
+function isSensibleMove(state: GameState, pos: Position): boolean {
+  return !isOwnEye(state.board, pos, state.currentPlayer) && isValidMove(state, pos, state.currentPlayer).valid;
+}
+
+// Moves worth searching from a position. Passing is only considered straight after the
+// opponent passed, where it ends the game and the position can be scored exactly.
+// Points are checked lazily on expansion, since most of them never get that far.
+function candidateMoves(state: GameState): (Position | null)[] {
+  if (state.consecutivePasses >= 2) return [];
+  const moves: (Position | null)[] = emptyPoints(state.board);
+  if (state.consecutivePasses > 0) moves.push(null);
+  return moves;
+}
+
+// Takes random untried moves until a sensible one turns up. A node left with nothing
+// sensible to expand passes instead; undefined means it has no more moves to add.
+function takeUntried(node: TreeNode, state: GameState): Position | null | undefined {
+  while (node.untried.length > 0) {
+    const i = Math.floor(Math.random() * node.untried.length);
+    const move = node.untried[i];
+    node.untried[i] = node.untried[node.untried.length - 1];
+    node.untried.pop();
+    if (move === null || isSensibleMove(state, move)) return move;
+  }
+  return node.children.length === 0 && state.consecutivePasses < 2 ? null : undefined;
+}
+
+const EMPTY = -1;
+
+// Neighbour lists of flat point indices, built once per board size
+const neighborTables = new Map<number, Int32Array[]>();
+
+function playoutNeighbors(size: number): Int32Array[] {
+  let table = neighborTables.get(size);
+  if (!table) {
+    table = Array.from({ length: size * size }, (_, p) =>
+      Int32Array.from(getAdjacentSquare({ x: p % size, y: Math.floor(p / size) }, size), adj => adj.y * size + adj.x));
+    neighborTables.set(size, table);
+  }
+  return table;
+}
+
+// Playouts run thousands of times per move, so they use a flat board that is changed in
+// place rather than the copying GameState - same rules (captures, suicide, simple ko)
+class PlayoutBoard {
+  private readonly stones: Int8Array;
+  private readonly neighbors: Int32Array[];
+  private readonly marks: Int32Array;
+  private readonly stack: Int32Array;
+  private readonly empties: Int32Array;
+  private readonly emptyIndex: Int32Array;
+  private emptyCount = 0;
+  private mark = 0;
+  private ko = -1;
+  readonly stoneCounts = [0, 0];
+
+  constructor(state: GameState) {
+    const size = state.board.length;
+    const points = size * size;
+    this.stones = new Int8Array(points).fill(EMPTY);
+    this.marks = new Int32Array(points);
+    this.stack = new Int32Array(points);
+    this.empties = new Int32Array(points);
+    this.emptyIndex = new Int32Array(points).fill(-1);
+    this.neighbors = playoutNeighbors(size);
+
+    for (let p = 0; p < points; p++) {
+      const stone = state.board[Math.floor(p / size)][p % size];
+      if (stone === null) {
+        this.addEmpty(p);
+      } else {
+        this.stones[p] = stone;
+        this.stoneCounts[stone]++;
+      }
+    }
+    if (state.koPoint) this.ko = state.koPoint.y * size + state.koPoint.x;
+  }
+
+  private addEmpty(p: number) {
+    this.emptyIndex[p] = this.emptyCount;
+    this.empties[this.emptyCount++] = p;
+  }
+
+  private removeEmpty(p: number) {
+    const i = this.emptyIndex[p];
+    const last = this.empties[--this.emptyCount];
+    this.empties[i] = last;
+    this.emptyIndex[last] = i;
+    this.emptyIndex[p] = -1;
+  }
+
+  // Whether the group at `start` has a liberty other than `except`
+  private hasLiberty(start: number, except: number): boolean {
+    const color = this.stones[start];
+    const mark = ++this.mark;
+    let top = 0;
+    this.stack[top++] = start;
+    this.marks[start] = mark;
+    while (top > 0) {
+      const p = this.stack[--top];
+      for (const n of this.neighbors[p]) {
+        if (this.marks[n] === mark) continue;
+        if (this.stones[n] === EMPTY) {
+          if (n !== except) return true;
+        } else if (this.stones[n] === color) {
+          this.marks[n] = mark;
+          this.stack[top++] = n;
+        }
+      }
+    }
+    return false;
+  }
+
+  private removeGroup(start: number): number {
+    const color = this.stones[start];
+    let top = 0;
+    let removed = 0;
+    this.stack[top++] = start;
+    this.stones[start] = EMPTY;
+    while (top > 0) {
+      const p = this.stack[--top];
+      this.addEmpty(p);
+      removed++;
+      for (const n of this.neighbors[p]) {
+        if (this.stones[n] === color) {
+          this.stones[n] = EMPTY;
+          this.stack[top++] = n;
+        }
+      }
+    }
+    return removed;
+  }
+
+  private isSensible(p: number, color: 0 | 1): boolean {
+    if (p === this.ko) return false;
+    const neighbors = this.neighbors[p];
+    if (neighbors.every(n => this.stones[n] === color)) return false; // Own eye
+    for (const n of neighbors) {
+      const stone = this.stones[n];
+      if (stone === EMPTY) return true;
+      // Joining a group that keeps a liberty, or taking the last liberty of an enemy group
+      if ((stone === color) === this.hasLiberty(n, p)) return true;
+    }
+    return false;
+  }
+
+  // Plays a random sensible move for `color`, or returns false to pass
+  playRandom(color: 0 | 1): boolean {
+    const offset = Math.floor(Math.random() * this.emptyCount);
+    for (let i = 0; i < this.emptyCount; i++) {
+      const p = this.empties[(offset + i) % this.emptyCount];
+      if (!this.isSensible(p, color)) continue;
+
+      this.stones[p] = color;
+      this.removeEmpty(p);
+      this.stoneCounts[color]++;
+      let captured = 0;
+      let capturedAt = -1;
+      for (const n of this.neighbors[p]) {
+        if (this.stones[n] === 1 - color && !this.hasLiberty(n, -1)) {
+          capturedAt = n;
+          captured += this.removeGroup(n);
+        }
+      }
+      this.stoneCounts[1 - color] -= captured;
+      // A lone stone that took exactly one stone and now sits in atari starts a ko
+      const lone = this.neighbors[p].every(n => this.stones[n] !== color);
+      this.ko = captured === 1 && lone && !this.hasLiberty(p, capturedAt) ? capturedAt : -1;
+      return true;
+    }
+    this.ko = -1;
+    return false;
+  }
+
+  // Area count with komi once every empty point is an eye: 1 if Black wins, 0 if White wins, 0.5 for a draw
+  blackWins(komi: number): number {
+    let black = 0;
+    let white = komi;
+    for (let p = 0; p < this.stones.length; p++) {
+      let stone = this.stones[p];
+      if (stone === EMPTY) {
+        const owners = new Set(Array.from(this.neighbors[p], n => this.stones[n]));
+        stone = owners.size === 1 ? owners.values().next().value! : EMPTY;
+      }
+      if (stone === 0) black++;
+      else if (stone === 1) white++;
+    }
+    return black > white ? 1 : black < white ? 0 : 0.5;
+  }
+}
+
+function playout(state: GameState, komi: number): number {
+  const board = new PlayoutBoard(state);
+  const points = state.board.length * state.board.length;
+  let player = state.currentPlayer;
+  let passes = state.consecutivePasses;
+  for (let i = 0; i < points * 3 && passes < 2; i++) {
+    passes = board.playRandom(player) ? 0 : passes + 1;
+    player = player === 0 ? 1 : 0;
+
+    // Mercy rule: random games rarely come back from a third of the board behind
+    const [black, white] = board.stoneCounts;
+    if (Math.abs(black - white) > points / 3) return black > white ? 1 : 0;
+  }
+  return board.blackWins(komi);
+}
+
+function selectChild(node: TreeNode): TreeNode {
+  const logVisits = Math.log(node.visits);
+  let best = node.children[0];
+  let bestValue = -Infinity;
+  for (const child of node.children) {
+    const value = child.wins / child.visits + EXPLORATION * Math.sqrt(logVisits / child.visits);
+    if (value > bestValue) {
+      best = child;
+      bestValue = value;
+    }
+  }
+  return best;
+}
+
+// The bot's move for `color` in an engine position. The first move is checked against
+// the full engine rules (superko, empty pots); deeper in the tree simple ko is enough.
+// Stops early on big boards and when the time budget runs out - see playoutsFor.
+export async function chooseBotMove(
+  state: EngineState,
+  color: 0 | 1,
+  options: { playouts: number; komi: number; consecutivePasses: number }
+): Promise<BotMove> {
+  const root: GameState = {
+    board: state.board as Board,
+    currentPlayer: color,
+    captures: { black: state.captured[0], white: state.captured[1] },
+    lastMove: state.lastMove,
+    koPoint: state.koPoint,
+    moveHistory: [],
+    consecutivePasses: options.consecutivePasses,
+  };
+
+  const legal = (move: Position | null) =>
+    move === null || applyAction(state, { actionType: 'place', stoneColor: color, toX: move.x, toY: move.y }, CLASSIC_RULES).ok;
+
+  const moves = candidateMoves(root).filter(move => move === null || (isSensibleMove(root, move) && legal(move)));
+  if (moves.every(move => move === null)) return { type: 'pass' };
+
+  const tree: TreeNode = {
+    move: null,
+    mover: color === 0 ? 1 : 0,
+    parent: null,
+    children: [],
+    untried: moves,
+    visits: 0,
+    wins: 0,
+  };
+
+  const playouts = playoutsFor(options.playouts, root.board.length);
+  const deadline = Date.now() + BOT_TIME_BUDGET_MS;
+  let nextYield = Date.now() + YIELD_EVERY_MS;
+  for (let i = 0; i < playouts && Date.now() < deadline; i++) {
+    if (Date.now() >= nextYield) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      nextYield = Date.now() + YIELD_EVERY_MS;
+    }
+
+    let node = tree;
+    let position = root;
+
+    // Selection: follow the most promising fully expanded nodes
+    while (node.untried.length === 0 && node.children.length > 0) {
+      node = selectChild(node);
+      position = play(position, node.move);
+    }
+
+    // Expansion: add one move not yet in the tree
+    const move = takeUntried(node, position);
+    if (move !== undefined) {
+      const mover = position.currentPlayer;
+      position = play(position, move);
+      const child: TreeNode = { move, mover, parent: node, children: [], untried: candidateMoves(position), visits: 0, wins: 0 };
+      node.children.push(child);
+      node = child;
+    }
+
+    // Simulation and backpropagation
+    const result = playout(position, options.komi);
+    for (let n: TreeNode | null = node; n; n = n.parent) {
+      n.visits++;
+      n.wins += n.mover === 0 ? result : 1 - result;
+    }
+  }
+
+  // Out of time before a single playout finished
+  if (tree.children.length === 0) return { type: 'pass' };
+
+  const best = tree.children.reduce((a, b) => (b.visits > a.visits ? b : a));
+  return best.move ? { type: 'place', x: best.move.x, y: best.move.y } : { type: 'pass' };
+}
@@ -0,0 +1,412 @@
+// Variant-agnostic rules engine shared by every action and undo route
+// Takes a game state plus an action and returns the new state plus what happened
+// (captures, ko, explosions). Variants plug in their own rules through VariantRules.
+// Superko is checked against the Zobrist hashes of every position since the last board edit.
+
+import type { CapturedStoneInfo } from '@/lib/db/schema';
+import {
+  detectAndRemoveCaptures,
+  isValidPosition,
+  wouldBeSuicide,
+  type GenericBoard,
+  type Position,
+  type Topology,
+} from './shared';
+import { hashPosition, type SuperkoRule, type ZobristHash } from './zobrist';
+
+export interface EngineState {
+  board: GenericBoard;
+  width: number;
+  height: number;
+  topology: Topology; // How the edges join up (Wilde only - every other variant is flat)
+  potCounts: number[]; // Stones left in each pot (indexed by VariantRules.potIndex)
+  captured: number[];  // Prisoners credited to each scorer (indexed by VariantRules.creditIndex)
+  onBoard: number[];   // Stones of each colour currently on the board
+  currentTurn: number; // Seat whose turn it is
+  nextStoneColor: number | null; // Server-chosen colour for the next placement (Zen only)
+  lastMove: Position | null;
+  koPoint: Position | null;
+  superko: SuperkoRule; // Per-game choice of positional or situational superko
+  positionHashes: ZobristHash[]; // Every position since the last removal, oldest first
+}
+
+// Raw action as it arrives in a request body - the engine does all validation
+export interface ActionInput {
+  actionType: unknown;
+  stoneColor?: unknown;
+  fromX?: unknown;
+  fromY?: unknown;
+  toX?: unknown;
+  toY?: unknown;
+}
+
+export type EngineActionType = 'place' | 'remove' | 'move';
+
+// Who made a capturing action, passed to VariantRules.creditIndex
+export interface Mover {
+  actionType: 'place' | 'move';
+  color: number; // Colour of the placed or moved stone
+  seat: number;  // Seat whose turn it was when the action was made
+}
+
+export interface VariantRules {
+  colorCount: number;       // Valid stone colours are 0..colorCount-1
+  seatCount: number;        // Turn advances modulo this after each placement
+  enforceTurnOrder: boolean; // Placed colour must match currentTurn
+  // Colour chosen by the server instead of the client (Zen's alternating shared pot)
+  placeColor?: (state: EngineState) => number;
+  // Extra bookkeeping after a stone is placed
+  afterPlace?: (state: EngineState, color: number) => EngineState;
+  // Which pot a colour draws from and returns to
+  potIndex: (color: number) => number;
+  // Which scorer gets credit for capturing a stone of capturedColor (null = nobody)
+  creditIndex: (capturedColor: number, mover: Mover) => number | null;
+  // Stones destroyed when a stone lands on `at` (Go Bang mines), or null for no explosion
+  detonate?: (board: GenericBoard, at: Position) => CapturedStoneInfo[] | null;
+}
+
+export type EngineEvent =
+  | { type: 'capture'; stones: CapturedStoneInfo[]; creditedTo: number | null }
+  | { type: 'ko'; point: Position }
+  | { type: 'explosion'; trigger: CapturedStoneInfo; destroyedStones: CapturedStoneInfo[] };
+
+// Rule violations - names match the ERROR_IDS suffixes used by each variant
+export type RuleViolation =
+  | 'invalid_action'
+  | 'invalid_stone_color'
+  | 'not_your_turn'
+  | 'invalid_position'
+  | 'position_out_of_bounds'
+  | 'position_occupied'
+  | 'no_stones_in_pot'
+  | 'suicide_not_allowed'
+  | 'ko_violation'
+  | 'superko_violation'
+  | 'no_stone_at_position'
+  | 'invalid_from_position'
+  | 'invalid_to_position'
+  | 'from_out_of_bounds'
+  | 'to_out_of_bounds'
+  | 'same_position'
+  | 'no_stone_from'
+  | 'to_occupied'
+  | 'move_suicide';
+
+// Violations an admin can switch off - the action then goes ahead anyway.
+// Everything else describes an action that cannot be carried out at all.
+export const WAIVABLE_VIOLATIONS: ReadonlySet<RuleViolation> = new Set<RuleViolation>([
+  'not_your_turn',
+  'no_stones_in_pot',
+  'suicide_not_allowed',
+  'ko_violation',
+  'superko_violation',
+  'move_suicide',
+]);
+
+export interface ActionSuccess {
+  ok: true;
+  actionType: EngineActionType;
+  color: number; // Colour of the stone that was placed, removed or moved
+  state: EngineState;
+  events: EngineEvent[];
+}
+
+export interface ActionFailure {
+  ok: false;
+  violation: RuleViolation;
+}
+
+export type ActionOutcome = ActionSuccess | ActionFailure;
+
+function fail(violation: RuleViolation): ActionFailure {
+  return { ok: false, violation };
+}
+
+function isCoordinate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+function cloneState(state: EngineState): EngineState {
+  return {
+    ...state,
+    board: state.board.map(row => [...row]),
+    potCounts: [...state.potCounts],
+    captured: [...state.captured],
+    onBoard: [...state.onBoard],
+    positionHashes: [...state.positionHashes],
+  };
+}
+
+// Hash of a position as the superko rule sees it
+function superkoHash(state: EngineState, mover: Mover | null): ZobristHash {
+  return hashPosition(state.board, state.superko === 'situational' && mover ? mover.color : null);
+}
+
+// Record the position `next` reached, or report it as a repeat of one in `prev`'s history.
+// Games created before hashes were stored start their history at the current position.
+function recordPosition(
+  prev: EngineState,
+  next: EngineState,
+  mover: Mover,
+  waived: ReadonlySet<RuleViolation>
+): ActionFailure | null {
+  const history = prev.positionHashes.length > 0 ? prev.positionHashes : [superkoHash(prev, null)];
+  const hash = superkoHash(next, mover);
+  if (history.includes(hash) && !waived.has('superko_violation')) {
+    return fail('superko_violation');
+  }
+  next.positionHashes = [...history, hash];
+  return null;
+}
+
+// Count stones of each colour on a board
+export function countStonesByColor(board: GenericBoard, colorCount: number): number[] {
+  const counts = Array(colorCount).fill(0);
+  for (const row of board) {
+    for (const stone of row) {
+      if (stone !== null && stone < colorCount) counts[stone]++;
+    }
+  }
+  return counts;
+}
+
+// Remove captured groups after a stone lands on `at`, crediting the capturer
+function resolveCaptures(
+  next: EngineState,
+  at: Position,
+  mover: Mover,
+  rules: VariantRules,
+  events: EngineEvent[]
+) {
+  const before = next.board;
+  const result = detectAndRemoveCaptures(before, next.width, next.height, at.x, at.y, next.topology);
+  next.board = result.newBoard;
+
+  if (result.capturedPositions.length > 0) {
+    const stones: CapturedStoneInfo[] = result.capturedPositions.map(pos => ({
+      x: pos.x,
+      y: pos.y,
+      color: before[pos.y][pos.x] as number,
+    }));
+    let creditedTo: number | null = null;
+    for (const stone of stones) {
+      next.onBoard[stone.color]--;
+      const credit = rules.creditIndex(stone.color, mover);
+      if (credit !== null) {
+        next.captured[credit]++;
+        creditedTo = credit;
+      }
+    }
+    events.push({ type: 'capture', stones, creditedTo });
+  }
+
+  if (result.koPoint) {
+    next.koPoint = result.koPoint;
+    events.push({ type: 'ko', point: result.koPoint });
+  }
+}
+
+// Blow up the stones around a triggered mine instead of resolving captures
+function resolveExplosion(
+  next: EngineState,
+  trigger: CapturedStoneInfo,
+  destroyedStones: CapturedStoneInfo[],
+  events: EngineEvent[]
+) {
+  for (const stone of destroyedStones) {
+    if (next.board[stone.y][stone.x] === null) continue;
+    next.board[stone.y][stone.x] = null;
+    next.onBoard[stone.color]--;
+  }
+  events.push({ type: 'explosion', trigger, destroyedStones });
+}
+
+// Shared tail of place and move: explode or capture around the stone that just landed
+function resolveLanding(
+  next: EngineState,
+  at: Position,
+  mover: Mover,
+  rules: VariantRules,
+  events: EngineEvent[]
+) {
+  const destroyed = rules.detonate?.(next.board, at) ?? null;
+  if (destroyed) {
+    resolveExplosion(next, { x: at.x, y: at.y, color: mover.color }, destroyed, events);
+  } else {
+    resolveCaptures(next, at, mover, rules, events);
+  }
+}
+
+function applyPlace(
+  state: EngineState,
+  input: ActionInput,
+  rules: VariantRules,
+  waived: ReadonlySet<RuleViolation>
+): ActionOutcome {
+  const color = rules.placeColor ? rules.placeColor(state) : input.stoneColor;
+  if (typeof color !== 'number' || !Number.isInteger(color) || color < 0 || color >= rules.colorCount) {
+    return fail('invalid_stone_color');
+  }
+  if (rules.enforceTurnOrder && color !== state.currentTurn && !waived.has('not_your_turn')) {
+    return fail('not_your_turn');
+  }
+
+  const { toX, toY } = input;
+  if (!isCoordinate(toX) || !isCoordinate(toY)) return fail('invalid_position');
+  if (!isValidPosition(toX, toY, state.width, state.height)) return fail('position_out_of_bounds');
+  if (state.board[toY][toX] !== null) return fail('position_occupied');
+
+  const pot = rules.potIndex(color);
+  if (state.potCounts[pot] <= 0 && !waived.has('no_stones_in_pot')) {
+    return fail('no_stones_in_pot');
+  }
+  if (wouldBeSuicide(state.board, toX, toY, color, state.width, state.height, state.topology) && !waived.has('suicide_not_allowed')) {
+    return fail('suicide_not_allowed');
+  }
+  if (state.koPoint && state.koPoint.x === toX && state.koPoint.y === toY && !waived.has('ko_violation')) {
+    return fail('ko_violation');
+  }
+
+  let next = cloneState(state);
+  const events: EngineEvent[] = [];
+  const mover: Mover = { actionType: 'place', color, seat: state.currentTurn };
+
+  next.board[toY][toX] = color;
+  next.potCounts[pot]--;
+  next.onBoard[color]++;
+  next.lastMove = { x: toX, y: toY };
+  next.koPoint = null;
+
+  resolveLanding(next, { x: toX, y: toY }, mover, rules, events);
+
+  const repeated = recordPosition(state, next, mover, waived);
+  if (repeated) return repeated;
+
+  next.currentTurn = (state.currentTurn + 1) % rules.seatCount;
+  if (rules.afterPlace) next = rules.afterPlace(next, color);
+
+  return { ok: true, actionType: 'place', color, state: next, events };
+}
+
+function applyRemove(state: EngineState, input: ActionInput, rules: VariantRules): ActionOutcome {
+  const { fromX, fromY } = input;
+  if (!isCoordinate(fromX) || !isCoordinate(fromY)) return fail('invalid_from_position');
+  if (!isValidPosition(fromX, fromY, state.width, state.height)) return fail('from_out_of_bounds');
+
+  const stone = state.board[fromY][fromX];
+  if (stone === null) return fail('no_stone_at_position');
+
+  const next = cloneState(state);
+  next.board[fromY][fromX] = null;
+  next.potCounts[rules.potIndex(stone)]++;
+  next.onBoard[stone]--;
+  next.koPoint = null;
+  // Removing a stone edits the board rather than playing on it, so repetition starts over
+  next.positionHashes = [superkoHash(next, null)];
+
+  return { ok: true, actionType: 'remove', color: stone, state: next, events: [] };
+}
+
+function applyMove(
+  state: EngineState,
+  input: ActionInput,
+  rules: VariantRules,
+  waived: ReadonlySet<RuleViolation>
+): ActionOutcome {
+  const { fromX, fromY, toX, toY } = input;
+  if (!isCoordinate(fromX) || !isCoordinate(fromY)) return fail('invalid_from_position');
+  if (!isCoordinate(toX) || !isCoordinate(toY)) return fail('invalid_to_position');
+  if (!isValidPosition(fromX, fromY, state.width, state.height)) return fail('from_out_of_bounds');
+  if (!isValidPosition(toX, toY, state.width, state.height)) return fail('to_out_of_bounds');
+  if (fromX === toX && fromY === toY) return fail('same_position');
+
+  const stone = state.board[fromY][fromX];
+  if (stone === null) return fail('no_stone_from');
+  if (state.board[toY][toX] !== null) return fail('to_occupied');
+
+  // Lift the stone first so it doesn't count as its own liberty
+  const lifted = state.board.map(row => [...row]);
+  lifted[fromY][fromX] = null;
+  if (wouldBeSuicide(lifted, toX, toY, stone, state.width, state.height, state.topology) && !waived.has('move_suicide')) {
+    return fail('move_suicide');
+  }
+
+  const next = cloneState(state);
+  const events: EngineEvent[] = [];
+  const mover: Mover = { actionType: 'move', color: stone, seat: state.currentTurn };
+
+  next.board[fromY][fromX] = null;
+  next.board[toY][toX] = stone;
+  next.lastMove = { x: toX, y: toY };
+  next.koPoint = null;
+
+  resolveLanding(next, { x: toX, y: toY }, mover, rules, events);
+
+  const repeated = recordPosition(state, next, mover, waived);
+  if (repeated) return repeated;
+
+  return { ok: true, actionType: 'move', color: stone, state: next, events };
+}
+
+// Validate and apply one action. `waived` lists violations to let through (see WAIVABLE_VIOLATIONS).
+export function applyAction(
+  state: EngineState,
+  input: ActionInput,
+  rules: VariantRules,
+  waived: ReadonlySet<RuleViolation> = new Set()
+): ActionOutcome {
+  switch (input.actionType) {
+    case 'place':
+      return applyPlace(state, input, rules, waived);
+    case 'remove':
+      return applyRemove(state, input, rules);
+    case 'move':
+      return applyMove(state, input, rules, waived);
+    default:
+      return fail('invalid_action');
+  }
+}
+
+// Re-apply a logged action while rebuilding a position (undo, replay).
+// Logged actions were accepted when they were made, so rule checks are waived;
+// a malformed row is skipped by returning null.
+export function replayAction(state: EngineState, input: ActionInput, rules: VariantRules): ActionSuccess | null {
+  const outcome = applyAction(state, input, rules, WAIVABLE_VIOLATIONS);
+  return outcome.ok ? outcome : null;
+}
+
+// All stones removed by captures or explosions in a set of events
+export function removedStones(events: EngineEvent[]): CapturedStoneInfo[] {
+  return events.flatMap(event => {
+    if (event.type === 'capture') return event.stones;
+    if (event.type === 'explosion') return event.destroyedStones;
+    return [];
+  });
+}
+
+export function findEvent<T extends EngineEvent['type']>(
+  events: EngineEvent[],
+  type: T
+): Extract<EngineEvent, { type: T }> | undefined {
+  return events.find((event): event is Extract<EngineEvent, { type: T }> => event.type === type);
+}
+
+// Every point where `color` could place a stone now: empty, not the ko point and not
+// suicide, unless those rules are waived. Turn order, pots and superko are left to the action.
+export function legalPlacements(
+  state: EngineState,
+  color: number,
+  waived: ReadonlySet<RuleViolation> = new Set()
+): boolean[][] {
+  const { board, width, height, topology, koPoint } = state;
+  return board.map((row, y) => row.map((stone, x) => {
+    if (stone !== null) return false;
+    if (koPoint && koPoint.x === x && koPoint.y === y && !waived.has('ko_violation')) return false;
+    return waived.has('suicide_not_allowed') || !wouldBeSuicide(board, x, y, color, width, height, topology);
+  }));
+}
+
+// One '0'/'1' string per row, so bitmap[y][x] === '1' marks a legal point
+export function toBitmap(points: boolean[][]): string[] {
+  return points.map(row => row.map(legal => (legal ? '1' : '0')).join(''));
+}
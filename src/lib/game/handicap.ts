@@ -0,0 +1,64 @@
+// Handicap stones for classic games
+// Black starts with 2-9 stones already on the board and White plays first. Fixed
+// placement uses the standard star points; free placement takes Black's own choice.
+
+import { isValidPosition, type Position } from './shared';
+
+export const MIN_HANDICAP = 2;
+export const MAX_HANDICAP = 9;
+
+export type HandicapPlacement = 'fixed' | 'free';
+export const HANDICAP_PLACEMENTS: readonly HandicapPlacement[] = ['fixed', 'free'];
+
+export function isHandicapPlacement(value: unknown): value is HandicapPlacement {
+  return typeof value === 'string' && (HANDICAP_PLACEMENTS as readonly string[]).includes(value);
+}
+
+// Usual komi for a handicap game - just enough to break ties
+export const HANDICAP_KOMI = 0.5;
+
+// Standard star points in the traditional order: opposite corners first, then the
+// remaining corners, then the centre for odd counts and the side points for 6 and up
+export function fixedHandicapStones(boardSize: number, count: number): Position[] {
+  const edge = boardSize < 13 ? 2 : 3;
+  const far = boardSize - 1 - edge;
+  const mid = (boardSize - 1) / 2;
+
+  const topRight = { x: far, y: edge };
+  const bottomLeft = { x: edge, y: far };
+  const bottomRight = { x: far, y: far };
+  const topLeft = { x: edge, y: edge };
+  const center = { x: mid, y: mid };
+  const left = { x: edge, y: mid };
+  const right = { x: far, y: mid };
+  const top = { x: mid, y: edge };
+  const bottom = { x: mid, y: far };
+
+  const corners = [topRight, bottomLeft, bottomRight, topLeft];
+  switch (count) {
+    case 2: return corners.slice(0, 2);
+    case 3: return corners.slice(0, 3);
+    case 4: return corners;
+    case 5: return [...corners, center];
+    case 6: return [...corners, left, right];
+    case 7: return [...corners, left, right, center];
+    case 8: return [...corners, left, right, top, bottom];
+    case 9: return [...corners, left, right, top, bottom, center];
+    default: return [];
+  }
+}
+
+// Free placement must name exactly `count` distinct points on the board
+export function validFreeHandicapStones(value: unknown, boardSize: number, count: number): Position[] | null {
+  if (!Array.isArray(value) || value.length !== count) return null;
+
+  const stones: Position[] = [];
+  for (const stone of value) {
+    const { x, y } = (stone ?? {}) as { x?: unknown; y?: unknown };
+    if (typeof x !== 'number' || typeof y !== 'number' || !Number.isInteger(x) || !Number.isInteger(y)) return null;
+    if (!isValidPosition(x, y, boardSize, boardSize)) return null;
+    if (stones.some(s => s.x === x && s.y === y)) return null;
+    stones.push({ x, y });
+  }
+  return stones;
+}
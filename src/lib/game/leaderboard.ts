@@ -0,0 +1,108 @@
+// Final standings for the multi-player variants (Crazy, Wilde and Zen)
+// Points follow the game's ruleset: territory + captures, or territory + live stones.
+
+import { emptyRegions, getAdjacent, type GenericBoard, type Topology } from './shared';
+import { countsArea, scoreByRuleset, type Ruleset } from './rulesets';
+
+export interface Standing {
+  rank: number; // 1 is the leader; tied players share a rank
+  player: number; // Colour index, or seat index in Zen
+  territory: number;
+  captured: number;
+  stones: number;
+  points: number;
+}
+
+// Competition ranking: equal points share a rank and the next rank is skipped (1, 1, 3)
+function rankStandings(standings: Omit<Standing, 'rank'>[]): Standing[] {
+  const sorted = [...standings].sort((a, b) => b.points - a.points || a.player - b.player);
+  return sorted.map(standing => ({
+    rank: sorted.findIndex(other => other.points === standing.points) + 1,
+    ...standing,
+  }));
+}
+
+// One standing per colour - for variants where each player owns a colour (Crazy, Wilde)
+export function colorLeaderboard(
+  board: GenericBoard,
+  captured: number[],
+  ruleset: Ruleset,
+  topology: Topology = 'flat'
+): Standing[] {
+  const score = scoreByRuleset(board, [], captured, ruleset, topology);
+  return rankStandings(captured.map((_, color) => ({
+    player: color,
+    territory: score.territory[color],
+    captured: captured[color],
+    stones: score.stones[color],
+    points: score.points[color],
+  })));
+}
+
+// Who placed each stone still on a Zen board, rebuilt from the action log.
+// Moves carry their stone's owner along; positions without a recorded placer stay null.
+export function zenPlacers(
+  width: number,
+  height: number,
+  actions: { actionType: string; playerIndex: number | null; fromX: number | null; fromY: number | null; toX: number | null; toY: number | null }[]
+): (number | null)[][] {
+  const placers: (number | null)[][] = Array(height).fill(null).map(() => Array(width).fill(null));
+  const at = (x: number | null, y: number | null) => (x !== null && y !== null && placers[y]?.[x] !== undefined);
+
+  for (const action of actions) {
+    if (action.actionType === 'place' && at(action.toX, action.toY)) {
+      placers[action.toY!][action.toX!] = action.playerIndex;
+    } else if (action.actionType === 'move' && at(action.fromX, action.fromY) && at(action.toX, action.toY)) {
+      placers[action.toY!][action.toX!] = placers[action.fromY!][action.fromX!];
+      placers[action.fromY!][action.fromX!] = null;
+    } else if (action.actionType === 'remove' && at(action.fromX, action.fromY)) {
+      placers[action.fromY!][action.fromX!] = null;
+    }
+  }
+  return placers;
+}
+
+// Zen players share both colours, so stones go to whoever placed them. Each empty region
+// bordered only by one player's stones is their territory.
+export function zenLeaderboard(
+  board: GenericBoard,
+  placers: (number | null)[][],
+  captured: number[],
+  ruleset: Ruleset
+): Standing[] {
+  const height = board.length;
+  const width = board[0]?.length ?? 0;
+  const playerCount = captured.length;
+  const territory = Array(playerCount).fill(0);
+  const stones = Array(playerCount).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const placer = placers[y]?.[x];
+      if (board[y][x] !== null && placer !== null && placer !== undefined && placer < playerCount) stones[placer]++;
+    }
+  }
+
+  // Stones of either colour count for whoever placed them, so a region is only territory
+  // when every stone around it is one player's
+  for (const region of emptyRegions(board, width, height)) {
+    const owners = new Set<number | null>();
+    for (const point of region.points) {
+      for (const adj of getAdjacent(point, width, height)) {
+        if (board[adj.y][adj.x] !== null) owners.add(placers[adj.y]?.[adj.x] ?? null);
+      }
+    }
+    const [owner] = owners;
+    if (owners.size === 1 && owner !== null && owner !== undefined && owner < playerCount) {
+      territory[owner] += region.points.length;
+    }
+  }
+
+  return rankStandings(captured.map((_, player) => ({
+    player,
+    territory: territory[player],
+    captured: captured[player],
+    stones: stones[player],
+    points: territory[player] + (countsArea(ruleset) ? stones[player] : captured[player]),
+  })));
+}
@@ -0,0 +1,66 @@
+// End-of-game bookkeeping for classic games: status, result strings and how to show them
+// Results use the SGF RE[] notation ("B+R", "W+3.5", "Draw") so they can be exported as-is.
+
+import type { GenericBoard, Position } from './shared';
+import { defaultKomi, scoreByRuleset, type RulesetScore, type Ruleset } from './rulesets';
+
+// Two passes move a game from 'playing' to 'scoring', where the players mark dead
+// stones; it is 'finished' once they all accept the marking (or someone resigns)
+export type GameStatus = 'playing' | 'scoring' | 'finished';
+
+// Two passes in a row, one by each colour, end play
+export const PASSES_TO_END = 2;
+
+// The pass count once `passer` passes. A pass only counts towards the end when it answers the
+// other colour's pass; one player passing again (or a pass request sent twice) leaves it as it was.
+export function passesAfter(consecutivePasses: number, lastPasser: number | null, passer: number | null): number {
+  return consecutivePasses > 0 && lastPasser === passer ? consecutivePasses : consecutivePasses + 1;
+}
+
+const COLOR_NAMES = ['Black', 'White'] as const;
+
+// The player who did NOT resign wins
+export function resignationResult(resigningColor: 0 | 1): string {
+  return resigningColor === 0 ? 'W+R' : 'B+R';
+}
+
+// SGF result for two totals, e.g. 'B+3.5'
+export function pointsResult(black: number, white: number): string {
+  if (black === white) return 'Draw';
+  return `${black > white ? 'B' : 'W'}+${Math.abs(black - white)}`;
+}
+
+// Per-colour score of a two-colour board, indexed [black, white]
+export interface ScoreBreakdown extends RulesetScore {
+  ruleset: Ruleset;
+  komi: number;
+  total: number[];
+  result: string;
+}
+
+// Score a two-colour board under its ruleset, with komi added to White
+export function classicScore(
+  board: GenericBoard,
+  deadStones: Position[],
+  captured: [number, number],
+  ruleset: Ruleset = 'japanese',
+  komi: number = defaultKomi(ruleset)
+): ScoreBreakdown {
+  const score = scoreByRuleset(board, deadStones, captured, ruleset);
+  const total = [score.points[0], score.points[1] + komi];
+  return { ...score, ruleset, komi, total, result: pointsResult(total[0], total[1]) };
+}
+
+// Human-readable result, e.g. "White wins by resignation" or "Black wins by 3.5 points"
+export function describeResult(result: string | null): string | null {
+  if (!result) return null;
+  if (result === 'Draw') return 'Draw';
+
+  const match = /^([BW])\+(.+)$/.exec(result);
+  if (!match) return result;
+
+  const winner = COLOR_NAMES[match[1] === 'B' ? 0 : 1];
+  const margin = match[2];
+  if (margin === 'R') return `${winner} wins by resignation`;
+  return `${winner} wins by ${margin} ${margin === '1' ? 'point' : 'points'}`;
+}
@@ -0,0 +1,69 @@
+// Scoring rulesets and komi
+// Japanese counts territory plus prisoners; Chinese counts area (territory plus live stones).
+// AGA rules count area too - their pass stones exist so territory counting gives the same
+// result - so AGA games are scored by area here.
+
+import type { GenericBoard, Position, Topology } from './shared';
+import { scoreTerritory } from './scoring';
+
+export type Ruleset = 'japanese' | 'chinese' | 'aga';
+export const RULESETS: readonly Ruleset[] = ['japanese', 'chinese', 'aga'];
+
+export function isRuleset(value: unknown): value is Ruleset {
+  return typeof value === 'string' && (RULESETS as readonly string[]).includes(value);
+}
+
+// Ruleset stored on a game row, falling back to Japanese for anything unrecognised
+export function rulesetFrom(value: unknown): Ruleset {
+  return isRuleset(value) ? value : 'japanese';
+}
+
+// Customary komi for a 19x19 even game under each ruleset
+export function defaultKomi(ruleset: Ruleset): number {
+  return ruleset === 'japanese' ? 6.5 : 7.5;
+}
+
+// Komi must be a whole or half point and within reason
+export function isValidKomi(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value * 2) && Math.abs(value) <= 100;
+}
+
+export function countsArea(ruleset: Ruleset): boolean {
+  return ruleset !== 'japanese';
+}
+
+// Per-colour points before komi, each array indexed by colour
+export interface RulesetScore {
+  territory: number[];
+  captured: number[]; // Stones captured during play
+  prisoners: number[]; // Dead stones lifted at the end
+  stones: number[]; // Live stones left on the board
+  points: number[]; // What the ruleset counts: territory + captured + prisoners, or territory + stones
+  ownership: (number | null)[][];
+}
+
+export function scoreByRuleset(
+  board: GenericBoard,
+  deadStones: Position[],
+  captured: number[],
+  ruleset: Ruleset,
+  topology: Topology = 'flat'
+): RulesetScore {
+  const colorCount = captured.length;
+  const { territory, prisoners, ownership } = scoreTerritory(board, deadStones, colorCount, topology);
+
+  const stones = Array(colorCount).fill(0);
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board[y].length; x++) {
+      const stone = board[y][x];
+      if (stone === null || stone >= colorCount) continue;
+      if (deadStones.some(dead => dead.x === x && dead.y === y)) continue;
+      stones[stone]++;
+    }
+  }
+
+  const points = territory.map((t, color) =>
+    countsArea(ruleset) ? t + stones[color] : t + captured[color] + prisoners[color]
+  );
+  return { territory, captured, prisoners, stones, points, ownership };
+}
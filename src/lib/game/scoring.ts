@@ -0,0 +1,113 @@
+// Territory scoring with dead stones, and the agreed scoring phase that follows two passes
+// Works for any number of colours so every variant can run the same flow.
+
+import { emptyRegions, getGroup, isValidPosition, type GenericBoard, type Position, type Topology } from './shared';
+import type { GameStatus } from './result';
+
+export interface TerritoryScore {
+  territory: number[]; // Points surrounded by each colour once dead stones are lifted
+  prisoners: number[]; // Dead stones lifted from inside each colour's territory
+  ownership: (number | null)[][]; // Territory owner of every empty or dead point, null for dame and live stones
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+// Count territory after taking the dead stones off the board. A dead stone sits in
+// the territory of whoever surrounds it and counts as one of their prisoners.
+export function scoreTerritory(
+  board: GenericBoard,
+  deadStones: Position[],
+  colorCount: number,
+  topology: Topology = 'flat'
+): TerritoryScore {
+  const height = board.length;
+  const width = board[0]?.length ?? 0;
+  const cleared = board.map(row => [...row]);
+  for (const dead of deadStones) {
+    if (isValidPosition(dead.x, dead.y, width, height)) cleared[dead.y][dead.x] = null;
+  }
+
+  const territory = Array(colorCount).fill(0);
+  const prisoners = Array(colorCount).fill(0);
+  const ownership: (number | null)[][] = Array(height).fill(null).map(() => Array(width).fill(null));
+
+  // Only a region bordered by a single colour is territory
+  for (const { points, borders } of emptyRegions(cleared, width, height, topology)) {
+    if (borders.length !== 1 || borders[0] >= colorCount) continue;
+    const owner = borders[0];
+    for (const pos of points) {
+      ownership[pos.y][pos.x] = owner;
+      territory[owner]++;
+      if (board[pos.y][pos.x] !== null) prisoners[owner]++;
+    }
+  }
+
+  return { territory, prisoners, ownership };
+}
+
+// Mark the group at `at` dead, or alive again if it already is. Returns null if the point is empty.
+export function toggleDeadGroup(board: GenericBoard, deadStones: Position[], at: Position): Position[] | null {
+  const height = board.length;
+  const width = board[0]?.length ?? 0;
+  if (!Number.isInteger(at.x) || !Number.isInteger(at.y)) return null;
+  if (!isValidPosition(at.x, at.y, width, height) || board[at.y][at.x] === null) return null;
+
+  const group = getGroup(board, at, width, height);
+  const isDead = deadStones.some(dead => samePosition(dead, at));
+  if (isDead) {
+    return deadStones.filter(dead => !group.some(stone => samePosition(stone, dead)));
+  }
+  return [...deadStones, ...group.filter(stone => !deadStones.some(dead => samePosition(dead, stone)))];
+}
+
+// State of the scoring phase as stored on a game row
+export interface ScoringPhase {
+  deadStones: Position[];
+  acceptedBy: number[]; // Colours whose players have accepted the current marking
+}
+
+// `status` is where the game goes next: still scoring, finished once everyone
+// has accepted, or back to playing if a player resumes to settle a dispute on the board
+export type ScoringOutcome =
+  | { ok: true; phase: ScoringPhase; status: GameStatus }
+  | { ok: false; error: string };
+
+// Apply one scoring-phase action. Any change to the dead stones clears earlier
+// acceptances, so the result is only final once every colour accepts the same marking.
+export function applyScoringAction(
+  board: GenericBoard,
+  phase: ScoringPhase,
+  input: { action?: unknown; x?: unknown; y?: unknown; stoneColor?: unknown },
+  colorCount: number
+): ScoringOutcome {
+  switch (input.action) {
+    case 'toggle_dead': {
+      const { x, y } = input;
+      if (typeof x !== 'number' || typeof y !== 'number' || !Number.isInteger(x) || !Number.isInteger(y)
+        || !isValidPosition(x, y, board[0]?.length ?? 0, board.length)) {
+        return { ok: false, error: 'Invalid position' };
+      }
+      const deadStones = toggleDeadGroup(board, phase.deadStones, { x, y });
+      if (!deadStones) return { ok: false, error: 'No stone at position' };
+      return { ok: true, phase: { deadStones, acceptedBy: [] }, status: 'scoring' };
+    }
+
+    case 'accept': {
+      const color = input.stoneColor;
+      if (typeof color !== 'number' || !Number.isInteger(color) || color < 0 || color >= colorCount) {
+        return { ok: false, error: 'Invalid stone color' };
+      }
+      const acceptedBy = phase.acceptedBy.includes(color) ? phase.acceptedBy : [...phase.acceptedBy, color];
+      const status = acceptedBy.length >= colorCount ? 'finished' : 'scoring';
+      return { ok: true, phase: { ...phase, acceptedBy }, status };
+    }
+
+    case 'resume':
+      return { ok: true, phase: { deadStones: [], acceptedBy: [] }, status: 'playing' };
+
+    default:
+      return { ok: false, error: 'Invalid scoring action' };
+  }
+}
@@ -0,0 +1,95 @@
+// Heuristic player for bot seats in Crazy and Wilde games
+// No search: it captures whenever it can, rescues its own groups from atari, and
+// otherwise plays a random legal point that doesn't fill one of its own eyes.
+
+import { applyAction, type EngineState, type VariantRules } from './engine';
+import {
+  countLiberties,
+  detectAndRemoveCaptures,
+  getAdjacent,
+  getGroup,
+  type Position,
+} from './shared';
+
+interface Group {
+  color: number;
+  stones: Position[];
+  liberties: Position[];
+}
+
+function key(pos: Position): string {
+  return `${pos.x},${pos.y}`;
+}
+
+// Every group on the board with the empty points around it
+function boardGroups(state: EngineState): Group[] {
+  const { board, width, height, topology } = state;
+  const seen = new Set<string>();
+  const groups: Group[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = board[y][x];
+      if (color === null || seen.has(key({ x, y }))) continue;
+
+      const stones = getGroup(board, { x, y }, width, height, topology);
+      const liberties = new Map<string, Position>();
+      for (const stone of stones) {
+        seen.add(key(stone));
+        for (const adj of getAdjacent(stone, width, height, topology)) {
+          if (board[adj.y][adj.x] === null) liberties.set(key(adj), adj);
+        }
+      }
+      groups.push({ color, stones, liberties: [...liberties.values()] });
+    }
+  }
+  return groups;
+}
+
+// Whether a stone of `color` at `pos` ends up with more than one liberty once captures are taken
+function breathesAfter(state: EngineState, pos: Position, color: number): boolean {
+  const { width, height, topology } = state;
+  const board = state.board.map(row => [...row]);
+  board[pos.y][pos.x] = color;
+  const { newBoard } = detectAndRemoveCaptures(board, width, height, pos.x, pos.y, topology);
+  return countLiberties(newBoard, getGroup(newBoard, pos, width, height, topology), width, height, topology) > 1;
+}
+
+function isOwnEye(state: EngineState, pos: Position, color: number): boolean {
+  return getAdjacent(pos, state.width, state.height, state.topology).every(adj => state.board[adj.y][adj.x] === color);
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// The point the bot seat playing `color` places on, or null if it has no legal placement.
+// Candidates are tried in order of preference and the first the engine accepts wins.
+export function chooseSeatMove(state: EngineState, color: number, rules: VariantRules): Position | null {
+  const bySize = (a: Group, b: Group) => b.stones.length - a.stones.length;
+  const inAtari = boardGroups(state).filter(group => group.liberties.length === 1).sort(bySize);
+
+  // Capture first: biggest enemy group with a single liberty left
+  const captures = inAtari.filter(group => group.color !== color).map(group => group.liberties[0]);
+
+  // Atari escape: extend a threatened group where that actually gives it room
+  const escapes = inAtari
+    .filter(group => group.color === color)
+    .map(group => group.liberties[0])
+    .filter(pos => breathesAfter(state, pos, color));
+
+  const others: Position[] = [];
+  state.board.forEach((row, y) => row.forEach((stone, x) => {
+    if (stone === null && !isOwnEye(state, { x, y }, color)) others.push({ x, y });
+  }));
+
+  for (const pos of [...captures, ...escapes, ...shuffle(others)]) {
+    const outcome = applyAction(state, { actionType: 'place', stoneColor: color, toX: pos.x, toY: pos.y }, rules);
+    if (outcome.ok) return pos;
+  }
+  return null;
+}
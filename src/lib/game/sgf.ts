@@ -0,0 +1,537 @@
+// Smart Game Format (FF[4]) export and import for classic and Go Bang games
+// Placements and passes become B/W move nodes. Removing or moving a stone edits the board,
+// so those become AE/AB/AW setup nodes, with any stones a moved stone captured cleared too.
+// Go Bang adds two private properties, each on a setup node that clears the lost stones:
+//   MX[point] - a mine went off at this point
+//   DS[point] - a drone strike hit the stone at this point
+// Both carry a C[] comment as well, so standard editors show what happened.
+// Import reads the main line only and replays it through the rules engine, so a record
+// is accepted exactly when the same moves would have been accepted here.
+
+import type { CapturedStoneInfo, DroneStrikeInfo, ExplosionInfo } from '@/lib/db/schema';
+import { applyAction, removedStones, type ActionInput, type EngineState, type RuleViolation } from './engine';
+import { HANDICAP_KOMI, MAX_HANDICAP, MIN_HANDICAP, fixedHandicapStones } from './handicap';
+import { PASSES_TO_END, passesAfter, type GameStatus } from './result';
+import { defaultKomi, isValidKomi, type Ruleset } from './rulesets';
+import { isValidPosition, type Position } from './shared';
+import { CLASSIC_RULES, initialClassicState } from './variants';
+import type { SuperkoRule } from './zobrist';
+
+// Properties of one node, in the order they are written
+export type SgfNode = [property: string, values: string[]][];
+
+const COLOR_NAMES = ['black', 'white'] as const;
+const PLAYER_NAMES = ['Black', 'White'] as const;
+const MOVE_PROPERTIES = ['B', 'W'] as const;
+const SETUP_PROPERTIES = ['AB', 'AW'] as const;
+
+export const RULESET_NAMES: Record<Ruleset, string> = {
+  japanese: 'Japanese',
+  chinese: 'Chinese',
+  aga: 'AGA',
+};
+
+// RU[] value to a ruleset, falling back to Japanese for anything else (NZ, Ing, ...)
+export function rulesetFromSgf(value: string | null): Ruleset {
+  const name = (value ?? '').trim().toLowerCase();
+  return (Object.keys(RULESET_NAMES) as Ruleset[]).find(ruleset => ruleset === name) ?? 'japanese';
+}
+
+// Points are two letters, column then row, with 'a' at the top-left
+export function sgfPoint(pos: Position): string {
+  return String.fromCharCode(97 + pos.x) + String.fromCharCode(97 + pos.y);
+}
+
+// Text values escape the closing bracket and the escape character itself
+export function escapeSgfText(text: string): string {
+  return text.replace(/[\\\]]/g, match => `\\${match}`);
+}
+
+// Write a game tree with no variations, one node per line
+export function serializeSgf(nodes: SgfNode[]): string {
+  const lines = nodes.map(node =>
+    ';' + node.map(([property, values]) => property + values.map(value => `[${value}]`).join('')).join('')
+  );
+  return `(${lines.join('\n')})\n`;
+}
+
+// What an action row holds, minus the bookkeeping columns
+export interface SgfAction {
+  actionType: string;
+  stoneColor: number | null;
+  fromX: number | null;
+  fromY: number | null;
+  toX: number | null;
+  toY: number | null;
+  capturedStones: CapturedStoneInfo[] | null;
+  explosion?: ExplosionInfo | null;
+  droneStrike?: DroneStrikeInfo | null;
+}
+
+export interface SgfGameInfo {
+  boardSize: number;
+  komi: number;
+  ruleset: Ruleset;
+  handicapStones?: Position[];
+  result: string | null;
+  createdAt: Date;
+}
+
+function isStoneColor(color: number | null): color is 0 | 1 {
+  return color === 0 || color === 1;
+}
+
+function point(x: number | null, y: number | null): Position | null {
+  return x !== null && y !== null ? { x, y } : null;
+}
+
+// "2 white stones captured", "1 black stone and 3 white stones destroyed"
+function describeStones(stones: CapturedStoneInfo[], verb: string): string {
+  const counts = COLOR_NAMES.map((name, color) => {
+    const count = stones.filter(stone => stone.color === color).length;
+    return count === 0 ? null : `${count} ${name} ${count === 1 ? 'stone' : 'stones'}`;
+  }).filter(Boolean);
+  return `${counts.length > 0 ? counts.join(' and ') : 'no stones'} ${verb}`;
+}
+
+function rootNode(info: SgfGameInfo, variant: string): SgfNode {
+  const node: SgfNode = [
+    ['FF', ['4']],
+    ['GM', ['1']],
+    ['CA', ['UTF-8']],
+    ['AP', ['Goban Web']],
+    ['GN', [escapeSgfText(variant)]],
+    ['SZ', [String(info.boardSize)]],
+    ['KM', [String(info.komi)]],
+    ['RU', [RULESET_NAMES[info.ruleset]]],
+    ['DT', [info.createdAt.toISOString().slice(0, 10)]],
+  ];
+  const handicap = info.handicapStones ?? [];
+  if (handicap.length > 0) {
+    node.push(['HA', [String(handicap.length)]], ['AB', handicap.map(sgfPoint)], ['PL', ['W']]);
+  }
+  if (info.result) node.push(['RE', [escapeSgfText(info.result)]]);
+  return node;
+}
+
+// Nodes for one logged action; unknown or malformed rows produce none
+function actionNodes(action: SgfAction): SgfNode[] {
+  const color = action.stoneColor;
+  const captured = action.capturedStones ?? [];
+  const from = point(action.fromX, action.fromY);
+  const to = point(action.toX, action.toY);
+
+  switch (action.actionType) {
+    case 'place': {
+      if (!isStoneColor(color) || !to) return [];
+      const node: SgfNode = [[MOVE_PROPERTIES[color], [sgfPoint(to)]]];
+      if (captured.length > 0) node.push(['C', [describeStones(captured, 'captured')]]);
+      return [node];
+    }
+    case 'pass':
+      return isStoneColor(color) ? [[[MOVE_PROPERTIES[color], ['']]]] : [];
+    case 'resign':
+      return isStoneColor(color) ? [[['C', [`${PLAYER_NAMES[color]} resigned`]]]] : [];
+    case 'remove':
+      return from ? [[['AE', [sgfPoint(from)]]]] : [];
+    case 'move': {
+      if (!isStoneColor(color) || !from || !to) return [];
+      const node: SgfNode = [
+        ['AE', [from, ...captured].map(sgfPoint)],
+        [SETUP_PROPERTIES[color], [sgfPoint(to)]],
+      ];
+      if (captured.length > 0) node.push(['C', [describeStones(captured, 'captured')]]);
+      return [node];
+    }
+    default:
+      return [];
+  }
+}
+
+// Go Bang's explosion and drone strike after an action, as setup nodes that clear the lost stones
+function bangNodes(action: SgfAction): SgfNode[] {
+  const nodes: SgfNode[] = [];
+  const { explosion, droneStrike } = action;
+  if (explosion) {
+    const trigger = { x: explosion.triggerX, y: explosion.triggerY };
+    const node: SgfNode = [['MX', [sgfPoint(trigger)]]];
+    if (explosion.destroyedStones.length > 0) node.push(['AE', explosion.destroyedStones.map(sgfPoint)]);
+    node.push(['C', [`Mine exploded at ${sgfPoint(trigger)}: ${describeStones(explosion.destroyedStones, 'destroyed')}`]]);
+    nodes.push(node);
+  }
+  if (droneStrike) {
+    const target = { x: droneStrike.targetX, y: droneStrike.targetY };
+    nodes.push([
+      ['DS', [sgfPoint(target)]],
+      ['AE', [sgfPoint(target)]],
+      ['C', [`Drone strike destroyed the ${COLOR_NAMES[droneStrike.targetColor] ?? 'unknown'} stone at ${sgfPoint(target)}`]],
+    ]);
+  }
+  return nodes;
+}
+
+export function classicSgf(info: SgfGameInfo, actions: SgfAction[]): string {
+  return serializeSgf([rootNode(info, 'Go'), ...actions.flatMap(actionNodes)]);
+}
+
+export function bangSgf(info: SgfGameInfo, actions: SgfAction[]): string {
+  return serializeSgf([
+    rootNode(info, 'Go Bang'),
+    ...actions.flatMap(action => [...actionNodes(action), ...bangNodes(action)]),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+export type SgfParseOutcome = { ok: true; nodes: SgfNode[] } | { ok: false; error: string };
+
+// Main line of the first game tree in a collection. Variations are read (so a malformed
+// one is still reported) but dropped: each tree continues into its first child only.
+export function parseSgf(text: string): SgfParseOutcome {
+  let i = 0;
+
+  const skipSpace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const fail = (message: string): SgfParseOutcome => ({ ok: false, error: `${message} at offset ${i}` });
+
+  const readValue = (): string | null => {
+    i++; // opening bracket
+    let value = '';
+    while (i < text.length && text[i] !== ']') {
+      if (text[i] === '\\') {
+        i++;
+        if (i >= text.length) return null;
+        // An escaped line break is a soft break and disappears
+        if (text[i] === '\n' || text[i] === '\r') {
+          const pair = text[i] === '\r' && text[i + 1] === '\n';
+          i += pair ? 2 : 1;
+          continue;
+        }
+      }
+      value += text[i++];
+    }
+    if (i >= text.length) return null;
+    i++; // closing bracket
+    return value;
+  };
+
+  const readNode = (): SgfNode | SgfParseOutcome => {
+    i++; // semicolon
+    const node: SgfNode = [];
+    for (;;) {
+      skipSpace();
+      const start = i;
+      while (i < text.length && /[A-Za-z]/.test(text[i])) i++;
+      if (i === start) return node;
+      // FF[3] allowed lower-case letters in names (AddBlack), which FF[4] readers ignore
+      const property = text.slice(start, i).replace(/[a-z]/g, '');
+      if (!property) return fail('Invalid property name');
+
+      const values: string[] = [];
+      skipSpace();
+      while (text[i] === '[') {
+        const value = readValue();
+        if (value === null) return fail(`Unterminated value for ${property}`);
+        values.push(value);
+        skipSpace();
+      }
+      if (values.length === 0) return fail(`Property ${property} has no value`);
+      if (node.some(([existing]) => existing === property)) return fail(`Property ${property} repeated in one node`);
+      node.push([property, values]);
+    }
+  };
+
+  // Returns the tree's main line, or a failure
+  const readTree = (): SgfNode[] | SgfParseOutcome => {
+    i++; // opening parenthesis
+    const nodes: SgfNode[] = [];
+    skipSpace();
+    while (text[i] === ';') {
+      const node = readNode();
+      if (!Array.isArray(node)) return node;
+      nodes.push(node);
+      skipSpace();
+    }
+    if (nodes.length === 0) return fail('Game tree has no nodes');
+
+    let first = true;
+    while (text[i] === '(') {
+      const child = readTree();
+      if (!Array.isArray(child)) return child;
+      if (first) nodes.push(...child);
+      first = false;
+      skipSpace();
+    }
+    if (text[i] !== ')') return fail(i >= text.length ? 'Unexpected end of record' : `Unexpected '${text[i]}'`);
+    i++;
+    return nodes;
+  };
+
+  // Anything before the first game tree (mail headers and the like) is ignored
+  const tree = /\(\s*;/.exec(text);
+  if (!tree) return { ok: false, error: 'No game tree found' };
+  i = tree.index;
+  const nodes = readTree();
+  return Array.isArray(nodes) ? { ok: true, nodes } : nodes;
+}
+
+// First value of a property, or null when the node doesn't have it
+export function sgfValue(node: SgfNode, property: string): string | null {
+  return node.find(([name]) => name === property)?.[1][0] ?? null;
+}
+
+export function sgfValues(node: SgfNode, property: string): string[] {
+  return node.find(([name]) => name === property)?.[1] ?? [];
+}
+
+// Point value to a position. Compressed point lists (aa:cc) expand to every point in the rectangle.
+export function parseSgfPoints(value: string): Position[] | null {
+  const corner = (text: string): Position | null =>
+    /^[a-zA-Z]{2}$/.test(text) ? { x: letterIndex(text[0]), y: letterIndex(text[1]) } : null;
+
+  const [from, to] = value.split(':');
+  const a = corner(from);
+  if (!a) return null;
+  if (to === undefined) return [a];
+
+  const b = corner(to);
+  if (!b) return null;
+  const points: Position[] = [];
+  for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) {
+    for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) points.push({ x, y });
+  }
+  return points;
+}
+
+// 'a'-'z' are 0-25 and 'A'-'Z' are 26-51
+function letterIndex(letter: string): number {
+  const code = letter.charCodeAt(0);
+  return code >= 97 ? code - 97 : code - 65 + 26;
+}
+
+// ---------------------------------------------------------------------------
+// Classic import
+// ---------------------------------------------------------------------------
+
+// An actions row for the imported game, in play order
+export interface ImportedAction {
+  actionType: 'place' | 'remove' | 'move' | 'pass' | 'resign';
+  stoneColor: number;
+  fromX: number | null;
+  fromY: number | null;
+  toX: number | null;
+  toY: number | null;
+  capturedStones: CapturedStoneInfo[];
+  koPointX: number | null;
+  koPointY: number | null;
+}
+
+export interface ImportedClassicGame {
+  boardSize: number;
+  ruleset: Ruleset;
+  komi: number;
+  handicapStones: Position[];
+  status: GameStatus;
+  result: string | null;
+  consecutivePasses: number;
+  state: EngineState; // Position after the last move
+  actions: ImportedAction[];
+}
+
+export type ClassicImportOutcome =
+  | { ok: true; game: ImportedClassicGame }
+  | { ok: false; error: string }
+  // A move the rules engine refused; `node` counts from 1 after the root (0 is a move in the root)
+  | { ok: false; error?: undefined; node: number; violation: RuleViolation; color: number };
+
+const IMPORT_BOARD_SIZES = [9, 13, 19];
+
+// SGF result to the notation stored on games: resignations, point margins and draws.
+// Time and forfeit wins and unknown results come back null and leave the game unscored.
+function importedResult(value: string | null): { result: string; resigned: 0 | 1 | null } | null {
+  if (!value) return null;
+  const text = value.trim();
+  if (/^(0|draw|jigo)$/i.test(text)) return { result: 'Draw', resigned: null };
+
+  const match = /^([BW])\+(R|Resign|\d+(?:\.\d+)?)$/i.exec(text);
+  if (!match) return null;
+  const winner = match[1].toUpperCase();
+  if (/^r/i.test(match[2])) return { result: `${winner}+R`, resigned: winner === 'B' ? 1 : 0 };
+  return { result: `${winner}+${Number(match[2])}`, resigned: null };
+}
+
+// Replay the main line of an SGF record as a new classic game
+export function classicFromSgf(text: string, superko: SuperkoRule): ClassicImportOutcome {
+  const parsed = parseSgf(text);
+  if (!parsed.ok) return parsed;
+  const [root, ...rest] = parsed.nodes;
+
+  const game = sgfValue(root, 'GM');
+  if (game !== null && game.trim() !== '1') return { ok: false, error: 'Only Go records (GM[1]) can be imported' };
+
+  const size = sgfValue(root, 'SZ')?.trim() ?? '19';
+  const boardSize = Number(size);
+  if (!/^\d+$/.test(size) || !IMPORT_BOARD_SIZES.includes(boardSize)) {
+    return { ok: false, error: `Unsupported board size SZ[${size}]. Must be 9, 13, or 19.` };
+  }
+
+  const ruleset = rulesetFromSgf(sgfValue(root, 'RU'));
+
+  // Handicap stones are the root's AB stones, or the star points when only HA is given
+  if (sgfValues(root, 'AW').length > 0 || sgfValues(root, 'AE').length > 0) {
+    return { ok: false, error: 'Setup stones in the root node are only supported as Black handicap stones' };
+  }
+  let handicapStones: Position[] = [];
+  for (const value of sgfValues(root, 'AB')) {
+    const points = parseSgfPoints(value);
+    if (!points || points.some(p => !isValidPosition(p.x, p.y, boardSize, boardSize))) {
+      return { ok: false, error: `Invalid handicap stone AB[${value}]` };
+    }
+    handicapStones.push(...points);
+  }
+  const handicapValue = sgfValue(root, 'HA');
+  const handicap = handicapValue === null ? handicapStones.length : Number(handicapValue.trim());
+  if (handicapStones.length === 0 && handicap >= MIN_HANDICAP && handicap <= MAX_HANDICAP) {
+    handicapStones = fixedHandicapStones(boardSize, handicap);
+  }
+  const distinct = new Set(handicapStones.map(p => `${p.x},${p.y}`)).size;
+  if (handicapStones.length > 0 &&
+      (distinct !== handicapStones.length || handicapStones.length < MIN_HANDICAP || handicapStones.length > MAX_HANDICAP)) {
+    return { ok: false, error: `Handicap must be ${MIN_HANDICAP}-${MAX_HANDICAP} distinct Black stones` };
+  }
+
+  const komiValue = sgfValue(root, 'KM');
+  const komi = komiValue === null
+    ? (handicapStones.length > 0 ? HANDICAP_KOMI : defaultKomi(ruleset))
+    : Number(komiValue.trim());
+  if (!isValidKomi(komi)) return { ok: false, error: `Invalid komi KM[${komiValue}]` };
+
+  let state = initialClassicState({ boardSize, superko, handicapStones });
+  const actions: ImportedAction[] = [];
+  let consecutivePasses = 0;
+  let lastPasser: number | null = null;
+
+  const play = (node: number, input: ActionInput & { actionType: 'place' | 'remove' | 'move' }): ClassicImportOutcome | null => {
+    const outcome = applyAction(state, input, CLASSIC_RULES);
+    if (!outcome.ok) {
+      return { ok: false, node, violation: outcome.violation, color: typeof input.stoneColor === 'number' ? input.stoneColor : 0 };
+    }
+    state = outcome.state;
+    consecutivePasses = 0;
+    lastPasser = null;
+    actions.push({
+      actionType: input.actionType,
+      stoneColor: outcome.color,
+      fromX: (input.fromX as number | undefined) ?? null,
+      fromY: (input.fromY as number | undefined) ?? null,
+      toX: (input.toX as number | undefined) ?? null,
+      toY: (input.toY as number | undefined) ?? null,
+      capturedStones: removedStones(outcome.events),
+      koPointX: state.koPoint?.x ?? null,
+      koPointY: state.koPoint?.y ?? null,
+    });
+    return null;
+  };
+
+  // A move in the root node itself is played first, as node 0
+  const rootMove = root.filter(([property]) => property === 'B' || property === 'W');
+  const moves = rootMove.length > 0 ? [rootMove, ...rest] : rest;
+  const first = rootMove.length > 0 ? 0 : 1;
+
+  for (let n = first; n < first + moves.length; n++) {
+    const node = moves[n - first];
+    const black = sgfValue(node, 'B');
+    const white = sgfValue(node, 'W');
+    const erased = sgfValues(node, 'AE');
+    const added = [...sgfValues(node, 'AB').map(v => [0, v] as const), ...sgfValues(node, 'AW').map(v => [1, v] as const)];
+
+    if (black !== null && white !== null) return { ok: false, error: `Node ${n} has both a Black and a White move` };
+    if ((black !== null || white !== null) && (erased.length > 0 || added.length > 0)) {
+      return { ok: false, error: `Node ${n} mixes a move with setup stones` };
+    }
+
+    if (black !== null || white !== null) {
+      const color = black !== null ? 0 : 1;
+      const value = (black ?? white ?? '').trim();
+      // An empty value is a pass, and so is tt on boards up to 19x19 (FF[3])
+      if (value === '' || value === 'tt') {
+        consecutivePasses = passesAfter(consecutivePasses, lastPasser, color);
+        lastPasser = color;
+        state = { ...state, koPoint: null };
+        actions.push({
+          actionType: 'pass', stoneColor: color,
+          fromX: null, fromY: null, toX: null, toY: null,
+          capturedStones: [], koPointX: null, koPointY: null,
+        });
+        continue;
+      }
+      const points = parseSgfPoints(value);
+      if (!points || points.length !== 1) return { ok: false, error: `Invalid move at node ${n}: ${value}` };
+      const failure = play(n, { actionType: 'place', stoneColor: color, toX: points[0].x, toY: points[0].y });
+      if (failure) return failure;
+      continue;
+    }
+
+    if (erased.length === 0 && added.length === 0) continue; // Comments, markup and the like
+
+    const erasedPoints: Position[] = [];
+    for (const value of erased) {
+      const points = parseSgfPoints(value);
+      if (!points) return { ok: false, error: `Invalid point AE[${value}] at node ${n}` };
+      erasedPoints.push(...points);
+    }
+
+    if (added.length === 0) {
+      // Stones taken off the board go back to their pots
+      for (const from of erasedPoints) {
+        const failure = play(n, { actionType: 'remove', fromX: from.x, fromY: from.y });
+        if (failure) return failure;
+      }
+      continue;
+    }
+
+    // One stone added and one of its colour erased is a stone moved across the board;
+    // any other erased points must be stones the move captured
+    const [color, value] = added[0];
+    const to = parseSgfPoints(value);
+    const from = erasedPoints.find(p => state.board[p.y]?.[p.x] === color);
+    if (added.length !== 1 || !to || to.length !== 1 || !from) {
+      return { ok: false, error: `Unsupported setup at node ${n}: only removing stones or moving one stone can be imported` };
+    }
+    const failure = play(n, { actionType: 'move', fromX: from.x, fromY: from.y, toX: to[0].x, toY: to[0].y });
+    if (failure) return failure;
+    if (erasedPoints.some(p => state.board[p.y]?.[p.x] !== null)) {
+      return { ok: false, error: `Unsupported setup at node ${n}: erased stones that were not captured` };
+    }
+  }
+
+  // A resignation is recorded as the loser's resign action, like one made on the site
+  const outcome = importedResult(sgfValue(root, 'RE'));
+  if (outcome?.resigned !== null && outcome?.resigned !== undefined) {
+    actions.push({
+      actionType: 'resign', stoneColor: outcome.resigned,
+      fromX: null, fromY: null, toX: null, toY: null,
+      capturedStones: [], koPointX: null, koPointY: null,
+    });
+  }
+
+  const status: GameStatus = outcome ? 'finished' : consecutivePasses >= PASSES_TO_END ? 'scoring' : 'playing';
+  return {
+    ok: true,
+    game: {
+      boardSize,
+      ruleset,
+      komi,
+      handicapStones,
+      status,
+      result: outcome?.result ?? null,
+      consecutivePasses,
+      state,
+      actions,
+    },
+  };
+}
@@ -0,0 +1,429 @@
+// Multi-colour SGF dialect for Crazy, Wilde and Zen records
+// Standard SGF only has Black and White, so these records add private properties
+// (FF[4] readers skip properties they don't know) on top of an ordinary game tree.
+//
+// Root node:
+//   XV[crazy|wilde|zen]  variant
+//   XN[n]                players: 4 for Crazy, 2-8 for Wilde, 3 seats for Zen
+//   XS[w:h]              board width and height (SZ[] carries the same for other readers)
+//   XP[n][n]...          starting pot of each colour; Zen has one shared pot
+//   XK[rule]             superko rule, positional or situational
+//   XT[topology]         Wilde board topology, omitted when flat
+//   XO[1]                Wilde Pakita mode
+//   XC[colour:hue]...    Wilde custom hue offsets
+// Move nodes:
+//   XM[colour:point]     Crazy/Wilde placement of a stone of that colour
+//   B[point]/W[point]    Zen placement - Zen stones really are black and white, with
+//   XZ[seat]             the seat (0-2) that placed it; colours must alternate B, W, B...
+//   XE[point]            Pakita eats the stone at point (Wilde)
+// Setup nodes, as in classic records:
+//   AE[point]            a stone taken back to its pot
+//   AE[from]XA[c:to]     a stone moved across the board (AB/AW instead of XA for Zen);
+//                        AE also lists anything the move captured
+// Import replays the main line through the rules engine from the starting pots, so the
+// imported game ends on exactly the board, pots and captures the record describes.
+
+import type { CapturedStoneInfo, StonePot } from '@/lib/db/schema';
+import { MAX_HUE_OFFSET, isValidHueOffset } from '@/lib/wilde/colors';
+import {
+  applyAction,
+  removedStones,
+  WAIVABLE_VIOLATIONS,
+  type ActionInput,
+  type EngineState,
+  type RuleViolation,
+  type VariantRules,
+} from './engine';
+import { isRuleset, type Ruleset } from './rulesets';
+import { isTopology, type Position, type Topology } from './shared';
+import {
+  escapeSgfText,
+  parseSgf,
+  parseSgfPoints,
+  RULESET_NAMES,
+  rulesetFromSgf,
+  serializeSgf,
+  sgfPoint,
+  sgfValue,
+  sgfValues,
+  type SgfNode,
+} from './sgf';
+import {
+  CRAZY_RULES,
+  ZEN_RULES,
+  initialCrazyState,
+  initialWildeState,
+  initialZenState,
+  wildeRules,
+} from './variants';
+import { isSuperkoRule, type SuperkoRule } from './zobrist';
+
+export type MultiColorVariant = 'crazy' | 'wilde' | 'zen';
+
+const VARIANT_NAMES: Record<MultiColorVariant, string> = {
+  crazy: 'Crazy Go',
+  wilde: 'Wilde Go',
+  zen: 'Zen Go',
+};
+
+const ZEN_MOVES = ['B', 'W'] as const;
+const ZEN_SETUP = ['AB', 'AW'] as const;
+
+export interface MultiColorGameInfo {
+  variant: MultiColorVariant;
+  width: number;
+  height: number;
+  playerCount: number;
+  startingPots: number[];
+  superko: SuperkoRule;
+  ruleset: Ruleset;
+  topology?: Topology;
+  pakitaMode?: boolean;
+  customHues?: Record<number, number> | null;
+  createdAt: Date;
+}
+
+// What an action row holds, minus the bookkeeping columns
+export interface MultiColorAction {
+  actionType: string;
+  stoneColor: number | null;
+  playerIndex?: number | null;
+  fromX: number | null;
+  fromY: number | null;
+  toX: number | null;
+  toY: number | null;
+  capturedStones: CapturedStoneInfo[] | null;
+}
+
+function point(x: number | null, y: number | null): Position | null {
+  return x !== null && y !== null ? { x, y } : null;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function rootNode(info: MultiColorGameInfo): SgfNode {
+  const size = info.width === info.height ? String(info.width) : `${info.width}:${info.height}`;
+  const node: SgfNode = [
+    ['FF', ['4']],
+    ['GM', ['1']],
+    ['CA', ['UTF-8']],
+    ['AP', ['Goban Web']],
+    ['GN', [escapeSgfText(VARIANT_NAMES[info.variant])]],
+    ['SZ', [size]],
+    ['RU', [RULESET_NAMES[info.ruleset]]],
+    ['DT', [info.createdAt.toISOString().slice(0, 10)]],
+    ['XV', [info.variant]],
+    ['XN', [String(info.playerCount)]],
+    ['XS', [`${info.width}:${info.height}`]],
+    ['XP', info.startingPots.map(String)],
+    ['XK', [info.superko]],
+  ];
+  if (info.topology && info.topology !== 'flat') node.push(['XT', [info.topology]]);
+  if (info.pakitaMode) node.push(['XO', ['1']]);
+  const hues = Object.entries(info.customHues ?? {});
+  if (hues.length > 0) node.push(['XC', hues.map(([color, hue]) => `${color}:${hue}`)]);
+  return node;
+}
+
+function actionNode(variant: MultiColorVariant, action: MultiColorAction): SgfNode | null {
+  const color = action.stoneColor;
+  const from = point(action.fromX, action.fromY);
+  const to = point(action.toX, action.toY);
+  const captured = action.capturedStones ?? [];
+
+  switch (action.actionType) {
+    case 'place':
+      if (color === null || !to) return null;
+      if (variant === 'zen') {
+        return [[ZEN_MOVES[color], [sgfPoint(to)]], ['XZ', [String(action.playerIndex ?? 0)]]];
+      }
+      return [['XM', [`${color}:${sgfPoint(to)}`]]];
+    case 'move':
+      if (color === null || !from || !to) return null;
+      return [
+        ['AE', [from, ...captured].map(sgfPoint)],
+        variant === 'zen' ? [ZEN_SETUP[color], [sgfPoint(to)]] : ['XA', [`${color}:${sgfPoint(to)}`]],
+      ];
+    case 'remove':
+      return from ? [['AE', [sgfPoint(from)]]] : null;
+    case 'pakita_eat':
+      return from ? [['XE', [sgfPoint(from)]], ['C', ['Pakita ate a stone']]] : null;
+    default:
+      return null;
+  }
+}
+
+export function multiColorSgf(info: MultiColorGameInfo, actions: MultiColorAction[]): string {
+  const nodes = actions.map(action => actionNode(info.variant, action)).filter((node): node is SgfNode => node !== null);
+  return serializeSgf([rootNode(info), ...nodes]);
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+// An actions row for the imported game, in play order (moveNumber counts from 1)
+export interface ImportedMultiColorAction {
+  actionType: 'place' | 'remove' | 'move' | 'pakita_eat';
+  stoneColor: number;
+  playerIndex: number | null;
+  fromX: number | null;
+  fromY: number | null;
+  toX: number | null;
+  toY: number | null;
+  moveNumber: number;
+  capturedStones: CapturedStoneInfo[];
+  koPointX: number | null;
+  koPointY: number | null;
+}
+
+export interface ImportedMultiColorGame {
+  width: number;
+  height: number;
+  playerCount: number;
+  startingPots: number[];
+  superko: SuperkoRule;
+  ruleset: Ruleset;
+  topology: Topology;
+  pakitaMode: boolean;
+  customHues: Record<number, number> | null;
+  state: EngineState; // Position after the last action
+  actions: ImportedMultiColorAction[];
+}
+
+export type MultiColorImportOutcome =
+  | { ok: true; game: ImportedMultiColorGame }
+  | { ok: false; error: string }
+  // An action the rules engine refused; `node` counts from 1 after the root
+  | { ok: false; error?: undefined; node: number; violation: RuleViolation; color?: number };
+
+function fail(error: string): MultiColorImportOutcome {
+  return { ok: false, error };
+}
+
+function wholeNumber(value: string | null | undefined): number | null {
+  const text = value?.trim() ?? '';
+  return /^\d+$/.test(text) ? Number(text) : null;
+}
+
+// 'colour:point' as used by XM and XA
+function coloredPoint(value: string): { color: number; at: Position } | null {
+  const match = /^(\d+):([a-zA-Z]{2})$/.exec(value.trim());
+  const points = match ? parseSgfPoints(match[2]) : null;
+  return match && points ? { color: Number(match[1]), at: points[0] } : null;
+}
+
+interface VariantSetup {
+  rules: VariantRules;
+  state: EngineState;
+}
+
+// Board shape, player count and pots the variant allows, plus its starting state.
+// Crazy and Zen replays always start from the standard pots, so records must too.
+function variantSetup(
+  variant: MultiColorVariant,
+  width: number,
+  height: number,
+  playerCount: number,
+  pots: number[],
+  superko: SuperkoRule,
+  topology: Topology
+): VariantSetup | string {
+  if (variant === 'wilde') {
+    if (width < 3 || width > 20 || height < 3 || height > 20) return 'Wilde boards must be 3-20 wide and high';
+    if (playerCount < 2 || playerCount > 8) return 'Wilde games have 2-8 players';
+    if (pots.length !== playerCount) return `XP must list one pot for each of the ${playerCount} players`;
+    const stonePots: StonePot[] = pots.map(potCount => ({ potCount, captured: 0, onBoard: 0 }));
+    return {
+      rules: wildeRules(playerCount),
+      state: initialWildeState({ boardWidth: width, boardHeight: height, topology, stonePots, superko }, []),
+    };
+  }
+
+  if (width !== height || ![9, 13, 19].includes(width)) return 'Board size must be 9, 13, or 19';
+  if (variant === 'crazy') {
+    if (playerCount !== 4) return 'Crazy Go games have 4 players';
+    const state = initialCrazyState({ boardSize: width, superko });
+    if (pots.join() !== state.potCounts.join()) return `XP must be the standard ${width}x${width} pots: ${state.potCounts.join(', ')}`;
+    return { rules: CRAZY_RULES, state };
+  }
+
+  if (playerCount !== 3) return 'Zen Go games have 3 players';
+  const state = initialZenState({ boardSize: width, superko });
+  if (pots.join() !== state.potCounts.join()) return `XP must be the standard ${width}x${width} shared pot: ${state.potCounts[0]}`;
+  return { rules: ZEN_RULES, state };
+}
+
+// Replay the main line of a multi-colour record as a new game of `variant`
+export function multiColorFromSgf(text: string, variant: MultiColorVariant): MultiColorImportOutcome {
+  const parsed = parseSgf(text);
+  if (!parsed.ok) return parsed;
+  const [root, ...nodes] = parsed.nodes;
+
+  const recorded = sgfValue(root, 'XV')?.trim();
+  if (recorded !== variant) {
+    return fail(recorded ? `This is a ${recorded} record, not ${variant}` : `Not a ${VARIANT_NAMES[variant]} record (XV[${variant}] missing)`);
+  }
+
+  const [w, h] = (sgfValue(root, 'XS') ?? sgfValue(root, 'SZ') ?? '').split(':');
+  const width = wholeNumber(w);
+  const height = h === undefined ? width : wholeNumber(h);
+  if (width === null || height === null) return fail('Invalid board size');
+
+  const playerCount = wholeNumber(sgfValue(root, 'XN'));
+  if (playerCount === null) return fail('Invalid player count XN[]');
+
+  const pots = sgfValues(root, 'XP').map(wholeNumber);
+  if (pots.length === 0 || pots.some(pot => pot === null)) return fail('Invalid starting pots XP[]');
+
+  const superko = sgfValue(root, 'XK')?.trim() ?? 'positional';
+  if (!isSuperkoRule(superko)) return fail(`Invalid superko rule XK[${superko}]`);
+
+  const topology = sgfValue(root, 'XT')?.trim() ?? 'flat';
+  if (!isTopology(topology) || (variant !== 'wilde' && topology !== 'flat')) return fail(`Invalid topology XT[${topology}]`);
+
+  const customHues: Record<number, number> = {};
+  for (const value of sgfValues(root, 'XC')) {
+    const match = /^(\d+):(-?\d+)$/.exec(value.trim());
+    // Colours of this game only, turned no further than the create page's slider goes
+    if (!match || Number(match[1]) >= playerCount || !isValidHueOffset(Number(match[2]))) {
+      return fail(`Invalid custom hue XC[${value}]. Must be colour 0-${playerCount - 1}:hue -${MAX_HUE_OFFSET} to ${MAX_HUE_OFFSET}.`);
+    }
+    customHues[Number(match[1])] = Number(match[2]);
+  }
+
+  const setup = variantSetup(variant, width, height, playerCount, pots as number[], superko, topology);
+  if (typeof setup === 'string') return fail(setup);
+  const { rules } = setup;
+  let { state } = setup;
+  const actions: ImportedMultiColorAction[] = [];
+
+  // Rules an admin may have switched off while the game was played are let through,
+  // just as replays and undo do; anything else rejects the record
+  const play = (
+    node: number,
+    actionType: ImportedMultiColorAction['actionType'],
+    input: Omit<ActionInput, 'actionType'> & { stoneColor?: number; fromX?: number; fromY?: number; toX?: number; toY?: number }
+  ): MultiColorImportOutcome | null => {
+    const seat = state.currentTurn;
+    const engineInput = { ...input, actionType: actionType === 'pakita_eat' ? 'remove' : actionType };
+    const outcome = applyAction(state, engineInput, rules, WAIVABLE_VIOLATIONS);
+    if (!outcome.ok) {
+      return { ok: false, node, violation: outcome.violation, color: input.stoneColor };
+    }
+    state = outcome.state;
+    actions.push({
+      actionType,
+      stoneColor: outcome.color,
+      playerIndex: variant === 'zen' && actionType === 'place' ? seat : null,
+      fromX: input.fromX ?? null,
+      fromY: input.fromY ?? null,
+      toX: input.toX ?? null,
+      toY: input.toY ?? null,
+      moveNumber: actions.length + 1,
+      capturedStones: removedStones(outcome.events),
+      koPointX: state.koPoint?.x ?? null,
+      koPointY: state.koPoint?.y ?? null,
+    });
+    return null;
+  };
+
+  for (let n = 1; n <= nodes.length; n++) {
+    const node = nodes[n - 1];
+    const placements: { color: number; value: string }[] = [
+      ...sgfValues(node, 'XM').map(value => ({ color: -1, value })),
+      ...(['B', 'W'] as const).flatMap((property, color) => sgfValues(node, property).map(value => ({ color, value }))),
+    ];
+    const eaten = sgfValues(node, 'XE');
+    const erased = sgfValues(node, 'AE');
+    const added = [
+      ...sgfValues(node, 'XA'),
+      ...sgfValues(node, 'AB').map(value => `0:${value}`),
+      ...sgfValues(node, 'AW').map(value => `1:${value}`),
+    ];
+
+    const kinds = [placements.length > 0, eaten.length > 0, erased.length > 0 || added.length > 0].filter(Boolean).length;
+    if (kinds === 0) continue; // Comments and the like
+    if (kinds > 1 || placements.length > 1 || eaten.length > 1) return fail(`Node ${n} holds more than one action`);
+
+    if (placements.length === 1) {
+      const { value } = placements[0];
+      const standard = placements[0].color >= 0;
+      if (standard !== (variant === 'zen')) {
+        return fail(`Invalid move at node ${n}: ${variant === 'zen' ? 'Zen moves use B[] and W[]' : 'moves use XM[colour:point]'}`);
+      }
+
+      const move = standard ? parseSgfPoints(value) : null;
+      const placed = standard ? (move?.length === 1 ? { color: placements[0].color, at: move[0] } : null) : coloredPoint(value);
+      if (!placed) return fail(`Invalid move at node ${n}: ${value}`);
+
+      if (variant === 'zen') {
+        // The shared pot alternates colours, and the seat must be the one whose turn it is
+        if (placed.color !== state.nextStoneColor) return fail(`Node ${n} breaks Zen's alternating colours`);
+        const seat = wholeNumber(sgfValue(node, 'XZ'));
+        if (seat !== null && seat !== state.currentTurn) return fail(`Node ${n} is played by seat ${seat}, expected seat ${state.currentTurn}`);
+      }
+
+      const failure = play(n, 'place', { stoneColor: placed.color, toX: placed.at.x, toY: placed.at.y });
+      if (failure) return failure;
+      continue;
+    }
+
+    if (eaten.length === 1) {
+      if (variant !== 'wilde') return fail(`Node ${n}: only Wilde games have Pakita`);
+      const at = parseSgfPoints(eaten[0]);
+      if (!at || at.length !== 1) return fail(`Invalid Pakita point XE[${eaten[0]}] at node ${n}`);
+      const failure = play(n, 'pakita_eat', { fromX: at[0].x, fromY: at[0].y });
+      if (failure) return failure;
+      continue;
+    }
+
+    const erasedPoints: Position[] = [];
+    for (const value of erased) {
+      const points = parseSgfPoints(value);
+      if (!points) return fail(`Invalid point AE[${value}] at node ${n}`);
+      erasedPoints.push(...points);
+    }
+
+    if (added.length === 0) {
+      for (const from of erasedPoints) {
+        const failure = play(n, 'remove', { fromX: from.x, fromY: from.y });
+        if (failure) return failure;
+      }
+      continue;
+    }
+
+    // One stone added and one of its colour erased is a stone moved across the board;
+    // any other erased points must be stones the move captured
+    const moved = added.length === 1 ? coloredPoint(added[0]) : null;
+    const from = moved ? erasedPoints.find(p => state.board[p.y]?.[p.x] === moved.color) : undefined;
+    if (!moved || !from) {
+      return fail(`Unsupported setup at node ${n}: only removing stones or moving one stone can be imported`);
+    }
+    const failure = play(n, 'move', { fromX: from.x, fromY: from.y, toX: moved.at.x, toY: moved.at.y });
+    if (failure) return failure;
+    if (erasedPoints.some(p => state.board[p.y]?.[p.x] !== null)) {
+      return fail(`Unsupported setup at node ${n}: erased stones that were not captured`);
+    }
+  }
+
+  const ruleset = rulesetFromSgf(sgfValue(root, 'RU'));
+  return {
+    ok: true,
+    game: {
+      width,
+      height,
+      playerCount,
+      startingPots: pots as number[],
+      superko,
+      ruleset: isRuleset(ruleset) ? ruleset : 'japanese',
+      topology,
+      pakitaMode: sgfValue(root, 'XO')?.trim() === '1',
+      customHues: Object.keys(customHues).length > 0 ? customHues : null,
+      state,
+      actions,
+    },
+  };
+}
@@ -7,14 +7,42 @@ export type Position = { x: number; y: number };
 export type GenericStone = number | null;
 export type GenericBoard = GenericStone[][];
 
+// How the board's edges join up. A cylinder joins the left and right edges; a torus
+// also joins the top and bottom. Only Wilde games offer anything but flat.
+export type Topology = 'flat' | 'cylinder' | 'torus';
+export const TOPOLOGIES: readonly Topology[] = ['flat', 'cylinder', 'torus'];
+
+export function isTopology(value: unknown): value is Topology {
+  return typeof value === 'string' && (TOPOLOGIES as readonly string[]).includes(value);
+}
+
+// Topology stored on a game row, falling back to flat for anything unrecognised
+export function topologyFrom(value: unknown): Topology {
+  return isTopology(value) ? value : 'flat';
+}
+
+// Whether the left/right and top/bottom edges meet. A side shorter than 3 never wraps,
+// so no point ends up as its own neighbour or the same neighbour twice.
+export function wrapsAround(topology: Topology, width: number, height: number): { x: boolean; y: boolean } {
+  return {
+    x: topology !== 'flat' && width >= 3,
+    y: topology === 'torus' && height >= 3,
+  };
+}
+
 // Get adjacent positions for rectangular board
-export function getAdjacent(pos: Position, width: number, height: number): Position[] {
+export function getAdjacent(pos: Position, width: number, height: number, topology: Topology = 'flat'): Position[] {
   const adjacent: Position[] = [];
   const { x, y } = pos;
+  const wraps = wrapsAround(topology, width, height);
   if (x > 0) adjacent.push({ x: x - 1, y });
+  else if (wraps.x) adjacent.push({ x: width - 1, y });
   if (x < width - 1) adjacent.push({ x: x + 1, y });
+  else if (wraps.x) adjacent.push({ x: 0, y });
   if (y > 0) adjacent.push({ x, y: y - 1 });
+  else if (wraps.y) adjacent.push({ x, y: height - 1 });
   if (y < height - 1) adjacent.push({ x, y: y + 1 });
+  else if (wraps.y) adjacent.push({ x, y: 0 });
   return adjacent;
 }
 
@@ -23,29 +51,149 @@ export function getAdjacentSquare(pos: Position, boardSize: number): Position[]
   return getAdjacent(pos, boardSize, boardSize);
 }
 
-// Get connected group of same color
-export function getGroup(board: GenericBoard, start: Position, width: number, height: number): Position[] {
-  const color = board[start.y][start.x];
-  if (color === null) return [];
-
-  const group: Position[] = [];
-  const visited = new Set<string>();
-  const queue: Position[] = [start];
-
-  while (queue.length > 0) {
-    const pos = queue.shift()!;
-    const key = `${pos.x},${pos.y}`;
-    if (visited.has(key)) continue;
-    if (board[pos.y][pos.x] !== color) continue;
-    visited.add(key);
-    group.push(pos);
-    for (const adj of getAdjacent(pos, width, height)) {
-      if (!visited.has(`${adj.x},${adj.y}`)) {
-        queue.push(adj);
+// Group and liberty work runs on flat indexes (y * width + x) with typed arrays for the
+// visited marks and queues, so replaying a long game through the engine stays cheap.
+
+// Neighbour table for a board shape: four slots per point, -1 where the edge cuts one off.
+// Built once per shape and topology and shared by every call.
+const neighborTables = new Map<string, Int32Array>();
+
+function neighborTable(width: number, height: number, topology: Topology): Int32Array {
+  const key = `${width}x${height}:${topology}`;
+  let table = neighborTables.get(key);
+  if (!table) {
+    table = new Int32Array(width * height * 4).fill(-1);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const slot = (y * width + x) * 4;
+        const adjacent = getAdjacent({ x, y }, width, height, topology);
+        for (let k = 0; k < adjacent.length; k++) {
+          table[slot + k] = adjacent[k].y * width + adjacent[k].x;
+        }
+      }
+    }
+    neighborTables.set(key, table);
+  }
+  return table;
+}
+
+// Flatten a board: 0 for empty, colour + 1 for a stone
+function toCells(board: GenericBoard, width: number, height: number): Int8Array {
+  const cells = new Int8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = board[y];
+    for (let x = 0; x < width; x++) {
+      const stone = row[x];
+      if (stone !== null) cells[y * width + x] = stone + 1;
+    }
+  }
+  return cells;
+}
+
+// Flat indexes of the group containing `start` (breadth-first, head-indexed queue)
+function groupIndexes(cells: Int8Array, start: number, neighbors: Int32Array): Int32Array {
+  const color = cells[start];
+  const visited = new Uint8Array(cells.length);
+  const queue = new Int32Array(cells.length);
+  let head = 0;
+  let tail = 0;
+  queue[tail++] = start;
+  visited[start] = 1;
+  while (head < tail) {
+    const i = queue[head++];
+    for (let k = i * 4; k < i * 4 + 4; k++) {
+      const n = neighbors[k];
+      if (n >= 0 && !visited[n] && cells[n] === color) {
+        visited[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+  return queue.subarray(0, tail);
+}
+
+// Distinct empty points next to a set of stones
+function libertyCount(cells: Int8Array, stones: ArrayLike<number>, neighbors: Int32Array): number {
+  const seen = new Uint8Array(cells.length);
+  let count = 0;
+  for (let s = 0; s < stones.length; s++) {
+    const i = stones[s];
+    for (let k = i * 4; k < i * 4 + 4; k++) {
+      const n = neighbors[k];
+      if (n >= 0 && cells[n] === 0 && !seen[n]) {
+        seen[n] = 1;
+        count++;
+      }
+    }
+  }
+  return count;
+}
+
+// Union-find over stones of the same colour, with each root holding its group's liberty count
+function findRoot(parent: Int32Array, i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+}
+
+function labelGroups(cells: Int8Array, neighbors: Int32Array): { parent: Int32Array; liberties: Int32Array } {
+  const size = cells.length;
+  const parent = new Int32Array(size);
+  for (let i = 0; i < size; i++) parent[i] = i;
+
+  for (let i = 0; i < size; i++) {
+    if (cells[i] === 0) continue;
+    for (let k = i * 4; k < i * 4 + 4; k++) {
+      const n = neighbors[k];
+      if (n > i && cells[n] === cells[i]) {
+        const a = findRoot(parent, i);
+        const b = findRoot(parent, n);
+        if (a !== b) parent[b] = a;
       }
     }
   }
-  return group;
+
+  // Each empty point is one liberty for every distinct group around it
+  const liberties = new Int32Array(size);
+  for (let i = 0; i < size; i++) {
+    if (cells[i] !== 0) continue;
+    creditLiberty(cells, parent, liberties, neighbors, i);
+  }
+  return { parent, liberties };
+}
+
+// Give an empty point's liberty to each distinct group around it
+function creditLiberty(cells: Int8Array, parent: Int32Array, liberties: Int32Array, neighbors: Int32Array, i: number) {
+  const credited: number[] = [];
+  for (let k = i * 4; k < i * 4 + 4; k++) {
+    const n = neighbors[k];
+    if (n < 0 || cells[n] === 0) continue;
+    const root = findRoot(parent, n);
+    if (!credited.includes(root)) {
+      credited.push(root);
+      liberties[root]++;
+    }
+  }
+}
+
+function toPosition(i: number, width: number): Position {
+  return { x: i % width, y: Math.floor(i / width) };
+}
+
+// Get connected group of same color
+export function getGroup(
+  board: GenericBoard,
+  start: Position,
+  width: number,
+  height: number,
+  topology: Topology = 'flat'
+): Position[] {
+  if (board[start.y][start.x] === null) return [];
+  const cells = toCells(board, width, height);
+  const neighbors = neighborTable(width, height, topology);
+  return Array.from(groupIndexes(cells, start.y * width + start.x, neighbors), i => toPosition(i, width));
 }
 
 // Overload for square boards
@@ -53,17 +201,59 @@ export function getGroupSquare(board: GenericBoard, start: Position, boardSize:
   return getGroup(board, start, boardSize, boardSize);
 }
 
-// Count liberties of a group
-export function countLiberties(board: GenericBoard, group: Position[], width: number, height: number): number {
-  const liberties = new Set<string>();
-  for (const pos of group) {
-    for (const adj of getAdjacent(pos, width, height)) {
-      if (board[adj.y][adj.x] === null) {
-        liberties.add(`${adj.x},${adj.y}`);
+export interface EmptyRegion {
+  points: Position[];
+  borders: number[]; // Distinct colours of the stones around it
+}
+
+// Every connected region of empty points, with the colours that border it - the basis of territory
+export function emptyRegions(
+  board: GenericBoard,
+  width: number,
+  height: number,
+  topology: Topology = 'flat'
+): EmptyRegion[] {
+  const cells = toCells(board, width, height);
+  const neighbors = neighborTable(width, height, topology);
+  const visited = new Uint8Array(cells.length);
+  const queue = new Int32Array(cells.length);
+  const regions: EmptyRegion[] = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (cells[start] !== 0 || visited[start]) continue;
+    const borders: number[] = [];
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+    while (head < tail) {
+      const i = queue[head++];
+      for (let k = i * 4; k < i * 4 + 4; k++) {
+        const n = neighbors[k];
+        if (n < 0) continue;
+        if (cells[n] !== 0) {
+          if (!borders.includes(cells[n] - 1)) borders.push(cells[n] - 1);
+        } else if (!visited[n]) {
+          visited[n] = 1;
+          queue[tail++] = n;
+        }
       }
     }
+    regions.push({ points: Array.from(queue.subarray(0, tail), i => toPosition(i, width)), borders });
   }
-  return liberties.size;
+  return regions;
+}
+
+// Count liberties of a group
+export function countLiberties(
+  board: GenericBoard,
+  group: Position[],
+  width: number,
+  height: number,
+  topology: Topology = 'flat'
+): number {
+  const cells = toCells(board, width, height);
+  return libertyCount(cells, group.map(pos => pos.y * width + pos.x), neighborTable(width, height, topology));
 }
 
 // Overload for square boards
@@ -72,36 +262,31 @@ export function countLibertiesSquare(board: GenericBoard, group: Position[], boa
 }
 
 // Check if placing stone would be suicide
-// A move is suicide only if AFTER captures are processed, the placed stone has no liberties
+// A move is suicide only if AFTER captures are processed, the placed stone has no liberties:
+// no empty neighbour, no friendly neighbour group with another liberty, and no
+// opponent neighbour group in atari (which the stone would capture)
 export function wouldBeSuicide(
   board: GenericBoard,
   x: number,
   y: number,
   color: number,
   width: number,
-  height: number
+  height: number,
+  topology: Topology = 'flat'
 ): boolean {
-  const testBoard = board.map(row => [...row]) as GenericBoard;
-  testBoard[y][x] = color;
-
-  // First, find and remove any opponent groups that would be captured
-  const adjacentPositions = getAdjacent({ x, y }, width, height);
-  for (const adj of adjacentPositions) {
-    const adjColor = testBoard[adj.y][adj.x];
-    if (adjColor !== null && adjColor !== color) {
-      const group = getGroup(testBoard, adj, width, height);
-      if (countLiberties(testBoard, group, width, height) === 0) {
-        // Remove the captured group from the test board
-        for (const pos of group) {
-          testBoard[pos.y][pos.x] = null;
-        }
-      }
-    }
-  }
+  const cells = toCells(board, width, height);
+  const neighbors = neighborTable(width, height, topology);
+  const at = y * width + x;
+  cells[at] = 0;
 
-  // Now check if the placed stone's group has liberties (after captures are removed)
-  const placedGroup = getGroup(testBoard, { x, y }, width, height);
-  return countLiberties(testBoard, placedGroup, width, height) === 0;
+  for (let k = at * 4; k < at * 4 + 4; k++) {
+    const n = neighbors[k];
+    if (n < 0) continue;
+    if (cells[n] === 0) return false;
+    const liberties = libertyCount(cells, groupIndexes(cells, n, neighbors), neighbors);
+    if (cells[n] === color + 1 ? liberties > 1 : liberties === 1) return false;
+  }
+  return true;
 }
 
 // Overload for square boards
@@ -124,45 +309,63 @@ export interface CaptureResult {
 }
 
 // Detect and remove captures from board
+// Groups are judged in row-major order on the board as it stands, so a group that
+// regains a liberty from an earlier capture survives; the placed stone's own group
+// is judged last, after the groups it captures are gone.
 export function detectAndRemoveCaptures(
   board: GenericBoard,
   width: number,
   height: number,
   lastPlacedX?: number,
-  lastPlacedY?: number
+  lastPlacedY?: number,
+  topology: Topology = 'flat'
 ): CaptureResult {
   const newBoard = board.map(row => [...row]) as GenericBoard;
-  const visited = new Set<string>();
+  const cells = toCells(board, width, height);
+  const neighbors = neighborTable(width, height, topology);
+  const { parent, liberties } = labelGroups(cells, neighbors);
+  const judged = new Uint8Array(cells.length);
   const capturedByColor = new Map<number, number>();
   const capturedPositions: Position[] = [];
 
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const stone = newBoard[y][x];
-      if (stone === null) continue;
-      const key = `${x},${y}`;
-      if (visited.has(key)) continue;
-
-      const group = getGroup(newBoard, { x, y }, width, height);
-      for (const pos of group) {
-        visited.add(`${pos.x},${pos.y}`);
-      }
+  const removeIfDead = (i: number) => {
+    if (cells[i] === 0) return;
+    const root = findRoot(parent, i);
+    if (judged[root]) return;
+    judged[root] = 1;
+    if (liberties[root] > 0) return;
 
-      if (countLiberties(newBoard, group, width, height) === 0) {
-        for (const pos of group) {
-          newBoard[pos.y][pos.x] = null;
-          capturedPositions.push(pos);
-        }
-        capturedByColor.set(stone, (capturedByColor.get(stone) || 0) + group.length);
-      }
+    const stone = cells[i] - 1;
+    const group = groupIndexes(cells, i, neighbors);
+    for (const g of group) cells[g] = 0;
+    // Each freed point is a new liberty for the groups around it
+    for (const g of group) {
+      const pos = toPosition(g, width);
+      newBoard[pos.y][pos.x] = null;
+      capturedPositions.push(pos);
+      creditLiberty(cells, parent, liberties, neighbors, g);
     }
+    capturedByColor.set(stone, (capturedByColor.get(stone) || 0) + group.length);
+  };
+
+  const hasLastPlaced = lastPlacedX !== undefined && lastPlacedY !== undefined && newBoard[lastPlacedY]?.[lastPlacedX] != null;
+  const placed = hasLastPlaced ? lastPlacedY * width + lastPlacedX : -1;
+  if (hasLastPlaced) judged[findRoot(parent, placed)] = 1;
+
+  for (let i = 0; i < cells.length; i++) {
+    removeIfDead(i);
+  }
+
+  if (hasLastPlaced) {
+    judged[findRoot(parent, placed)] = 0;
+    removeIfDead(placed);
   }
 
   // Ko detection: if exactly one stone captured and capturer has exactly one liberty
   let koPoint: Position | null = null;
-  if (capturedPositions.length === 1 && lastPlacedX !== undefined && lastPlacedY !== undefined) {
-    const capturingGroup = getGroup(newBoard, { x: lastPlacedX, y: lastPlacedY }, width, height);
-    if (capturingGroup.length === 1 && countLiberties(newBoard, capturingGroup, width, height) === 1) {
+  if (capturedPositions.length === 1 && hasLastPlaced && cells[placed] !== 0) {
+    const capturingGroup = groupIndexes(cells, placed, neighbors);
+    if (capturingGroup.length === 1 && libertyCount(cells, capturingGroup, neighbors) === 1) {
       koPoint = capturedPositions[0];
     }
   }
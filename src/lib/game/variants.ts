@@ -0,0 +1,411 @@
+// Per-variant rule hooks for the rules engine, plus the mapping between each
+// variant's database row and the engine's generic state
+
+import type {
+  Game,
+  CrazyGame,
+  WildeGame,
+  ZenGame,
+  BangGame,
+  StonePot,
+  MinePosition,
+  CapturedStoneInfo,
+} from '@/lib/db/schema';
+import type { EngineState, VariantRules } from './engine';
+import { countStonesByColor } from './engine';
+import { topologyFrom, type GenericBoard, type Position } from './shared';
+import { superkoFrom } from './zobrist';
+
+function positionFrom(x: number | null, y: number | null): Position | null {
+  return x !== null && y !== null ? { x, y } : null;
+}
+
+// ---------------------------------------------------------------------------
+// Classic Go (also used by the Dom skin)
+// ---------------------------------------------------------------------------
+
+export const CLASSIC_RULES: VariantRules = {
+  colorCount: 2,
+  seatCount: 2,
+  enforceTurnOrder: false,
+  potIndex: color => color,
+  // Prisoners count for the opponent of the captured stone's colour
+  creditIndex: capturedColor => 1 - capturedColor,
+};
+
+// Stone counts: each player gets ALL intersections, the starter gets +1.
+// In a handicap game White starts and Black's handicap stones come out of the pot.
+export function getClassicStoneCount(boardSize: number, handicap: number = 0): { black: number; white: number } {
+  const totalIntersections = boardSize * boardSize;
+  if (handicap > 0) {
+    return { black: totalIntersections - handicap, white: totalIntersections + 1 };
+  }
+  return { black: totalIntersections + 1, white: totalIntersections };
+}
+
+// Empty board with any handicap stones already placed for Black
+export function classicStartingBoard(boardSize: number, handicapStones: Position[] = []): GenericBoard {
+  const board: GenericBoard = Array(boardSize).fill(null).map(() => Array(boardSize).fill(null));
+  for (const stone of handicapStones) board[stone.y][stone.x] = 0;
+  return board;
+}
+
+type ClassicRow = Pick<Game,
+  'boardSize' | 'boardState' | 'blackPotCount' | 'whitePotCount' | 'blackCaptured' | 'whiteCaptured' |
+  'blackOnBoard' | 'whiteOnBoard' | 'lastMoveX' | 'lastMoveY' | 'koPointX' | 'koPointY' | 'superko' | 'positionHashes'>;
+
+export function classicState(game: ClassicRow): EngineState {
+  return {
+    board: game.boardState.map(row => [...row]),
+    width: game.boardSize,
+    height: game.boardSize,
+    topology: 'flat',
+    potCounts: [game.blackPotCount, game.whitePotCount],
+    captured: [game.blackCaptured, game.whiteCaptured],
+    onBoard: [game.blackOnBoard, game.whiteOnBoard],
+    currentTurn: 0,
+    nextStoneColor: null,
+    lastMove: positionFrom(game.lastMoveX, game.lastMoveY),
+    koPoint: positionFrom(game.koPointX, game.koPointY),
+    superko: superkoFrom(game.superko),
+    positionHashes: game.positionHashes ?? [],
+  };
+}
+
+// Handicap stones are part of the starting position, so replays and undo begin with them
+export function initialClassicState(
+  game: Pick<Game, 'boardSize' | 'superko'> & Partial<Pick<Game, 'handicapStones'>>
+): EngineState {
+  const { boardSize } = game;
+  const handicapStones = game.handicapStones ?? [];
+  const stones = getClassicStoneCount(boardSize, handicapStones.length);
+  return {
+    board: classicStartingBoard(boardSize, handicapStones),
+    width: boardSize,
+    height: boardSize,
+    topology: 'flat',
+    potCounts: [stones.black, stones.white],
+    captured: [0, 0],
+    onBoard: [handicapStones.length, 0],
+    currentTurn: handicapStones.length > 0 ? 1 : 0,
+    nextStoneColor: null,
+    lastMove: null,
+    koPoint: null,
+    superko: superkoFrom(game.superko),
+    positionHashes: [],
+  };
+}
+
+export function classicColumns(state: EngineState) {
+  return {
+    boardState: state.board,
+    blackPotCount: state.potCounts[0],
+    whitePotCount: state.potCounts[1],
+    blackCaptured: state.captured[0],
+    whiteCaptured: state.captured[1],
+    blackOnBoard: state.onBoard[0],
+    whiteOnBoard: state.onBoard[1],
+    lastMoveX: state.lastMove?.x ?? null,
+    lastMoveY: state.lastMove?.y ?? null,
+    koPointX: state.koPoint?.x ?? null,
+    koPointY: state.koPoint?.y ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Go Bang - classic rules plus strict turns and hidden mines
+// ---------------------------------------------------------------------------
+
+// Check if a position has a mine
+export function hasMine(mines: MinePosition[], x: number, y: number): boolean {
+  return mines.some(m => m.x === x && m.y === y);
+}
+
+// Get all stones in explosion radius (the placed stone + all 8 surrounding stones)
+export function getExplosionTargets(board: GenericBoard, x: number, y: number, boardSize: number): CapturedStoneInfo[] {
+  const targets: CapturedStoneInfo[] = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx >= 0 && nx < boardSize && ny >= 0 && ny < boardSize && board[ny][nx] !== null) {
+        targets.push({ x: nx, y: ny, color: board[ny][nx] as number });
+      }
+    }
+  }
+  return targets;
+}
+
+// `detonate` decides whether a landing stone explodes: live play checks the mine
+// list, replays feed back the explosion recorded in the action log
+export function bangRules(detonate: VariantRules['detonate']): VariantRules {
+  return { ...CLASSIC_RULES, enforceTurnOrder: true, detonate };
+}
+
+export function mineDetonator(mines: MinePosition[], boardSize: number): VariantRules['detonate'] {
+  return (board, at) => (hasMine(mines, at.x, at.y) ? getExplosionTargets(board, at.x, at.y, boardSize) : null);
+}
+
+type BangRow = ClassicRow & Pick<BangGame, 'currentTurn'>;
+
+export function bangState(game: BangRow): EngineState {
+  return { ...classicState(game), currentTurn: game.currentTurn };
+}
+
+export function initialBangState(game: Pick<BangGame, 'boardSize' | 'superko'>): EngineState {
+  return initialClassicState(game);
+}
+
+export function bangColumns(state: EngineState) {
+  return { ...classicColumns(state), currentTurn: state.currentTurn };
+}
+
+// ---------------------------------------------------------------------------
+// Crazy Go - 4 colours, strict turn order
+// ---------------------------------------------------------------------------
+
+export const CRAZY_RULES: VariantRules = {
+  colorCount: 4,
+  seatCount: 4,
+  enforceTurnOrder: true,
+  potIndex: color => color,
+  // The player who placed or moved the capturing stone gets every stone taken
+  creditIndex: (_capturedColor, mover) => mover.color,
+};
+
+// Stone counts for 4 players: each gets ALL intersections, Black (starter) gets +1
+export function getCrazyStoneCount(boardSize: number): { black: number; white: number; brown: number; grey: number } {
+  const totalIntersections = boardSize * boardSize;
+  return {
+    black: totalIntersections + 1,
+    white: totalIntersections,
+    brown: totalIntersections,
+    grey: totalIntersections,
+  };
+}
+
+type CrazyRow = Pick<CrazyGame,
+  'boardSize' | 'boardState' | 'blackPotCount' | 'whitePotCount' | 'brownPotCount' | 'greyPotCount' |
+  'blackCaptured' | 'whiteCaptured' | 'brownCaptured' | 'greyCaptured' |
+  'lastMoveX' | 'lastMoveY' | 'koPointX' | 'koPointY' | 'currentTurn' | 'superko' | 'positionHashes'>;
+
+export function crazyState(game: CrazyRow): EngineState {
+  return {
+    board: game.boardState.map(row => [...row]),
+    width: game.boardSize,
+    height: game.boardSize,
+    topology: 'flat',
+    potCounts: [game.blackPotCount, game.whitePotCount, game.brownPotCount, game.greyPotCount],
+    captured: [game.blackCaptured, game.whiteCaptured, game.brownCaptured, game.greyCaptured],
+    onBoard: countStonesByColor(game.boardState, 4),
+    currentTurn: game.currentTurn,
+    nextStoneColor: null,
+    lastMove: positionFrom(game.lastMoveX, game.lastMoveY),
+    koPoint: positionFrom(game.koPointX, game.koPointY),
+    superko: superkoFrom(game.superko),
+    positionHashes: game.positionHashes ?? [],
+  };
+}
+
+export function initialCrazyState(game: Pick<CrazyGame, 'boardSize' | 'superko'>): EngineState {
+  const { boardSize } = game;
+  const stones = getCrazyStoneCount(boardSize);
+  return {
+    board: Array(boardSize).fill(null).map(() => Array(boardSize).fill(null)),
+    width: boardSize,
+    height: boardSize,
+    topology: 'flat',
+    potCounts: [stones.black, stones.white, stones.brown, stones.grey],
+    captured: [0, 0, 0, 0],
+    onBoard: [0, 0, 0, 0],
+    currentTurn: 0,
+    nextStoneColor: null,
+    lastMove: null,
+    koPoint: null,
+    superko: superkoFrom(game.superko),
+    positionHashes: [],
+  };
+}
+
+export function crazyColumns(state: EngineState) {
+  return {
+    boardState: state.board as CrazyGame['boardState'],
+    blackPotCount: state.potCounts[0],
+    whitePotCount: state.potCounts[1],
+    brownPotCount: state.potCounts[2],
+    greyPotCount: state.potCounts[3],
+    blackCaptured: state.captured[0],
+    whiteCaptured: state.captured[1],
+    brownCaptured: state.captured[2],
+    greyCaptured: state.captured[3],
+    lastMoveX: state.lastMove?.x ?? null,
+    lastMoveY: state.lastMove?.y ?? null,
+    koPointX: state.koPoint?.x ?? null,
+    koPointY: state.koPoint?.y ?? null,
+    currentTurn: state.currentTurn,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Wilde Go - 2-8 colours on a rectangular board
+// ---------------------------------------------------------------------------
+
+export function wildeRules(playerCount: number): VariantRules {
+  return {
+    colorCount: playerCount,
+    seatCount: playerCount,
+    enforceTurnOrder: true,
+    potIndex: color => color,
+    creditIndex: (_capturedColor, mover) => mover.color,
+  };
+}
+
+type WildeRow = Pick<WildeGame,
+  'boardWidth' | 'boardHeight' | 'topology' | 'boardState' | 'stonePots' |
+  'lastMoveX' | 'lastMoveY' | 'koPointX' | 'koPointY' | 'currentTurn' | 'superko' | 'positionHashes'>;
+
+export function wildeState(game: WildeRow): EngineState {
+  const pots = game.stonePots as StonePot[];
+  return {
+    board: game.boardState.map(row => [...row]),
+    width: game.boardWidth,
+    height: game.boardHeight,
+    topology: topologyFrom(game.topology),
+    potCounts: pots.map(p => p.potCount),
+    captured: pots.map(p => p.captured),
+    onBoard: pots.map(p => p.onBoard),
+    currentTurn: game.currentTurn,
+    nextStoneColor: null,
+    lastMove: positionFrom(game.lastMoveX, game.lastMoveY),
+    koPoint: positionFrom(game.koPointX, game.koPointY),
+    superko: superkoFrom(game.superko),
+    positionHashes: game.positionHashes ?? [],
+  };
+}
+
+// Starting position for a Wilde replay. Pots are rebuilt from the current pots and
+// the action log (pots only change on place, remove and pakita_eat), so custom
+// stonesPerPlayer games come back exactly as they were created.
+export function initialWildeState(
+  game: Pick<WildeGame, 'boardWidth' | 'boardHeight' | 'topology' | 'stonePots' | 'superko'>,
+  allActions: { actionType: string; stoneColor: number | null }[]
+): EngineState {
+  const pots = game.stonePots as StonePot[];
+  const potCounts = pots.map(p => p.potCount);
+  for (const action of allActions) {
+    const color = action.stoneColor;
+    if (color === null || color < 0 || color >= potCounts.length) continue;
+    if (action.actionType === 'place') potCounts[color]++;
+    else if (action.actionType === 'remove' || action.actionType === 'pakita_eat') potCounts[color]--;
+  }
+  return {
+    board: Array(game.boardHeight).fill(null).map(() => Array(game.boardWidth).fill(null)),
+    width: game.boardWidth,
+    height: game.boardHeight,
+    topology: topologyFrom(game.topology),
+    potCounts,
+    captured: pots.map(() => 0),
+    onBoard: pots.map(() => 0),
+    currentTurn: 0,
+    nextStoneColor: null,
+    lastMove: null,
+    koPoint: null,
+    superko: superkoFrom(game.superko),
+    positionHashes: [],
+  };
+}
+
+export function wildeColumns(state: EngineState) {
+  const stonePots: StonePot[] = state.potCounts.map((potCount, i) => ({
+    potCount,
+    captured: state.captured[i],
+    onBoard: state.onBoard[i],
+  }));
+  return {
+    boardState: state.board,
+    stonePots,
+    lastMoveX: state.lastMove?.x ?? null,
+    lastMoveY: state.lastMove?.y ?? null,
+    koPointX: state.koPoint?.x ?? null,
+    koPointY: state.koPoint?.y ?? null,
+    currentTurn: state.currentTurn,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Zen Go - 3 players share one pot and alternate black and white
+// ---------------------------------------------------------------------------
+
+export const ZEN_RULES: VariantRules = {
+  colorCount: 2,
+  seatCount: 3,
+  enforceTurnOrder: false,
+  placeColor: state => state.nextStoneColor ?? 0,
+  afterPlace: (state, color) => ({ ...state, nextStoneColor: 1 - color }),
+  potIndex: () => 0,
+  // Captures are credited to the player (seat) who placed the stone; moves score nothing
+  creditIndex: (_capturedColor, mover) => (mover.actionType === 'place' ? mover.seat : null),
+};
+
+// Calculate initial pot count: boardSize * boardSize + 1
+export function getZenPotCount(boardSize: number): number {
+  return boardSize * boardSize + 1;
+}
+
+type ZenRow = Pick<ZenGame,
+  'boardSize' | 'boardState' | 'sharedPotCount' | 'nextStoneColor' |
+  'player1Captured' | 'player2Captured' | 'player3Captured' |
+  'lastMoveX' | 'lastMoveY' | 'koPointX' | 'koPointY' | 'currentTurn' | 'superko' | 'positionHashes'>;
+
+export function zenState(game: ZenRow): EngineState {
+  return {
+    board: game.boardState.map(row => [...row]),
+    width: game.boardSize,
+    height: game.boardSize,
+    topology: 'flat',
+    potCounts: [game.sharedPotCount],
+    captured: [game.player1Captured, game.player2Captured, game.player3Captured],
+    onBoard: countStonesByColor(game.boardState, 2),
+    currentTurn: game.currentTurn,
+    nextStoneColor: game.nextStoneColor,
+    lastMove: positionFrom(game.lastMoveX, game.lastMoveY),
+    koPoint: positionFrom(game.koPointX, game.koPointY),
+    superko: superkoFrom(game.superko),
+    positionHashes: game.positionHashes ?? [],
+  };
+}
+
+export function initialZenState(game: Pick<ZenGame, 'boardSize' | 'superko'>): EngineState {
+  const { boardSize } = game;
+  return {
+    board: Array(boardSize).fill(null).map(() => Array(boardSize).fill(null)),
+    width: boardSize,
+    height: boardSize,
+    topology: 'flat',
+    potCounts: [getZenPotCount(boardSize)],
+    captured: [0, 0, 0],
+    onBoard: [0, 0],
+    currentTurn: 0,
+    nextStoneColor: 0,
+    lastMove: null,
+    koPoint: null,
+    superko: superkoFrom(game.superko),
+    positionHashes: [],
+  };
+}
+
+export function zenColumns(state: EngineState) {
+  return {
+    boardState: state.board as ZenGame['boardState'],
+    sharedPotCount: state.potCounts[0],
+    nextStoneColor: state.nextStoneColor ?? 0,
+    player1Captured: state.captured[0],
+    player2Captured: state.captured[1],
+    player3Captured: state.captured[2],
+    lastMoveX: state.lastMove?.x ?? null,
+    lastMoveY: state.lastMove?.y ?? null,
+    koPointX: state.koPoint?.x ?? null,
+    koPointY: state.koPoint?.y ?? null,
+    currentTurn: state.currentTurn,
+  };
+}
@@ -0,0 +1,70 @@
+// Zobrist hashing of board positions, used for superko detection and cheap position equality
+// Every (point, colour) pair gets a fixed pseudo-random 64-bit key and a position's hash is
+// the XOR of the keys of all its stones. Keys are derived from the coordinates rather than
+// drawn from Math.random, so hashes stay stable across server restarts and can be stored.
+
+import type { GenericBoard } from './shared';
+
+// Positional: a move may not recreate any earlier board.
+// Situational: it may not recreate an earlier board made by the same player.
+export type SuperkoRule = 'positional' | 'situational';
+export const SUPERKO_RULES: readonly SuperkoRule[] = ['positional', 'situational'];
+
+export function isSuperkoRule(value: unknown): value is SuperkoRule {
+  return typeof value === 'string' && (SUPERKO_RULES as readonly string[]).includes(value);
+}
+
+// Rows store the rule as plain text; anything unrecognised falls back to positional
+export function superkoFrom(value: unknown): SuperkoRule {
+  return isSuperkoRule(value) ? value : 'positional';
+}
+
+// 16 hex digits (64 bits) - stored per game as JSON, so kept as a string
+export type ZobristHash = string;
+
+// murmur3 32-bit finaliser
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+const SEED_HI = 0x9e3779b9;
+const SEED_LO = 0x7f4a7c15;
+// Slot reserved for the "who made this position" keys used by situational superko
+const MOVER_SLOT = 0xffff;
+
+// Boards are at most 20 wide and colours at most 8, so (slot, colour) packs into 24 bits
+function key(slot: number, color: number): [number, number] {
+  const n = ((slot << 4) | (color & 0xf)) + 1;
+  return [fmix32(n ^ SEED_HI), fmix32(fmix32(n) ^ SEED_LO)];
+}
+
+function toHex(hi: number, lo: number): ZobristHash {
+  return hi.toString(16).padStart(8, '0') + lo.toString(16).padStart(8, '0');
+}
+
+// Hash of the stones on a board. `mover` (the colour that just played) is folded in
+// for situational superko, so the same board reached by different players differs.
+export function hashPosition(board: GenericBoard, mover: number | null = null): ZobristHash {
+  let hi = 0;
+  let lo = 0;
+  for (let y = 0; y < board.length; y++) {
+    for (let x = 0; x < board[y].length; x++) {
+      const stone = board[y][x];
+      if (stone === null) continue;
+      const [kHi, kLo] = key((y << 8) | x, stone);
+      hi ^= kHi;
+      lo ^= kLo;
+    }
+  }
+  if (mover !== null) {
+    const [kHi, kLo] = key(MOVER_SLOT, mover);
+    hi ^= kHi;
+    lo ^= kLo;
+  }
+  return toHex(hi >>> 0, lo >>> 0);
+}
@@ -0,0 +1,262 @@
+// Link previews for individual games: Open Graph image and metadata showing the live board.
+// Both are built from the route's gameId alone - Next.js hands neither generateMetadata in a
+// layout nor opengraph-image the query string, so a ?key= in a shared link can't leak into them.
+
+import type { Metadata } from 'next';
+import { ImageResponse } from 'next/og';
+import { db, games, actions, type Game } from '@/lib/db';
+import { bangActions, bangGames, crazyActions, crazyGames, wildeActions, wildeGames, zenActions, zenGames } from '@/lib/db/schema';
+import { count, eq } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { colorToMove } from '@/lib/classicActions';
+import { describeResult } from '@/lib/game/result';
+import {
+  BANG_THEME, CLASSIC_THEME, CRAZY_THEME, DOM_THEME, ZEN_THEME, wildeTheme,
+  boardLayout, boardSvg,
+  type BoardPicture, type BoardTheme,
+} from '@/lib/game/boardImage';
+import type { GenericBoard, Position } from '@/lib/game/shared';
+import { WILDE_COLORS } from '@/lib/wilde/colors';
+
+const SITE_URL = 'https://gobanweb.vercel.app';
+
+export type PreviewRoute = 'game' | 'dom' | 'crazy' | 'wilde' | 'zen' | 'bang';
+
+export const PREVIEW_SIZE = { width: 1200, height: 630 };
+
+export const VARIANT_NAMES: Record<PreviewRoute, string> = {
+  game: 'Go',
+  dom: 'Domiio Go',
+  crazy: 'Crazy Go',
+  wilde: 'Wilde Go',
+  zen: 'Zen Go',
+  bang: 'Go Bang',
+};
+
+const CRAZY_NAMES = ['Black', 'White', 'White Cross', 'Black Cross'];
+
+export interface StonePotCount {
+  name: string;
+  count: number;
+}
+
+export interface GamePreview {
+  variant: string;
+  moveNumber: number;
+  situation: string; // Whose turn it is, or how the game ended
+  picture: BoardPicture;
+  colorNames: string[];    // Stone colours by index
+  toPlay: number | null;   // Colour of the next stone placed; null once the game is over
+  koPoint: Position | null;
+  pots: StonePotCount[];   // Stones left to play, per pot
+}
+
+// Moves made so far - the logged actions, since the games' moveNumber also counts undos and clears
+async function loggedMoves(table: PgTable, gameIdColumn: PgColumn, gameId: string): Promise<number> {
+  const logged = await db.select({ value: count() }).from(table).where(eq(gameIdColumn, gameId));
+  return logged[0]?.value ?? 0;
+}
+
+function positionFrom(x: number | null, y: number | null): Position | null {
+  return x !== null && y !== null ? { x, y } : null;
+}
+
+function picture(
+  board: GenericBoard,
+  theme: BoardTheme,
+  lastMove: Position | null,
+  extra: Partial<BoardPicture> = {}
+): BoardPicture {
+  return {
+    board,
+    width: board[0]?.length ?? 0,
+    height: board.length,
+    theme,
+    lastMove,
+    explosion: null,
+    droneTarget: null,
+    ...extra,
+  };
+}
+
+// Classic and Go Bang games can be over or being counted; otherwise it's someone's turn
+function twoColorSituation(status: string, result: string | null, toPlay: string): string {
+  if (status === 'finished') return describeResult(result) ?? 'Game over';
+  if (status === 'scoring') return 'Counting the score';
+  return `${toPlay} to play`;
+}
+
+async function classicPreview(game: Game, dom: boolean): Promise<GamePreview> {
+  const names = dom ? ['Red', 'White'] : ['Black', 'White'];
+  const toPlay = await colorToMove(game);
+  return {
+    variant: VARIANT_NAMES[dom ? 'dom' : 'game'],
+    moveNumber: await loggedMoves(actions, actions.gameId, game.id),
+    situation: twoColorSituation(game.status, game.result, names[toPlay]),
+    picture: picture(game.boardState, dom ? DOM_THEME : CLASSIC_THEME, positionFrom(game.lastMoveX, game.lastMoveY)),
+    colorNames: names,
+    toPlay: game.status === 'finished' ? null : toPlay,
+    koPoint: positionFrom(game.koPointX, game.koPointY),
+    pots: [{ name: names[0], count: game.blackPotCount }, { name: names[1], count: game.whitePotCount }],
+  };
+}
+
+// The live position and state of a game, or null if there is no such game
+export async function loadGamePreview(route: PreviewRoute, gameId: string): Promise<GamePreview | null> {
+  switch (route) {
+    case 'game':
+    case 'dom': {
+      const game = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+      return game.length === 0 ? null : classicPreview(game[0], route === 'dom');
+    }
+    case 'bang': {
+      const game = await db.select().from(bangGames).where(eq(bangGames.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const g = game[0];
+      return {
+        variant: VARIANT_NAMES.bang,
+        moveNumber: await loggedMoves(bangActions, bangActions.gameId, gameId),
+        situation: twoColorSituation(g.status, g.result, g.currentTurn === 0 ? 'Black' : 'White'),
+        picture: picture(g.boardState, BANG_THEME, positionFrom(g.lastMoveX, g.lastMoveY), {
+          explosion: positionFrom(g.lastExplosionX, g.lastExplosionY),
+          droneTarget: positionFrom(g.lastDroneTargetX, g.lastDroneTargetY),
+        }),
+        colorNames: ['Black', 'White'],
+        toPlay: g.status === 'finished' ? null : g.currentTurn,
+        koPoint: positionFrom(g.koPointX, g.koPointY),
+        pots: [{ name: 'Black', count: g.blackPotCount }, { name: 'White', count: g.whitePotCount }],
+      };
+    }
+    case 'crazy': {
+      const game = await db.select().from(crazyGames).where(eq(crazyGames.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const g = game[0];
+      return {
+        variant: VARIANT_NAMES.crazy,
+        moveNumber: await loggedMoves(crazyActions, crazyActions.gameId, gameId),
+        situation: `${CRAZY_NAMES[g.currentTurn] ?? 'Black'} to play`,
+        picture: picture(g.boardState, CRAZY_THEME, positionFrom(g.lastMoveX, g.lastMoveY)),
+        colorNames: CRAZY_NAMES,
+        toPlay: g.currentTurn,
+        koPoint: positionFrom(g.koPointX, g.koPointY),
+        pots: [g.blackPotCount, g.whitePotCount, g.brownPotCount, g.greyPotCount]
+          .map((count, i) => ({ name: CRAZY_NAMES[i], count })),
+      };
+    }
+    case 'wilde': {
+      const game = await db.select().from(wildeGames).where(eq(wildeGames.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const g = game[0];
+      return {
+        variant: VARIANT_NAMES.wilde,
+        moveNumber: await loggedMoves(wildeActions, wildeActions.gameId, gameId),
+        situation: `${WILDE_COLORS[g.currentTurn]?.name ?? 'Hot Pink'} to play`,
+        picture: picture(g.boardState, wildeTheme(g.playerCount, g.customHues ?? null), positionFrom(g.lastMoveX, g.lastMoveY)),
+        colorNames: WILDE_COLORS.slice(0, g.playerCount).map(color => color.name),
+        toPlay: g.currentTurn,
+        koPoint: positionFrom(g.koPointX, g.koPointY),
+        pots: g.stonePots.map((pot, i) => ({ name: WILDE_COLORS[i]?.name ?? `Player ${i + 1}`, count: pot.potCount })),
+      };
+    }
+    case 'zen': {
+      const game = await db.select().from(zenGames).where(eq(zenGames.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const g = game[0];
+      return {
+        variant: VARIANT_NAMES.zen,
+        moveNumber: await loggedMoves(zenActions, zenActions.gameId, gameId),
+        situation: `Player ${g.currentTurn + 1} to play ${g.nextStoneColor === 0 ? 'Black' : 'White'}`,
+        picture: picture(g.boardState, ZEN_THEME, positionFrom(g.lastMoveX, g.lastMoveY)),
+        colorNames: ['Black', 'White'],
+        toPlay: g.nextStoneColor,
+        koPoint: positionFrom(g.koPointX, g.koPointY),
+        pots: [{ name: 'Shared', count: g.sharedPotCount }],
+      };
+    }
+  }
+}
+
+// generateMetadata for a game's layout
+export async function gamePreviewMetadata(route: PreviewRoute, gameId: string): Promise<Metadata> {
+  const url = `${SITE_URL}/${route}/${encodeURIComponent(gameId)}`;
+  try {
+    const preview = await loadGamePreview(route, gameId);
+    if (!preview) return { title: `${VARIANT_NAMES[route]} - Game Not Found` };
+
+    const title = `${preview.variant} - Move ${preview.moveNumber}, ${preview.situation}`;
+    const description = `Live ${preview.variant} board on Goban Web after ${preview.moveNumber} ${preview.moveNumber === 1 ? 'move' : 'moves'}. ${preview.situation}.`;
+    return {
+      title,
+      description,
+      openGraph: { title, description, url, type: 'website' },
+      twitter: { card: 'summary_large_image', title, description },
+      alternates: { canonical: url },
+    };
+  } catch {
+    return { title: VARIANT_NAMES[route] };
+  }
+}
+
+// Default export of a game's opengraph-image: the board beside the variant, move and turn
+export async function gamePreviewImage(route: PreviewRoute, gameId: string): Promise<ImageResponse> {
+  const preview = await loadGamePreview(route, gameId).catch((error) => {
+    console.error('Error loading game preview:', error);
+    return null;
+  });
+
+  const board = preview?.picture;
+  const options = { size: 540, coordinates: false, lastMoveMarker: true };
+  const layout = board ? boardLayout(board, options) : null;
+  const source = board ? `data:image/svg+xml;base64,${Buffer.from(boardSvg(board, options)).toString('base64')}` : null;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          height: '100%',
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '60px',
+          backgroundColor: '#fef3c7',
+          backgroundImage: 'linear-gradient(135deg, #fef3c7 0%, #fed7aa 100%)',
+        }}
+      >
+        {layout && source && (
+          <div
+            style={{
+              display: 'flex',
+              width: layout.width,
+              height: layout.height,
+              borderRadius: '16px',
+              boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)',
+              backgroundImage: `url(${source})`,
+              backgroundSize: `${layout.width}px ${layout.height}px`,
+            }}
+          />
+        )}
+
+        <div style={{ display: 'flex', flexDirection: 'column', maxWidth: '480px' }}>
+          <div style={{ fontSize: '64px', fontWeight: 'bold', color: '#27272a', marginBottom: '16px' }}>
+            {preview?.variant ?? VARIANT_NAMES[route]}
+          </div>
+          {preview ? (
+            <div style={{ display: 'flex', flexDirection: 'column' }}>
+              <div style={{ fontSize: '40px', color: '#3f3f46', marginBottom: '8px' }}>
+                {`Move ${preview.moveNumber}`}
+              </div>
+              <div style={{ fontSize: '36px', color: '#52525b', marginBottom: '40px' }}>
+                {preview.situation}
+              </div>
+            </div>
+          ) : (
+            <div style={{ fontSize: '36px', color: '#52525b', marginBottom: '40px' }}>Game not found</div>
+          )}
+          <div style={{ fontSize: '28px', color: '#71717a' }}>Goban Web</div>
+        </div>
+      </div>
+    ),
+    PREVIEW_SIZE
+  );
+}
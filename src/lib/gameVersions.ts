@@ -0,0 +1,125 @@
+// Conditional and long-polled GETs of a game's state. Every write bumps the game's updatedAt (and
+// moveNumber where the variant counts moves), so those two columns and the live presence identify
+// the version the GET routes return: they are sent as a weak ETag, a poll that sends it back in
+// If-None-Match gets a 304 instead of the board, and ?waitFor=<moveNumber>&timeout=<seconds>
+// holds the request until the game moves on from the version the client has. The version is
+// taken from the same row read the route then returns, so a changed poll costs one game read.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { livePresence, presenceTag, type GamePresence } from '@/lib/presence';
+import { gameChannel } from '@/lib/realtime/channels';
+import { subscribe } from '@/lib/realtime/sse';
+import type { ReplayVariant } from '@/lib/replays';
+
+export interface GameVersion {
+  updatedAt: Date;
+  moveNumber?: number; // Absent for variants that don't count moves
+}
+
+export const DEFAULT_WAIT_SECONDS = 25;
+export const MAX_WAIT_SECONDS = 55; // Under the usual 60s proxy and function limits
+
+// Long-polls are woken at once by the updates every write publishes; the database is only
+// re-checked this often, for writes that went through other server instances
+const RECHECK_MS = 15000;
+
+// The game's row as the route reads it, and the presence to return with it
+export interface GameRead<T extends GameVersion> {
+  game: T[]; // Never empty - a missing game is answered with a 404
+  presence: GamePresence;
+}
+
+export function gameETag(version: GameVersion, presence: GamePresence): string {
+  const time = version.updatedAt.getTime();
+  const move = version.moveNumber === undefined ? '' : `${version.moveNumber}-`;
+  return `W/"${move}${time}-${presenceTag(presence)}"`;
+}
+
+// Whether If-None-Match names the tag; weak comparison, as 304s use
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(tag => opaque(tag) === opaque(etag));
+}
+
+const CACHE_HEADERS = { 'Cache-Control': 'private, no-cache' }; // Browsers keep it but revalidate every time
+
+// Resolves after the game's next published update, the recheck interval or the deadline,
+// whichever is first, or straight away if the client has gone
+function nextCheck(variant: ReplayVariant, gameId: string, deadline: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, Math.max(0, Math.min(RECHECK_MS, deadline - Date.now())));
+    const unsubscribe = subscribe(gameChannel(variant, gameId), done);
+    signal.addEventListener('abort', done);
+    if (signal.aborted) done();
+  });
+}
+
+// Handle the conditional and long-poll parts of a game state GET, reading the game with readGame
+// (the route's own select). Returns the response to send instead (400 for bad parameters, 404,
+// 304), or the row and presence the route should build its response from - then passing them to
+// withGameETag.
+export async function conditionalGameGet<T extends GameVersion>(
+  variant: ReplayVariant,
+  request: NextRequest,
+  gameId: string,
+  readGame: () => PromiseLike<T[]>
+): Promise<NextResponse | GameRead<T>> {
+  const query = request.nextUrl.searchParams;
+  const ifNoneMatch = request.headers.get('if-none-match');
+
+  const waitFor = query.has('waitFor') ? Number(query.get('waitFor')) : null;
+  if (waitFor !== null && (!Number.isInteger(waitFor) || waitFor < 0)) {
+    return NextResponse.json({ error: 'Invalid waitFor. Must be a move number.' }, { status: 400 });
+  }
+  const timeout = query.has('timeout') ? Number(query.get('timeout')) : DEFAULT_WAIT_SECONDS;
+  if (!Number.isFinite(timeout) || timeout < 0 || timeout > MAX_WAIT_SECONDS) {
+    return NextResponse.json(
+      { error: `Invalid timeout. Must be 0-${MAX_WAIT_SECONDS} seconds.` },
+      { status: 400 }
+    );
+  }
+
+  let [game, presence] = await Promise.all([readGame(), livePresence(variant, gameId)]);
+  if (game.length === 0) {
+    return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+  }
+
+  if (waitFor !== null) {
+    // Wait while the game is still at the client's move and on the version it has (or, without
+    // If-None-Match, the one it would get now) - presence keeps the move number
+    const baseline = ifNoneMatch ?? gameETag(game[0], presence);
+    const deadline = Date.now() + timeout * 1000;
+    const unchanged = (current: GameVersion, currentPresence: GamePresence) =>
+      (current.moveNumber === undefined || current.moveNumber === waitFor)
+      && matchesETag(baseline, gameETag(current, currentPresence));
+
+    while (unchanged(game[0], presence) && Date.now() < deadline && !request.signal.aborted) {
+      await nextCheck(variant, gameId, deadline, request.signal);
+      [game, presence] = await Promise.all([readGame(), livePresence(variant, gameId)]);
+      if (game.length === 0) {
+        return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+      }
+    }
+  }
+
+  const etag = gameETag(game[0], presence);
+  if (matchesETag(ifNoneMatch, etag)) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag, ...CACHE_HEADERS } });
+  }
+  return { game, presence };
+}
+
+// Tag a game state response with the version of the row and presence it was built from
+export function withGameETag(response: NextResponse, game: GameVersion, presence: GamePresence): NextResponse {
+  response.headers.set('ETag', gameETag(game, presence));
+  for (const [name, value] of Object.entries(CACHE_HEADERS)) response.headers.set(name, value);
+  return response;
+}
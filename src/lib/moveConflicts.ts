@@ -0,0 +1,46 @@
+// Optimistic concurrency on the action, undo, clear and scoring routes. Each writes the game only
+// while its moveNumber is still the one the route read, and moves it on by one - undos and clears
+// too, so a number never comes back for a different position. Of two requests made against the
+// same position only the first lands. Clients can also send expectedMoveNumber - the moveNumber of
+// the state they acted on - to be refused when they are behind rather than have the move applied
+// to a board they haven't seen. Either way the answer is a 409 carrying the game as its GET route
+// returns it.
+
+import { NextResponse } from 'next/server';
+
+interface ConcurrencyBody {
+  expectedMoveNumber?: unknown;
+}
+
+// 400 for an expectedMoveNumber that isn't a move number; null when it's fine or wasn't sent
+export function invalidExpectedMoveNumber(body: ConcurrencyBody): NextResponse | null {
+  const { expectedMoveNumber } = body;
+  if (expectedMoveNumber === undefined || expectedMoveNumber === null) return null;
+  if (typeof expectedMoveNumber === 'number' && Number.isInteger(expectedMoveNumber) && expectedMoveNumber >= 0) {
+    return null;
+  }
+  return NextResponse.json({ error: 'Invalid expectedMoveNumber. Must be a move number.' }, { status: 400 });
+}
+
+// Whether the client sent expectedMoveNumber and the game has moved on from it
+export function isBehind(body: ConcurrencyBody, moveNumber: number): boolean {
+  return typeof body.expectedMoveNumber === 'number' && body.expectedMoveNumber !== moveNumber;
+}
+
+// The 409 for a request that was behind or lost the race to another. `current` is the response
+// of the variant's GET route, read after the conflict, so the client can carry on from `state`.
+export async function moveConflict(current: Response, body: ConcurrencyBody): Promise<NextResponse> {
+  const state = await current.json();
+  if (!current.ok) return NextResponse.json(state, { status: current.status }); // e.g. cleared away
+
+  return NextResponse.json(
+    {
+      error: `Move conflict: the game has moved on to move ${state.moveNumber}. Reload and try again.`,
+      conflict: true,
+      expectedMoveNumber: typeof body.expectedMoveNumber === 'number' ? body.expectedMoveNumber : null,
+      moveNumber: state.moveNumber,
+      state,
+    },
+    { status: 409 }
+  );
+}
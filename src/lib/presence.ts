@@ -0,0 +1,169 @@
+// Who has a game open. The game pages send POST /api/{variant}/[gameId]/presence every 20 seconds
+// while open, and a last one with leave when the tab closes; a tab that misses two heartbeats has
+// gone. Tabs that send the game's private key are players and the rest spectators, and in the
+// variants with seats (Crazy, Wilde, Zen) a player's tab reports the colour it last moved for, so
+// the others can see whether their opponents are there. GET /api/{variant}/[gameId] returns the
+// live counts; the live total is also kept in the game's connectedUsers column.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db, games } from '@/lib/db';
+import { bangGames, crazyGames, gamePresence, wildeGames, zenGames } from '@/lib/db/schema';
+import { and, eq, getTableColumns, gt, lt } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { verifyKeyPair } from '@/lib/crypto/keys';
+import { checkRateLimit, getClientIP, RATE_LIMITS } from '@/lib/rateLimit';
+import { publishGameUpdate } from '@/lib/realtime';
+import type { ReplayVariant } from '@/lib/replays';
+
+export const PRESENCE_TTL_MS = 45000; // Two missed heartbeats and a little slack
+
+export interface GamePresence {
+  players: number;
+  spectators: number;
+  onlineColors: number[]; // Colours with a player's tab open, in order (Zen: players)
+}
+
+interface VariantGames {
+  table: PgTable;
+  colors: (game: Record<string, unknown>) => number;
+}
+
+const GAMES: Record<ReplayVariant, VariantGames> = {
+  games: { table: games, colors: () => 2 },
+  bang: { table: bangGames, colors: () => 2 },
+  crazy: { table: crazyGames, colors: () => 4 },
+  zen: { table: zenGames, colors: () => 3 },
+  wilde: { table: wildeGames, colors: game => game.playerCount as number },
+};
+
+// Random per tab, as the pages make them
+const CLIENT_ID = /^[A-Za-z0-9_-]{8,64}$/;
+
+const liveSince = () => new Date(Date.now() - PRESENCE_TTL_MS);
+
+const forGame = (variant: ReplayVariant, gameId: string) =>
+  and(eq(gamePresence.variant, variant), eq(gamePresence.gameId, gameId));
+
+export async function livePresence(variant: ReplayVariant, gameId: string): Promise<GamePresence> {
+  const tabs = await db
+    .select({ isPlayer: gamePresence.isPlayer, color: gamePresence.color })
+    .from(gamePresence)
+    .where(and(forGame(variant, gameId), gt(gamePresence.lastSeen, liveSince())));
+
+  const players = tabs.filter(tab => tab.isPlayer);
+  const colors = new Set(players.flatMap(tab => (tab.color === null ? [] : [tab.color])));
+  return {
+    players: players.length,
+    spectators: tabs.length - players.length,
+    onlineColors: [...colors].sort((a, b) => a - b),
+  };
+}
+
+// Presence rows this long past their last heartbeat, across all games: tabs closed without a leave
+// on games nobody has opened since. The create routes prune them with their cleanup; fresher expired
+// rows are left to their own game's heartbeats, which announce the departure.
+const STALE_PRESENCE_MS = 60 * 60 * 1000;
+
+export function pruneStalePresence(): Promise<unknown> {
+  return db.delete(gamePresence).where(lt(gamePresence.lastSeen, new Date(Date.now() - STALE_PRESENCE_MS)));
+}
+
+export function connectedUsers(presence: GamePresence): number {
+  return presence.players + presence.spectators;
+}
+
+// Presence as part of an ETag: the counts and colours, since GETs return them
+export function presenceTag(presence: GamePresence): string {
+  return `p${presence.players}s${presence.spectators}c${presence.onlineColors.join('.')}`;
+}
+
+// Shared handler for the per-variant presence routes
+export async function presenceRoute(variant: ReplayVariant, request: NextRequest, gameId: string): Promise<NextResponse> {
+  try {
+    const rateLimitResult = checkRateLimit(`${variant}:presence:${gameId}:${getClientIP(request)}`, RATE_LIMITS.heartbeat);
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please slow down.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': String(rateLimitResult.resetTime),
+          },
+        }
+      );
+    }
+
+    // Read as text: the leave heartbeat comes from navigator.sendBeacon, which can't set JSON headers
+    let body: { clientId?: unknown; privateKey?: unknown; color?: unknown; leave?: unknown };
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      return NextResponse.json({ error: 'Heartbeat must be JSON' }, { status: 400 });
+    }
+    const { clientId, privateKey, color, leave } = body ?? {};
+
+    if (typeof clientId !== 'string' || !CLIENT_ID.test(clientId)) {
+      return NextResponse.json({ error: 'Invalid clientId' }, { status: 400 });
+    }
+    if (privateKey !== undefined && privateKey !== null && typeof privateKey !== 'string') {
+      return NextResponse.json({ error: 'Invalid private key' }, { status: 400 });
+    }
+
+    const { table, colors } = GAMES[variant];
+    const columns = getTableColumns(table);
+    const game = await db.select().from(table).where(eq(columns.id, gameId)).limit(1);
+    if (game.length === 0) {
+      return NextResponse.json({ error: 'Game not found' }, { status: 404 });
+    }
+
+    const isPlayer = Boolean(privateKey) && await verifyKeyPair(game[0].publicKey as string, privateKey as string);
+    if (privateKey && !isPlayer) {
+      return NextResponse.json({ error: 'Invalid private key' }, { status: 401 });
+    }
+
+    const colorCount = colors(game[0]);
+    if (color !== undefined && color !== null
+      && (typeof color !== 'number' || !Number.isInteger(color) || color < 0 || color >= colorCount)) {
+      return NextResponse.json({ error: `Invalid color. Must be 0-${colorCount - 1}.` }, { status: 400 });
+    }
+    const seatColor = isPlayer && typeof color === 'number' ? color : null; // Spectators don't hold a colour
+
+    const id = `${variant}:${gameId}:${clientId}`;
+    const existing = await db.select().from(gamePresence).where(eq(gamePresence.id, id)).limit(1);
+
+    if (leave) {
+      await db.delete(gamePresence).where(eq(gamePresence.id, id));
+    } else {
+      const tab = { isPlayer, color: seatColor, lastSeen: new Date() };
+      await db.insert(gamePresence)
+        .values({ id, variant, gameId, clientId, ...tab })
+        .onConflictDoUpdate({ target: gamePresence.id, set: tab });
+    }
+    const expired = await db.delete(gamePresence)
+      .where(and(forGame(variant, gameId), lt(gamePresence.lastSeen, liveSince())))
+      .returning({ id: gamePresence.id });
+
+    const presence = await livePresence(variant, gameId);
+    const connected = connectedUsers(presence);
+    if (connected !== game[0].connectedUsers) {
+      await db.update(table).set({ connectedUsers: connected }).where(eq(columns.id, gameId));
+    }
+
+    const wasLive = existing.length > 0 && existing[0].lastSeen > liveSince();
+    const changed = leave
+      ? existing.length > 0
+      : !wasLive || existing[0].isPlayer !== isPlayer || existing[0].color !== seatColor;
+    if (changed || expired.length > 0) {
+      await publishGameUpdate(variant, gameId, 'presence', { connectedUsers: connected, presence });
+    }
+
+    return NextResponse.json({ connectedUsers: connected, presence });
+  } catch (error) {
+    console.error('Error recording presence:', error);
+    return NextResponse.json(
+      { error: 'Failed to record presence' },
+      { status: 500 }
+    );
+  }
+}
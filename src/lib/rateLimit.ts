@@ -114,4 +114,14 @@ export const RATE_LIMITS = {
     windowMs: 60000,
     maxRequests: 20,
   },
+  // Presence heartbeats: 30 per minute per game (a few tabs at one every 20 seconds)
+  heartbeat: {
+    windowMs: 60000,
+    maxRequests: 30,
+  },
+  // Board animations: 10 per minute per game (each one rasterises every frame of the game)
+  animation: {
+    windowMs: 60000,
+    maxRequests: 10,
+  },
 } as const;
@@ -0,0 +1,19 @@
+// What the server publishes when a game changes, shared by the transports and useGameUpdates.
+// Each game has its own channel; every change arrives as one 'update' event on it.
+
+import type { ReplayVariant } from '@/lib/replays';
+
+export const GAME_UPDATE_EVENT = 'update';
+
+export type GameUpdateType = 'action' | 'undo' | 'clear' | 'score' | 'presence';
+
+export interface GameUpdate {
+  type: GameUpdateType;
+  state: Record<string, unknown>; // Game fields the change touched, named as GET /api/{variant}/[gameId] names them
+  refetch: boolean;               // More happened than state shows (bot replies); fetch the whole game
+}
+
+// Pusher channel names allow letters, digits and -_=@,.; - game ids are hex
+export function gameChannel(variant: ReplayVariant, gameId: string): string {
+  return `game-${variant}-${gameId}`;
+}
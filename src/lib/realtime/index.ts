@@ -0,0 +1,72 @@
+// Live game updates. The action, undo, clear, score and presence routes publish what they changed
+// to the game's channel through whichever transport is configured - Pusher when its credentials
+// are set, otherwise the built-in Server-Sent Events stream - and the game pages subscribe with
+// useGameUpdates. A failed publish is logged and never fails the move; polling still catches up.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { gameChannel, type GameUpdate, type GameUpdateType } from '@/lib/realtime/channels';
+import { pusherTransport } from '@/lib/realtime/pusher';
+import { gameEventStream, sseTransport } from '@/lib/realtime/sse';
+import type { ReplayVariant } from '@/lib/replays';
+
+export interface RealtimeTransport {
+  name: 'pusher' | 'sse';
+  publish(channel: string, update: GameUpdate): Promise<void>;
+}
+
+let transport: RealtimeTransport | null = null;
+
+export function realtimeTransport(): RealtimeTransport {
+  transport ??= pusherTransport() ?? sseTransport;
+  return transport;
+}
+
+// Route responses carry fields that aren't game state
+const RESPONSE_ONLY = ['success', 'botMove', 'botMoves', 'score'];
+
+// Publish a route's successful response body as an update to the game
+export async function publishGameUpdate(
+  variant: ReplayVariant,
+  gameId: string,
+  type: GameUpdateType,
+  body: Record<string, unknown>
+): Promise<void> {
+  const botMoves = body.botMoves;
+  const update: GameUpdate = {
+    type,
+    state: {
+      ...Object.fromEntries(Object.entries(body).filter(([name]) => !RESPONSE_ONLY.includes(name))),
+      // Lets pages key refreshes (legal moves) off the update; who's watching doesn't change the game
+      ...(type === 'presence' ? {} : { updatedAt: new Date().toISOString() }),
+    },
+    refetch: Boolean(body.botMove) || (Array.isArray(botMoves) && botMoves.length > 0),
+  };
+
+  try {
+    const channel = gameChannel(variant, gameId);
+    await realtimeTransport().publish(channel, update);
+    // Long-polls wait on the local listeners whichever transport the pages use
+    if (realtimeTransport() !== sseTransport) await sseTransport.publish(channel, update);
+  } catch (error) {
+    console.error('Error publishing game update:', error);
+  }
+}
+
+// NextResponse.json for a route's success, after publishing it to the game's subscribers
+export async function jsonWithUpdate(
+  variant: ReplayVariant,
+  gameId: string,
+  type: GameUpdateType,
+  body: Record<string, unknown>
+): Promise<NextResponse> {
+  await publishGameUpdate(variant, gameId, type, body);
+  return NextResponse.json(body);
+}
+
+// Shared handler for the per-variant events routes
+export function gameEventsRoute(variant: ReplayVariant, request: NextRequest, gameId: string): Response {
+  if (realtimeTransport() !== sseTransport) {
+    return NextResponse.json({ error: 'Live updates are sent through Pusher' }, { status: 404 });
+  }
+  return gameEventStream(variant, request, gameId);
+}
@@ -0,0 +1,27 @@
+// Pusher transport, used when all four Pusher settings are in the environment:
+// PUSHER_APP_ID, PUSHER_SECRET, NEXT_PUBLIC_PUSHER_KEY and NEXT_PUBLIC_PUSHER_CLUSTER
+// (the key and cluster are public because the game pages subscribe with them).
+
+import Pusher from 'pusher';
+import { GAME_UPDATE_EVENT } from '@/lib/realtime/channels';
+import type { RealtimeTransport } from '@/lib/realtime';
+
+// Pusher refuses events over 10KB; larger updates go out as a bare request to refetch
+const MAX_EVENT_BYTES = 9000;
+
+export function pusherTransport(): RealtimeTransport | null {
+  const appId = process.env.PUSHER_APP_ID;
+  const secret = process.env.PUSHER_SECRET;
+  const key = process.env.NEXT_PUBLIC_PUSHER_KEY;
+  const cluster = process.env.NEXT_PUBLIC_PUSHER_CLUSTER;
+  if (!appId || !secret || !key || !cluster) return null;
+
+  const pusher = new Pusher({ appId, key, secret, cluster, useTLS: true });
+  return {
+    name: 'pusher',
+    async publish(channel, update) {
+      const fits = Buffer.byteLength(JSON.stringify(update)) <= MAX_EVENT_BYTES;
+      await pusher.trigger(channel, GAME_UPDATE_EVENT, fits ? update : { ...update, state: {}, refetch: true });
+    },
+  };
+}
@@ -0,0 +1,84 @@
+// Built-in Server-Sent Events transport, used when Pusher isn't configured. Updates go to the
+// browsers connected to this server process, so it suits dev and single-instance self-hosting;
+// on serverless hosts with many instances, configure Pusher instead.
+
+import type { NextRequest } from 'next/server';
+import { GAME_UPDATE_EVENT, gameChannel, type GameUpdate } from '@/lib/realtime/channels';
+import type { RealtimeTransport } from '@/lib/realtime';
+import type { ReplayVariant } from '@/lib/replays';
+
+type Listener = (update: GameUpdate) => void;
+
+// Kept on globalThis so dev-mode module reloads don't strand open streams
+const hub = globalThis as typeof globalThis & { gameUpdateListeners?: Map<string, Set<Listener>> };
+const listeners = (hub.gameUpdateListeners ??= new Map<string, Set<Listener>>());
+
+const KEEP_ALIVE_MS = 25000; // Comment lines keep proxies from closing an idle stream
+const RETRY_MS = 3000;       // How soon EventSource reconnects after a drop
+
+// Listen for updates published from this server process; returns the unsubscribe
+export function subscribe(channel: string, listener: Listener): () => void {
+  const channelListeners = listeners.get(channel) ?? new Set<Listener>();
+  channelListeners.add(listener);
+  listeners.set(channel, channelListeners);
+  return () => {
+    channelListeners.delete(listener);
+    if (channelListeners.size === 0) listeners.delete(channel);
+  };
+}
+
+export const sseTransport: RealtimeTransport = {
+  name: 'sse',
+  async publish(channel, update) {
+    for (const listener of listeners.get(channel) ?? []) listener(update);
+  },
+};
+
+// An event stream of the game's updates, open until the client disconnects
+export function gameEventStream(variant: ReplayVariant, request: NextRequest, gameId: string): Response {
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          close(); // The client went away between events
+        }
+      };
+
+      const unsubscribe = subscribe(gameChannel(variant, gameId), (update) => {
+        send(`event: ${GAME_UPDATE_EVENT}\ndata: ${JSON.stringify(update)}\n\n`);
+      });
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS);
+      close = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        close();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+      send(`retry: ${RETRY_MS}\n\n`);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop nginx holding events back
+    },
+  });
+}
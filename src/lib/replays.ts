@@ -0,0 +1,184 @@
+// Rebuilding every position of a game from its action log, for the image and replay exports.
+// Replays follow the undo routes: logged actions are re-applied with rule checks waived, and
+// Go Bang feeds back its recorded explosions and drone strikes so the random parts come out the same.
+
+import { db, games, actions, type Game } from '@/lib/db';
+import {
+  bangGames, bangActions, crazyGames, crazyActions, wildeGames, wildeActions, zenGames, zenActions,
+  type BangGame, type CrazyGame, type WildeGame, type ZenGame, type ExplosionInfo, type DroneStrikeInfo,
+} from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { replayAction, type ActionInput, type EngineState, type VariantRules } from '@/lib/game/engine';
+import {
+  CLASSIC_RULES, CRAZY_RULES, ZEN_RULES, bangRules, wildeRules,
+  initialClassicState, initialBangState, initialCrazyState, initialWildeState, initialZenState,
+} from '@/lib/game/variants';
+import { hashPosition } from '@/lib/game/zobrist';
+import {
+  BANG_THEME, CLASSIC_THEME, CRAZY_THEME, ZEN_THEME, wildeTheme,
+  type BoardTheme,
+} from '@/lib/game/boardImage';
+import type { GenericBoard, Position } from '@/lib/game/shared';
+
+// Variants by their API path (/api/games serves both classic and Dom boards)
+export type ReplayVariant = 'games' | 'crazy' | 'wilde' | 'zen' | 'bang';
+export const REPLAY_VARIANTS: readonly ReplayVariant[] = ['games', 'crazy', 'wilde', 'zen', 'bang'];
+
+export interface ReplayFrame {
+  board: GenericBoard;
+  actionType: string | null;   // The action that led here; null for the starting position
+  stoneColor: number | null;
+  lastMove: Position | null;
+  explosion: Position | null;   // Go Bang mine set off by this action
+  droneTarget: Position | null; // Go Bang drone strike after this action
+  beforeDrone: GenericBoard | null; // The board before that strike took its stone
+}
+
+export interface GameReplay {
+  width: number;
+  height: number;
+  theme: BoardTheme;
+  frames: ReplayFrame[]; // frames[n] is the position after the first n actions
+}
+
+interface LoggedAction extends ActionInput {
+  actionType: string;
+  stoneColor: number | null;
+  explosion?: ExplosionInfo | null;
+  droneStrike?: DroneStrikeInfo | null;
+}
+
+function frame(state: EngineState, action: LoggedAction | null, extra: Partial<ReplayFrame> = {}): ReplayFrame {
+  return {
+    board: state.board.map(row => [...row]),
+    actionType: action?.actionType ?? null,
+    stoneColor: action?.stoneColor ?? null,
+    lastMove: action ? state.lastMove : null,
+    explosion: null,
+    droneTarget: null,
+    beforeDrone: null,
+    ...extra,
+  };
+}
+
+// Plain replay for the variants without passes or hidden state
+function replayFrames(state: EngineState, log: LoggedAction[], rules: VariantRules): ReplayFrame[] {
+  const frames = [frame(state, null)];
+  for (const action of log) {
+    const replayed = replayAction(state, action, rules);
+    if (replayed) state = replayed.state;
+    frames.push(frame(state, action));
+  }
+  return frames;
+}
+
+// Classic and Go Bang: passes and resignations leave the board alone
+function classicFrames(state: EngineState, log: LoggedAction[], bang: boolean): ReplayFrame[] {
+  const frames = [frame(state, null)];
+  for (const action of log) {
+    if (action.actionType === 'pass' || action.actionType === 'resign') {
+      state = { ...state, koPoint: null, currentTurn: bang ? 1 - state.currentTurn : state.currentTurn };
+      frames.push(frame(state, action, { lastMove: null }));
+      continue;
+    }
+
+    const explosion = action.explosion ?? null;
+    const rules = bang ? bangRules(() => explosion?.destroyedStones ?? null) : CLASSIC_RULES;
+    const replayed = replayAction(state, action, rules);
+    if (replayed) state = replayed.state;
+
+    let droneTarget: Position | null = null;
+    let beforeDrone: GenericBoard | null = null;
+    const droneStrike = action.droneStrike ?? null;
+    if (droneStrike && state.board[droneStrike.targetY]?.[droneStrike.targetX] !== null) {
+      beforeDrone = state.board.map(row => [...row]);
+      state.board[droneStrike.targetY][droneStrike.targetX] = null;
+      state.onBoard[droneStrike.targetColor]--;
+      state.positionHashes = [hashPosition(state.board)];
+      droneTarget = { x: droneStrike.targetX, y: droneStrike.targetY };
+    }
+
+    frames.push(frame(state, action, {
+      explosion: explosion ? { x: explosion.triggerX, y: explosion.triggerY } : null,
+      droneTarget,
+      beforeDrone,
+    }));
+  }
+  return frames;
+}
+
+// Every position of a game from its row and action log (in the history route's order), as
+// loadReplay reads them from the database and an imported archive carries them
+export function replayRows(variant: ReplayVariant, row: Record<string, unknown>, rows: Record<string, unknown>[]): GameReplay {
+  const log = rows as unknown as LoggedAction[];
+  switch (variant) {
+    case 'games': {
+      const game = row as unknown as Game;
+      const size = game.boardSize;
+      return { width: size, height: size, theme: CLASSIC_THEME, frames: classicFrames(initialClassicState(game), log, false) };
+    }
+    case 'bang': {
+      const game = row as unknown as BangGame;
+      const size = game.boardSize;
+      return { width: size, height: size, theme: BANG_THEME, frames: classicFrames(initialBangState(game), log, true) };
+    }
+    case 'crazy': {
+      const game = row as unknown as CrazyGame;
+      const size = game.boardSize;
+      return { width: size, height: size, theme: CRAZY_THEME, frames: replayFrames(initialCrazyState(game), log, CRAZY_RULES) };
+    }
+    case 'zen': {
+      const game = row as unknown as ZenGame;
+      const size = game.boardSize;
+      return { width: size, height: size, theme: ZEN_THEME, frames: replayFrames(initialZenState(game), log, ZEN_RULES) };
+    }
+    case 'wilde': {
+      const game = row as unknown as WildeGame;
+      // A pakita eating a stone is a removal
+      const moves = log.map(a => (a.actionType === 'pakita_eat' ? { ...a, actionType: 'remove' } : a));
+      const { boardWidth, boardHeight, playerCount, customHues } = game;
+      return {
+        width: boardWidth,
+        height: boardHeight,
+        theme: wildeTheme(playerCount, customHues ?? null),
+        frames: replayFrames(initialWildeState(game, log), moves, wildeRules(playerCount)),
+      };
+    }
+  }
+}
+
+// Every position of a game, or null if there is no such game
+export async function loadReplay(variant: ReplayVariant, gameId: string): Promise<GameReplay | null> {
+  switch (variant) {
+    case 'games': {
+      const game = await db.select().from(games).where(eq(games.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const log = await db.select().from(actions).where(eq(actions.gameId, gameId)).orderBy(asc(actions.createdAt));
+      return replayRows(variant, game[0], log);
+    }
+    case 'bang': {
+      const game = await db.select().from(bangGames).where(eq(bangGames.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const log = await db.select().from(bangActions).where(eq(bangActions.gameId, gameId)).orderBy(asc(bangActions.createdAt));
+      return replayRows(variant, game[0], log);
+    }
+    case 'crazy': {
+      const game = await db.select().from(crazyGames).where(eq(crazyGames.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const log = await db.select().from(crazyActions).where(eq(crazyActions.gameId, gameId)).orderBy(asc(crazyActions.moveNumber));
+      return replayRows(variant, game[0], log);
+    }
+    case 'zen': {
+      const game = await db.select().from(zenGames).where(eq(zenGames.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const log = await db.select().from(zenActions).where(eq(zenActions.gameId, gameId)).orderBy(asc(zenActions.moveNumber));
+      return replayRows(variant, game[0], log);
+    }
+    case 'wilde': {
+      const game = await db.select().from(wildeGames).where(eq(wildeGames.id, gameId)).limit(1);
+      if (game.length === 0) return null;
+      const log = await db.select().from(wildeActions).where(eq(wildeActions.gameId, gameId)).orderBy(asc(wildeActions.moveNumber));
+      return replayRows(variant, game[0], log);
+    }
+  }
+}
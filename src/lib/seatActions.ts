@@ -0,0 +1,141 @@
+// Recording actions on Crazy and Wilde boards, shared by the action routes and the bot seats.
+// Bot seats place through the same engine and the same writes as people, so their moves
+// land in crazyActions/wildeActions and replay, undo and history need nothing special.
+
+import { db } from '@/lib/db';
+import { crazyGames, crazyActions, wildeGames, wildeActions } from '@/lib/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { applyAction, removedStones, type ActionSuccess, type EngineState, type VariantRules } from '@/lib/game/engine';
+import { CRAZY_RULES, crazyState, crazyColumns, wildeRules, wildeState, wildeColumns } from '@/lib/game/variants';
+import { chooseSeatMove } from '@/lib/game/seatBot';
+import type { Position } from '@/lib/game/shared';
+
+export type SeatVariant = 'crazy' | 'wilde';
+
+interface LoggedInput {
+  actionType: unknown;
+  fromX?: number | null;
+  fromY?: number | null;
+  toX?: number | null;
+  toY?: number | null;
+}
+
+function actionRow(gameId: string, input: LoggedInput, outcome: ActionSuccess, koPoint: Position | null, moveNumber: number) {
+  return {
+    id: randomUUID(),
+    gameId,
+    actionType: String(input.actionType),
+    stoneColor: outcome.color,
+    fromX: input.fromX ?? null,
+    fromY: input.fromY ?? null,
+    toX: input.toX ?? null,
+    toY: input.toY ?? null,
+    moveNumber,
+    capturedStones: removedStones(outcome.events),
+    koPointX: koPoint?.x ?? null,
+    koPointY: koPoint?.y ?? null,
+  };
+}
+
+// Store a Crazy action the engine accepted and log it. Returns the new columns and move number,
+// or null if another move landed after previousMoveNumber was read.
+export async function recordCrazyAction(gameId: string, input: LoggedInput, outcome: ActionSuccess, previousMoveNumber: number) {
+  const columns = crazyColumns(outcome.state);
+
+  // Only written over the position the outcome was computed from
+  const updateResult = await db.update(crazyGames).set({
+    ...columns,
+    positionHashes: outcome.state.positionHashes,
+    moveNumber: sql`${crazyGames.moveNumber} + 1`,
+    updatedAt: new Date(),
+  }).where(and(eq(crazyGames.id, gameId), eq(crazyGames.moveNumber, previousMoveNumber)))
+    .returning({ moveNumber: crazyGames.moveNumber });
+  if (updateResult.length === 0) return null;
+
+  const { moveNumber } = updateResult[0];
+  await db.insert(crazyActions).values(actionRow(gameId, input, outcome, outcome.state.koPoint, moveNumber));
+  return { columns, moveNumber };
+}
+
+// Store a Wilde action the engine accepted and log it. Returns the new columns and move number,
+// or null if another move landed after previousMoveNumber was read.
+export async function recordWildeAction(gameId: string, input: LoggedInput, outcome: ActionSuccess, previousMoveNumber: number) {
+  const columns = wildeColumns(outcome.state);
+
+  // Only written over the position the outcome was computed from
+  const updateResult = await db.update(wildeGames).set({
+    ...columns,
+    positionHashes: outcome.state.positionHashes,
+    moveNumber: sql`${wildeGames.moveNumber} + 1`,
+    updatedAt: new Date(),
+  }).where(and(eq(wildeGames.id, gameId), eq(wildeGames.moveNumber, previousMoveNumber)))
+    .returning({ moveNumber: wildeGames.moveNumber });
+  if (updateResult.length === 0) return null;
+
+  const { moveNumber } = updateResult[0];
+  await db.insert(wildeActions).values(actionRow(gameId, input, outcome, outcome.state.koPoint, moveNumber));
+  return { columns, moveNumber };
+}
+
+// Seats must be distinct colour indexes of the game
+export function validBotSeats(value: unknown, colorCount: number): number[] | null {
+  if (!Array.isArray(value)) return null;
+  const seats = new Set<number>();
+  for (const seat of value) {
+    if (typeof seat !== 'number' || !Number.isInteger(seat) || seat < 0 || seat >= colorCount || seats.has(seat)) return null;
+    seats.add(seat);
+  }
+  return [...seats].sort((a, b) => a - b);
+}
+
+export interface BotSeatMove {
+  color: number;
+  x: number;
+  y: number;
+  moveNumber: number;
+}
+
+// Play bot seats for as long as the turn sits with one. At most one round per call, so a
+// table of nothing but bots can't spin forever; a bot with no legal placement waits, and one
+// that finds the board changed under it leaves the turn to whoever changed it.
+async function playSeats(
+  state: EngineState,
+  rules: VariantRules,
+  botSeats: number[],
+  moveNumber: number,
+  record: (input: LoggedInput, outcome: ActionSuccess, previousMoveNumber: number) => Promise<{ moveNumber: number } | null>
+): Promise<BotSeatMove[]> {
+  const moves: BotSeatMove[] = [];
+  while (moves.length < rules.seatCount && botSeats.includes(state.currentTurn)) {
+    const color = state.currentTurn;
+    const pos = chooseSeatMove(state, color, rules);
+    if (!pos) break;
+
+    const input = { actionType: 'place', stoneColor: color, toX: pos.x, toY: pos.y };
+    const outcome = applyAction(state, input, rules);
+    if (!outcome.ok) break;
+
+    const recorded = await record(input, outcome, moveNumber);
+    if (!recorded) break;
+    ({ moveNumber } = recorded);
+    moves.push({ color, x: pos.x, y: pos.y, moveNumber });
+    state = outcome.state;
+  }
+  return moves;
+}
+
+// Let any bot seats whose turn it is play, reading the game fresh from the database
+export async function playBotSeats(variant: SeatVariant, gameId: string): Promise<BotSeatMove[]> {
+  if (variant === 'crazy') {
+    const game = await db.select().from(crazyGames).where(eq(crazyGames.id, gameId)).limit(1);
+    if (game.length === 0 || game[0].botSeats.length === 0) return [];
+    return playSeats(crazyState(game[0]), CRAZY_RULES, game[0].botSeats, game[0].moveNumber,
+      (input, outcome, previous) => recordCrazyAction(gameId, input, outcome, previous));
+  }
+
+  const game = await db.select().from(wildeGames).where(eq(wildeGames.id, gameId)).limit(1);
+  if (game.length === 0 || game[0].botSeats.length === 0) return [];
+  return playSeats(wildeState(game[0]), wildeRules(game[0].playerCount), game[0].botSeats, game[0].moveNumber,
+    (input, outcome, previous) => recordWildeAction(gameId, input, outcome, previous));
+}
@@ -0,0 +1,212 @@
+// /api/{variant}/[gameId]/text - the board as plain text, and moves typed as coordinates, for
+// following and playing games from a terminal or a screen reader.
+// Points are named the way Go programs name them: a column letter (skipping I) and a row number
+// counting up from the bottom, so D4 is the fourth column from the left on the fourth row up.
+
+import { NextRequest } from 'next/server';
+import { loadGamePreview, type GamePreview, type PreviewRoute } from '@/lib/gamePreviews';
+import type { ReplayVariant } from '@/lib/replays';
+import type { Position } from '@/lib/game/shared';
+
+const COLUMNS = 'ABCDEFGHJKLMNOPQRSTUVWXYZ';
+
+export type TextSymbols = 'ascii' | 'unicode';
+
+// Stones by colour index, then the empty point
+const SYMBOLS: Record<TextSymbols, { stones: string[]; empty: string }> = {
+  ascii: { stones: ['X', 'O', '#', '@', '$', '%', '&', '*'], empty: '.' },
+  unicode: { stones: ['●', '○', '◆', '◇', '■', '□', '▲', '△'], empty: '·' },
+};
+
+// The text routes live under the API paths; classic games share /api/games with Dom boards
+const PREVIEW_ROUTES: Record<ReplayVariant, PreviewRoute> = {
+  games: 'game',
+  crazy: 'crazy',
+  wilde: 'wilde',
+  zen: 'zen',
+  bang: 'bang',
+};
+
+// Two-colour games where the player picks the colour for a pass, a resignation or (classic) a stone
+const COLOR_WORDS: Record<string, number> = { b: 0, black: 0, w: 1, white: 1 };
+
+// Commands become the JSON body of the variant's action route
+export type TextCommand =
+  | { ok: true; body: Record<string, unknown> }
+  | { ok: false; error: string };
+
+export function pointName(pos: Position, height: number): string {
+  return `${COLUMNS[pos.x]}${height - pos.y}`;
+}
+
+export function parsePoint(text: string, width: number, height: number): Position | null {
+  const match = /^([a-z])(\d{1,2})$/i.exec(text);
+  if (!match) return null;
+  const x = COLUMNS.indexOf(match[1].toUpperCase());
+  const y = height - Number(match[2]);
+  if (x < 0 || x >= width || y < 0 || y >= height) return null;
+  return { x, y };
+}
+
+function stoneName(preview: GamePreview, pos: Position): string {
+  const stone = preview.picture.board[pos.y]?.[pos.x];
+  return stone === null || stone === undefined ? '' : ` (${preview.colorNames[stone] ?? `colour ${stone}`})`;
+}
+
+// The whole board with coordinates on all four sides, then a key and the game's counters
+export function boardText(preview: GamePreview, symbols: TextSymbols): string {
+  const { board, width, height, lastMove } = preview.picture;
+  const { stones, empty } = SYMBOLS[symbols];
+  const pad = String(height).length;
+  const header = `${' '.repeat(pad + 2)}${COLUMNS.slice(0, width).split('').join(' ')}`;
+
+  const lines = [`${preview.variant} - move ${preview.moveNumber} - ${preview.situation}`, '', header];
+  board.forEach((row, y) => {
+    const number = String(height - y).padStart(pad);
+    const points = row.map(stone => (stone === null ? empty : stones[stone] ?? '?')).join(' ');
+    lines.push(`${number}  ${points}  ${number}`);
+  });
+  lines.push(header, '');
+
+  preview.colorNames.forEach((name, i) => lines.push(`${stones[i] ?? '?'} ${name}`));
+  lines.push(`Pots: ${preview.pots.map(pot => `${pot.name} ${pot.count}`).join(', ')}`);
+  lines.push(`Last move: ${lastMove ? `${pointName(lastMove, height)}${stoneName(preview, lastMove)}` : 'none'}`);
+  lines.push(`Ko: ${preview.koPoint ? pointName(preview.koPoint, height) : 'none'}`);
+  return `${lines.join('\n')}\n`;
+}
+
+// A typed command: D4, place D4, remove D4, move D4 E5, pass or resign. Classic and
+// Go Bang commands can start with the colour (black D4, w pass); it defaults to whoever is to play.
+export function parseCommand(text: string, variant: ReplayVariant, preview: GamePreview): TextCommand {
+  const { width, height } = preview.picture;
+  const twoColor = variant === 'games' || variant === 'bang';
+  const words = text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const hint = twoColor ? 'Try D4, move D4 E5, remove D4 or pass.' : 'Try D4, move D4 E5 or remove D4.';
+
+  let stoneColor = preview.toPlay;
+  if (twoColor && Object.hasOwn(COLOR_WORDS, words[0] ?? '')) {
+    stoneColor = COLOR_WORDS[words.shift()!];
+  }
+  if (words.length === 0) {
+    return { ok: false, error: `Command is required. ${hint}` };
+  }
+
+  const point = (word: string | undefined): Position | string => {
+    const pos = word ? parsePoint(word, width, height) : null;
+    const last = pointName({ x: width - 1, y: 0 }, height);
+    return pos ?? `Invalid point${word ? ` ${word.toUpperCase()}` : ''}. Must be A1-${last}.`;
+  };
+
+  // A bare point places a stone
+  const verb = words.length === 1 && /^[a-z]\d{1,2}$/.test(words[0]) ? 'place' : words.shift()!;
+  switch (verb) {
+    case 'place':
+    case 'play': {
+      const to = point(words[0]);
+      if (typeof to === 'string') return { ok: false, error: to };
+      return { ok: true, body: { actionType: 'place', stoneColor, toX: to.x, toY: to.y } };
+    }
+    case 'remove': {
+      const from = point(words[0]);
+      if (typeof from === 'string') return { ok: false, error: from };
+      return { ok: true, body: { actionType: 'remove', fromX: from.x, fromY: from.y } };
+    }
+    case 'move': {
+      const from = point(words[0]);
+      if (typeof from === 'string') return { ok: false, error: from };
+      const to = point(words[1]);
+      if (typeof to === 'string') return { ok: false, error: to };
+      return { ok: true, body: { actionType: 'move', fromX: from.x, fromY: from.y, toX: to.x, toY: to.y } };
+    }
+    case 'pass':
+    case 'resign':
+      if (!twoColor) return { ok: false, error: `${preview.variant} has no ${verb}.` };
+      return { ok: true, body: { actionType: verb, stoneColor } };
+    default:
+      return { ok: false, error: `Unknown command. ${hint}` };
+  }
+}
+
+function textResponse(text: string, status = 200): Response {
+  return new Response(text, {
+    status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+// Shared handler for GET on the per-variant text routes
+export async function textBoardRoute(variant: ReplayVariant, request: NextRequest, gameId: string): Promise<Response> {
+  try {
+    const symbols = request.nextUrl.searchParams.get('symbols') ?? 'ascii';
+    if (symbols !== 'ascii' && symbols !== 'unicode') {
+      return textResponse('Error: Invalid symbols. Must be ascii or unicode.\n', 400);
+    }
+
+    const preview = await loadGamePreview(PREVIEW_ROUTES[variant], gameId);
+    if (!preview) return textResponse('Error: Game not found\n', 404);
+
+    return textResponse(boardText(preview, symbols));
+  } catch (error) {
+    console.error('Error rendering text board:', error);
+    return textResponse('Error: Failed to render board\n', 500);
+  }
+}
+
+// Shared handler for POST on the per-variant text routes. The command is turned into an ordinary
+// action and handed to the variant's action route, so keys, rules, rate limits and bot seats all
+// behave exactly as they do there. Replies with the board after the move, or the route's error.
+// Body: JSON { privateKey, command, symbols? }, or the command as plain text with ?key= and ?symbols=
+export async function textActionRoute(
+  variant: ReplayVariant,
+  request: NextRequest,
+  gameId: string,
+  postAction: (request: NextRequest) => Promise<Response>
+): Promise<Response> {
+  try {
+    const query = request.nextUrl.searchParams;
+    let privateKey: unknown = query.get('key');
+    let command: unknown;
+    let symbols: unknown = query.get('symbols') ?? 'ascii';
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json();
+      privateKey = body.privateKey ?? privateKey;
+      command = body.command;
+      symbols = body.symbols ?? symbols;
+    } else {
+      command = await request.text();
+    }
+
+    if (typeof command !== 'string' || command.trim() === '') {
+      return textResponse('Error: Command is required, such as D4 or move D4 E5.\n', 400);
+    }
+    if (symbols !== 'ascii' && symbols !== 'unicode') {
+      return textResponse('Error: Invalid symbols. Must be ascii or unicode.\n', 400);
+    }
+
+    const preview = await loadGamePreview(PREVIEW_ROUTES[variant], gameId);
+    if (!preview) return textResponse('Error: Game not found\n', 404);
+
+    const parsed = parseCommand(command, variant, preview);
+    if (!parsed.ok) return textResponse(`Error: ${parsed.error}\n`, 400);
+
+    const headers = new Headers(request.headers);
+    headers.set('content-type', 'application/json');
+    headers.delete('content-length');
+    const response = await postAction(new NextRequest(request.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ privateKey, ...parsed.body }),
+    }));
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      return textResponse(`Error: ${data.error ?? 'Failed to perform action'}\n`, response.status);
+    }
+
+    const after = await loadGamePreview(PREVIEW_ROUTES[variant], gameId);
+    return textResponse(after ? boardText(after, symbols) : 'OK\n');
+  } catch (error) {
+    console.error('Error performing text action:', error);
+    return textResponse('Error: Failed to perform action\n', 500);
+  }
+}
@@ -68,3 +68,67 @@ export function initializeStonePots(width: number, height: number, playerCount:
     onBoard: 0
   }));
 }
+
+// The create page's hue slider runs from -180 to 180 degrees
+export const MAX_HUE_OFFSET = 180;
+
+export function isValidHueOffset(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && Math.abs(value) <= MAX_HUE_OFFSET;
+}
+
+// Custom hues for colours 0 to playerCount-1, or null if any colour or offset is out of range
+export function validCustomHues(value: unknown, playerCount: number): Record<number, number> | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const hues: Record<number, number> = {};
+  for (const [color, hue] of Object.entries(value)) {
+    const index = Number(color);
+    if (!Number.isInteger(index) || index < 0 || index >= playerCount || !isValidHueOffset(hue)) return null;
+    hues[index] = hue;
+  }
+  return hues;
+}
+
+// Rotate a colour's hue by `hueOffset` degrees (players can tint their colour at creation)
+export function adjustColorHue(hex: string, hueOffset: number): string {
+  if (!hueOffset) return hex;
+
+  const r = parseInt(hex.slice(1, 3), 16) / 255;
+  const g = parseInt(hex.slice(3, 5), 16) / 255;
+  const b = parseInt(hex.slice(5, 7), 16) / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  let h = 0;
+  let s = 0;
+
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    switch (max) {
+      case r: h = ((g - b) / d + (g < b ? 6 : 0)) / 6; break;
+      case g: h = ((b - r) / d + 2) / 6; break;
+      case b: h = ((r - g) / d + 4) / 6; break;
+    }
+  }
+
+  h = (h + hueOffset / 360) % 1;
+  if (h < 0) h += 1;
+
+  const hue2rgb = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1/6) return p + (q - p) * 6 * t;
+    if (t < 1/2) return q;
+    if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
+    return p;
+  };
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const newR = Math.round(hue2rgb(p, q, h + 1/3) * 255);
+  const newG = Math.round(hue2rgb(p, q, h) * 255);
+  const newB = Math.round(hue2rgb(p, q, h - 1/3) * 255);
+
+  return `#${newR.toString(16).padStart(2, '0')}${newG.toString(16).padStart(2, '0')}${newB.toString(16).padStart(2, '0')}`;
+}